@@ -3,6 +3,7 @@ import Uploader from './components/Uploader';
 import AnalysisDashboard from './components/AnalysisDashboard';
 import HistoryView from './components/HistoryView';
 import { UsageReport, StoredReport } from './types';
+import { formatSchemaErrors, validateUsageReport } from '@llm-usage/core';
 import { MOCK_DATA } from './constants';
 import { Activity, History, ChevronDown, Trash2, X, TrendingUp } from 'lucide-react';
 import { storageService } from './services/storageService';
@@ -82,8 +83,13 @@ const App: React.FC = () => {
     try {
       const res = await fetch(`${LOCAL_SERVER_URL}/api/usage`);
       if (res.ok) {
-        const newData = await res.json() as UsageReport;
-        setData(newData);
+        const { valid, errors, report } = validateUsageReport(await res.json());
+        if (!valid) {
+          // Keep showing the last good report rather than a broken one
+          console.error('Live server sent an invalid report:', formatSchemaErrors(errors).join('\n'));
+          return;
+        }
+        setData(report as UsageReport);
         setLiveServerConnected(true);
       }
     } catch {
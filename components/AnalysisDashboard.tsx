@@ -5,15 +5,23 @@ import {
 } from 'recharts';
 import {
   TrendingUp, TrendingDown, DollarSign, Activity,
-  AlertTriangle, BrainCircuit, RefreshCw, Scale, Download, FileText, FileSpreadsheet, Copy, Check, Zap, Radio, ChevronDown
+  AlertTriangle, BrainCircuit, RefreshCw, Scale, Download, FileText, FileSpreadsheet, Copy, Check, Zap, Radio, ChevronDown, Settings
 } from 'lucide-react';
-import { UsageReport, AnalysisResult } from '../types';
+import { UsageReport, AnalysisResult, EstimatedField } from '../types';
 import { calculateAnalysis, formatTokenNumber } from '../services/analysisService';
 import { getGeminiRecommendation } from '../services/geminiService';
 import PlanComparison from './PlanComparison';
 import PlanFitAnalyzer from './PlanFitAnalyzer';
+import PlanSettings from './PlanSettings';
+import ProjectBreakdown from './ProjectBreakdown';
+import ToolBreakdown from './ToolBreakdown';
+import SessionsTable from './SessionsTable';
+import SessionTimelineView from './SessionTimelineView';
+import UsageHeatmap from './UsageHeatmap';
 import { exportToJSON, exportToCSV, exportToPDF, copyToClipboard } from '../services/exportService';
-import { PLAN_LIMITS, PlanLimitKey } from '../constants';
+import { storageService } from '../services/storageService';
+import { withCustomPlans } from '../constants';
+import { CustomPlan, getPlan, monthlyPrice, resolvePlans } from '@llm-usage/core';
 
 interface DashboardProps {
   data: UsageReport;
@@ -61,19 +69,35 @@ const StatCard: React.FC<{
 
 const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData, liveServerConnected, onLiveRefresh }) => {
   const analysis = useMemo(() => calculateAnalysis(data), [data]);
+  const heatmapReports = useMemo(() => [data], [data]);
+  const isEstimated = (field: EstimatedField) => !!data.usage.tokens.estimated?.includes(field);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [loadingAi, setLoadingAi] = useState(false);
   const [showPlanComparison, setShowPlanComparison] = useState(false);
   const [showPlanFit, setShowPlanFit] = useState(false);
+  const [showPlanSettings, setShowPlanSettings] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedSession, setSelectedSession] = useState<string | null>(null);
+
+  // Custom plans - persisted in user settings
+  const [customPlans, setCustomPlans] = useState<CustomPlan[]>(() => storageService.getCustomPlans());
+  const plans = useMemo(() => resolvePlans(customPlans), [customPlans]);
+  const comparisonPlans = useMemo(() => withCustomPlans(customPlans), [customPlans]);
+
+  const handleCustomPlansChange = (next: CustomPlan[]) => {
+    storageService.updateSetting('customPlans', next);
+    setCustomPlans(next);
+  };
 
   // Global plan selection - persisted to localStorage
-  const [selectedPlan, setSelectedPlan] = useState<PlanLimitKey>(() => {
+  const [selectedPlan, setSelectedPlan] = useState<string>(() => {
     const saved = localStorage.getItem('selectedPlan');
-    return (saved as PlanLimitKey) || 'Claude Max 20x';
+    return saved || 'Claude Max 20x';
   });
+  // A deleted custom plan falls back to the most expensive one
+  const currentPlan = getPlan(plans, selectedPlan) || plans.reduce((a, b) => (monthlyPrice(b) > monthlyPrice(a) ? b : a));
 
   // Persist plan selection
   useEffect(() => {
@@ -178,13 +202,13 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
             <span className="text-xs text-slate-500">Your plan:</span>
             <div className="relative">
               <select
-                value={selectedPlan}
-                onChange={(e) => setSelectedPlan(e.target.value as PlanLimitKey)}
+                value={currentPlan.name}
+                onChange={(e) => setSelectedPlan(e.target.value)}
                 className="appearance-none bg-slate-800 border border-slate-600 rounded-lg px-3 py-1.5 pr-8 text-white font-medium text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 cursor-pointer hover:bg-slate-700 transition-colors"
               >
-                <option value="Claude Pro">Claude Pro ($20/mo)</option>
-                <option value="Claude Max 5x">Claude Max 5x ($100/mo)</option>
-                <option value="Claude Max 20x">Claude Max 20x ($200/mo)</option>
+                {plans.map((plan) => (
+                  <option key={plan.name} value={plan.name}>{plan.name} (${+monthlyPrice(plan).toFixed(2)}/mo)</option>
+                ))}
               </select>
               <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
             </div>
@@ -210,7 +234,7 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
 
           {/* Plan Fit Button - Most Important */}
           <button
-            onClick={() => { setShowPlanFit(!showPlanFit); if (!showPlanFit) setShowPlanComparison(false); }}
+            onClick={() => { setShowPlanFit(!showPlanFit); if (!showPlanFit) { setShowPlanComparison(false); setShowPlanSettings(false); } }}
             className={`text-sm flex items-center gap-2 px-4 py-2 rounded-lg transition-colors font-medium ${
               showPlanFit
                 ? 'bg-purple-500 text-white shadow-lg shadow-purple-500/20'
@@ -222,7 +246,7 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
 
           {/* Compare Plans Button */}
           <button
-            onClick={() => { setShowPlanComparison(!showPlanComparison); if (!showPlanComparison) setShowPlanFit(false); }}
+            onClick={() => { setShowPlanComparison(!showPlanComparison); if (!showPlanComparison) { setShowPlanFit(false); setShowPlanSettings(false); } }}
             className={`text-sm flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
               showPlanComparison
                 ? 'bg-indigo-500 text-white'
@@ -232,6 +256,18 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
             <Scale className="w-4 h-4" /> Compare Plans
           </button>
 
+          {/* Plan Settings Button */}
+          <button
+            onClick={() => { setShowPlanSettings(!showPlanSettings); if (!showPlanSettings) { setShowPlanFit(false); setShowPlanComparison(false); } }}
+            className={`text-sm flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              showPlanSettings
+                ? 'bg-indigo-500 text-white'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800'
+            }`}
+          >
+            <Settings className="w-4 h-4" /> Plans
+          </button>
+
           {/* Export Dropdown */}
           <div className="relative">
             <button
@@ -300,14 +336,21 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
       {/* Plan Fit Analysis Panel */}
       {showPlanFit && (
         <div className="animate-in fade-in slide-in-from-top-4 duration-500 bg-slate-900/60 backdrop-blur-xl border border-white/10 rounded-2xl p-8">
-          <PlanFitAnalyzer data={data} currentPlan={selectedPlan} onPlanChange={setSelectedPlan} />
+          <PlanFitAnalyzer data={data} plans={plans} currentPlan={currentPlan.name} onPlanChange={setSelectedPlan} />
         </div>
       )}
 
       {/* Plan Comparison Panel */}
       {showPlanComparison && (
         <div className="animate-in fade-in slide-in-from-top-4 duration-500">
-          <PlanComparison data={data} onClose={() => setShowPlanComparison(false)} />
+          <PlanComparison data={data} plans={comparisonPlans} onClose={() => setShowPlanComparison(false)} />
+        </div>
+      )}
+
+      {/* Plan Settings Panel */}
+      {showPlanSettings && (
+        <div className="animate-in fade-in slide-in-from-top-4 duration-500">
+          <PlanSettings customPlans={customPlans} onChange={handleCustomPlansChange} onClose={() => setShowPlanSettings(false)} />
         </div>
       )}
 
@@ -315,8 +358,8 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard
           title="Your Plan Cost"
-          value={`$${PLAN_LIMITS[selectedPlan].price}/mo`}
-          subtitle={selectedPlan}
+          value={`$${+monthlyPrice(currentPlan).toFixed(2)}/mo`}
+          subtitle={currentPlan.name}
           icon={<DollarSign className="w-5 h-5" />}
           delay={0}
         />
@@ -390,6 +433,8 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
             </div>
           </div>
 
+          <UsageHeatmap reports={heatmapReports} />
+
           {/* Model Breakdown & Ratio */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div 
@@ -426,6 +471,7 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
                   <div key={index} className="flex items-center text-xs text-slate-400">
                     <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
                     {entry.name}
+                    {entry.estimated && <span className="ml-1 text-amber-400/80" title="Includes tokenizer estimates">≈</span>}
                   </div>
                 ))}
               </div>
@@ -440,7 +486,7 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
                   <div>
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-indigo-400">Input (Context)</span>
-                      <span className="text-white">{formatTokenNumber(data.usage.tokens.input)}</span>
+                      <span className="text-white">{isEstimated('input') && '≈ '}{formatTokenNumber(data.usage.tokens.input)}</span>
                     </div>
                     <div className="w-full bg-slate-700 rounded-full h-2 overflow-hidden">
                       <div 
@@ -452,7 +498,7 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
                   <div>
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-emerald-400">Output (Generation)</span>
-                      <span className="text-white">{formatTokenNumber(data.usage.tokens.output)}</span>
+                      <span className="text-white">{isEstimated('output') && '≈ '}{formatTokenNumber(data.usage.tokens.output)}</span>
                     </div>
                     <div className="w-full bg-slate-700 rounded-full h-2 overflow-hidden">
                       <div 
@@ -461,12 +507,41 @@ const AnalysisDashboard: React.FC<DashboardProps> = ({ data, onReset, isLiveData
                       ></div>
                     </div>
                   </div>
+                  {(data.usage.tokens.cache_read || data.usage.tokens.cache_write) ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-amber-400">Prompt Cache</span>
+                      <span className="text-white">
+                        {formatTokenNumber(data.usage.tokens.cache_read || 0)} read
+                        <span className="text-slate-500"> · </span>
+                        {formatTokenNumber(data.usage.tokens.cache_write || 0)} written
+                      </span>
+                    </div>
+                  ) : null}
+                  {data.usage.tokens.estimated?.length ? (
+                    <div className="text-xs text-amber-400/80">
+                      ≈ Some counts are approximate: they were estimated from chat text because the logs did not record token usage.
+                    </div>
+                  ) : null}
                   <div className="text-xs text-slate-500 mt-4">
                     High input ratio suggests RAG or context-heavy usage. High output ratio suggests creative writing or coding generation.
                   </div>
                </div>
             </div>
           </div>
+
+          <ProjectBreakdown data={data} />
+
+          <ToolBreakdown data={data} />
+
+          <SessionsTable data={data} selectedId={selectedSession} onSelect={setSelectedSession} />
+
+          {selectedSession && (
+            <SessionTimelineView
+              sessionId={selectedSession}
+              liveServerConnected={liveServerConnected}
+              onClose={() => setSelectedSession(null)}
+            />
+          )}
         </div>
 
         {/* Right Column: AI Insights */}
@@ -18,10 +18,10 @@ import { StoredReport } from '../types';
 import {
   analyzeUsageTrends,
   getDailyBreakdown,
-  getWeekdayHeatmap,
   getModelDistribution,
   formatMonth,
 } from '../services/trendService';
+import UsageHeatmap from './UsageHeatmap';
 
 interface HistoryViewProps {
   reports: StoredReport[];
@@ -33,7 +33,7 @@ const COLORS = ['#6366f1', '#8b5cf6', '#a855f7', '#d946ef', '#ec4899', '#f43f5e'
 const HistoryView: React.FC<HistoryViewProps> = ({ reports, onBack }) => {
   const trends = useMemo(() => analyzeUsageTrends(reports), [reports]);
   const dailyData = useMemo(() => getDailyBreakdown(reports), [reports]);
-  const weekdayData = useMemo(() => getWeekdayHeatmap(reports), [reports]);
+  const hourlyReports = useMemo(() => reports.map((stored) => stored.report), [reports]);
   const modelData = useMemo(() => getModelDistribution(reports), [reports]);
 
   if (!trends || trends.data.length === 0) {
@@ -214,25 +214,8 @@ const HistoryView: React.FC<HistoryViewProps> = ({ reports, onBack }) => {
           </div>
         </div>
 
-        {/* Weekday Pattern */}
-        <div className="bg-slate-800/40 rounded-xl border border-white/5 p-6">
-          <h3 className="text-lg font-semibold text-white mb-4">Usage by Day of Week</h3>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={weekdayData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                <XAxis dataKey="day" stroke="#94a3b8" fontSize={12} tickFormatter={(d) => d.slice(0, 3)} />
-                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(v) => `${(v / 1000).toFixed(0)}K`} />
-                <Tooltip
-                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px' }}
-                  labelStyle={{ color: '#f1f5f9' }}
-                  formatter={(value: number) => [`${(value / 1000).toFixed(1)}K avg`, 'Tokens']}
-                />
-                <Bar dataKey="avgTokens" fill="#a855f7" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
+        {/* Hour × Weekday Pattern */}
+        <UsageHeatmap reports={hourlyReports} />
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
 import React, { useMemo } from 'react';
 import { Check, X, Crown, TrendingDown, AlertCircle, Sparkles } from 'lucide-react';
 import { UsageReport, PlanInfo } from '../types';
-import { PLANS_DATABASE, MODEL_PRICING } from '../constants';
+import { PLANS_DATABASE } from '../constants';
+import { calculateReportCost } from '@llm-usage/core';
 
 interface PlanComparisonProps {
   data: UsageReport;
+  plans?: PlanInfo[]; // Defaults to the built-in plans database
   onClose?: () => void;
 }
 
@@ -17,10 +19,10 @@ interface PlanCostEstimate {
   warnings: string[];
 }
 
-const PlanComparison: React.FC<PlanComparisonProps> = ({ data, onClose }) => {
+const PlanComparison: React.FC<PlanComparisonProps> = ({ data, plans = PLANS_DATABASE, onClose }) => {
   const estimates = useMemo(() => {
-    return calculatePlanEstimates(data);
-  }, [data]);
+    return calculatePlanEstimates(data, plans);
+  }, [data, plans]);
 
   const currentPlan = estimates.find(e => e.isCurrentPlan);
   const bestPlan = estimates.filter(e => e.meetsUsage).sort((a, b) => a.monthlyCost - b.monthlyCost)[0];
@@ -273,18 +275,18 @@ const PlanCard: React.FC<PlanCardProps> = ({ estimate, isBest }) => {
   );
 };
 
-function calculatePlanEstimates(data: UsageReport): PlanCostEstimate[] {
+function calculatePlanEstimates(data: UsageReport, plans: PlanInfo[]): PlanCostEstimate[] {
   const estimates: PlanCostEstimate[] = [];
   const daysInPeriod = getDaysInPeriod(data);
   const avgMessagesPerDay = data.usage.messages.count / Math.max(daysInPeriod, 1);
 
-  for (const plan of PLANS_DATABASE) {
+  for (const plan of plans) {
     let monthlyCost = 0;
     let meetsUsage = true;
     const warnings: string[] = [];
 
     if (plan.type === 'subscription') {
-      monthlyCost = plan.price_usd;
+      monthlyCost = plan.billing === 'annual' ? plan.price_usd / 12 : plan.price_usd;
 
       // Check if usage fits within plan limits
       if (plan.limits?.estimated_messages_per_day) {
@@ -295,7 +297,7 @@ function calculatePlanEstimates(data: UsageReport): PlanCostEstimate[] {
       }
     } else {
       // PAYG - calculate actual cost based on tokens
-      monthlyCost = calculatePaygCost(data, plan);
+      monthlyCost = calculatePaygCost(data);
     }
 
     const normalizedDataPlan = normalizePlanName(data.plan.name);
@@ -336,32 +338,12 @@ function normalizePlanName(name: string): string {
   return lower;
 }
 
-function calculatePaygCost(data: UsageReport, plan: PlanInfo): number {
-  let totalCost = 0;
+function calculatePaygCost(data: UsageReport): number {
   const daysInPeriod = getDaysInPeriod(data);
   const monthlyMultiplier = 30 / Math.max(daysInPeriod, 1);
 
-  // Calculate based on model-specific pricing
-  for (const [model, tokens] of Object.entries(data.usage.tokens.by_model)) {
-    const pricing = plan.pricing?.by_model?.[model]
-      || MODEL_PRICING[model]
-      || { input: plan.pricing?.input_per_1m_tokens || 5, output: plan.pricing?.output_per_1m_tokens || 20 };
-
-    const inputCost = (tokens.input / 1_000_000) * pricing.input;
-    const outputCost = (tokens.output / 1_000_000) * pricing.output;
-
-    totalCost += inputCost + outputCost;
-  }
-
-  // If no model breakdown, use totals with default pricing
-  if (Object.keys(data.usage.tokens.by_model).length === 0) {
-    const defaultPricing = {
-      input: plan.pricing?.input_per_1m_tokens || 5,
-      output: plan.pricing?.output_per_1m_tokens || 20,
-    };
-    totalCost = (data.usage.tokens.input / 1_000_000) * defaultPricing.input
-      + (data.usage.tokens.output / 1_000_000) * defaultPricing.output;
-  }
+  // Priced from the shared catalog, like the CLI and exports, so unknown models get the same default rate
+  const totalCost = calculateReportCost(data);
 
   // Project to monthly
   return totalCost * monthlyMultiplier;
@@ -1,42 +1,167 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer,
   ReferenceLine, Cell
 } from 'recharts';
 import {
   TrendingDown, TrendingUp, CheckCircle, AlertTriangle,
-  Calendar, Zap, DollarSign, Info, ArrowRight, ChevronDown
+  Calendar, Zap, DollarSign, Info, ArrowRight, ChevronDown, Clock
 } from 'lucide-react';
-import { UsageReport } from '../types';
-import { analyzePlanFit, PlanFitResult } from '../services/analysisService';
-import { PLAN_LIMITS, PlanLimitKey } from '../constants';
+import { UsageReport, WindowUsage } from '../types';
+import { formatTokenNumber } from '../services/analysisService';
+import {
+  WINDOW_HOURS, WindowFitResult, MESSAGE_UNITS, MessageUnit, countInUnit, hasUnit,
+  DEFAULT_PLANS, PlanDefinition, DailyPlanUsage, analyzePlanFit, analyzeWindowPlanFit, monthlyPrice, plansForReport,
+} from '@llm-usage/core';
+
+type FitMode = 'daily' | 'windows';
+
+// Reference line colors for each plan's daily limit, cheapest first
+const LIMIT_COLORS = ['#f59e0b', '#ef4444', '#a855f7', '#3b82f6', '#14b8a6'];
 
 interface PlanFitAnalyzerProps {
   data: UsageReport;
-  currentPlan?: PlanLimitKey;
-  onPlanChange?: (plan: PlanLimitKey) => void;
+  plans?: PlanDefinition[]; // Built-in plans with the user's custom plans applied
+  currentPlan?: string;
+  onPlanChange?: (plan: string) => void;
 }
 
-const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, currentPlan, onPlanChange }) => {
+interface WindowFitViewProps {
+  fit: WindowFitResult<WindowUsage>;
+}
+
+// Per-window breakdown shown in the "5h Windows" mode
+const WindowFitView: React.FC<WindowFitViewProps> = ({ fit }) => {
+  const formatWindow = (iso: string): string =>
+    new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const unitLabel = MESSAGE_UNITS[fit.unit].label.toLowerCase();
+  const size = (w: WindowUsage) => countInUnit(w, fit.unit);
+  const maxCount = (fit.peak && size(fit.peak)) || 1;
+
+  return (
+    <>
+      {/* Recommendation Card */}
+      <div
+        className={`p-6 rounded-2xl border ${
+          fit.recommendedPlan ? 'bg-blue-500/10 border-blue-500/30' : 'bg-amber-500/10 border-amber-500/30'
+        }`}
+      >
+        <div className="flex items-start gap-4">
+          <div className={`p-3 rounded-xl bg-slate-900/50 ${fit.recommendedPlan ? 'text-blue-400' : 'text-amber-400'}`}>
+            {fit.recommendedPlan ? <CheckCircle className="w-8 h-8" /> : <AlertTriangle className="w-8 h-8" />}
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-bold text-white mb-1">
+              {fit.recommendedPlan ? `${fit.recommendedPlan} covers every window` : 'Some windows exceed every plan'}
+            </h3>
+            <p className="text-slate-300">
+              Your busiest {WINDOW_HOURS}-hour window had {fit.peak ? size(fit.peak) : 0} {unitLabel} across{' '}
+              {fit.totalWindows} active windows (avg {fit.avgMessages}).
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Windows over each plan */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {fit.plans.map((plan) => (
+          <div key={plan.plan} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+            <div className="text-slate-400 text-sm mb-1">
+              Windows over {plan.plan.replace('Claude ', '')} ({plan.limit})
+            </div>
+            <div className={`text-2xl font-bold ${plan.windowsOver > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+              {plan.windowsOver}
+              <span className="text-slate-500 text-sm font-normal ml-1">/ {fit.totalWindows}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Worst windows */}
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-slate-400" />
+          Busiest Windows
+        </h3>
+        <div className="space-y-3">
+          {fit.worstWindows.map((w) => {
+            const limited = fit.plans.filter((p) => size(w) > p.limit).map((p) => p.plan.replace('Claude ', ''));
+            return (
+              <div key={w.start}>
+                <div className="flex justify-between items-baseline text-sm mb-1 gap-4">
+                  <span className="text-white font-medium">
+                    {formatWindow(w.start)} – {formatWindow(w.end)}
+                  </span>
+                  <span className="text-slate-400 text-xs shrink-0">
+                    {size(w)} {unitLabel} • {formatTokenNumber(w.input + w.output)} tokens
+                    {limited.length > 0 && (
+                      <span className="text-amber-400"> • limited on {limited.join(', ')}</span>
+                    )}
+                  </span>
+                </div>
+                <div className="w-full bg-slate-700 rounded-full h-1.5 overflow-hidden">
+                  <div
+                    className={`h-1.5 rounded-full ${limited.length > 0 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${(size(w) / maxCount) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Info Note */}
+      <div className="flex items-start gap-3 p-4 bg-slate-800/30 border border-slate-700/50 rounded-xl text-sm">
+        <Info className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" />
+        <div className="text-slate-400">
+          <strong className="text-slate-300">How this works:</strong> Claude usage limits reset on a rolling{' '}
+          <strong className="text-white">{WINDOW_HOURS}-hour window</strong> that starts with your first message.
+          Each window here is compared to approximate per-window message limits; weekly caps are not modelled.
+        </div>
+      </div>
+    </>
+  );
+};
+
+const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, plans = DEFAULT_PLANS, currentPlan, onPlanChange }) => {
   // Use currentPlan from props (controlled by parent)
   const selectedPlan = currentPlan || 'Claude Max 20x';
-  const analysis = useMemo(() => analyzePlanFit(data, selectedPlan), [data, selectedPlan]);
+  const [mode, setMode] = useState<FitMode>('daily');
+  const [unit, setUnit] = useState<MessageUnit>('messages');
+
+  // Plans for the report's providers; reports from other tools are compared with every plan
+  const candidates = useMemo(() => {
+    const matching = plansForReport(data, plans);
+    return matching.length > 0 ? matching : plans;
+  }, [data, plans]);
+  const analysis = useMemo(() => analyzePlanFit(data, selectedPlan, unit, candidates), [data, selectedPlan, unit, candidates]);
+  const windowFit = useMemo(() => analyzeWindowPlanFit(data, unit, 5, candidates), [data, unit, candidates]);
+  const dailyLimits = analysis.plans.filter((plan) => plan.dailyLimit !== undefined);
+  const unitLabel = MESSAGE_UNITS[unit].label.toLowerCase();
 
-  const handlePlanChange = (plan: PlanLimitKey) => {
+  // Units this report was recorded with (older reports only have messages)
+  const availableUnits = useMemo(
+    () => (Object.keys(MESSAGE_UNITS) as MessageUnit[]).filter((u) => hasUnit(data.usage.messages.by_day, u)),
+    [data]
+  );
+
+  const handlePlanChange = (plan: string) => {
     if (onPlanChange) {
       onPlanChange(plan);
     }
   };
 
-  // Get bar color based on message count
-  const getBarColor = (count: number): string => {
-    if (count > PLAN_LIMITS['Claude Max 5x'].messagesPerDay) {
-      return '#ef4444'; // red - over Max 5x
+  // Get bar color based on the limits the day exceeds
+  const getBarColor = (day: DailyPlanUsage): string => {
+    if (day.plansOver.includes(analysis.currentPlan)) {
+      return '#ef4444'; // red - over your plan
     }
-    if (count > PLAN_LIMITS['Claude Pro'].messagesPerDay) {
-      return '#f59e0b'; // amber - over Pro but under Max 5x
+    if (day.plansOver.length > 0) {
+      return '#f59e0b'; // amber - over a plan, but not yours
     }
-    return '#10b981'; // emerald - under Pro
+    return '#10b981'; // emerald - under every limit
   };
 
   // Format date for display
@@ -52,7 +177,7 @@ const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, currentPlan, on
       date: formatDate(day.date),
       fullDate: day.date,
       messages: day.count,
-      color: getBarColor(day.count),
+      color: getBarColor(day),
     }));
     return data;
   }, [analysis]);
@@ -67,7 +192,7 @@ const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, currentPlan, on
         title: 'You can save money!',
       };
     }
-    if (analysis.recommendation === 'max20x' && analysis.currentPlan !== 'Claude Max 20x') {
+    if (analysis.recommendedPrice > analysis.currentPrice) {
       return {
         bgClass: 'bg-amber-500/10 border-amber-500/30',
         iconClass: 'text-amber-400',
@@ -102,22 +227,54 @@ const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, currentPlan, on
             Plan Fit Analysis
           </h2>
           <p className="text-slate-400 mt-1">
-            Based on your daily message usage vs plan limits
+            {mode === 'daily'
+              ? `Based on your daily ${unitLabel} vs plan limits`
+              : `Based on your ${unitLabel} per ${WINDOW_HOURS}-hour rate-limit window`}
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {/* Mode Toggle */}
+          <div className="flex bg-slate-800 border border-slate-600 rounded-lg p-1">
+            {(['daily', 'windows'] as FitMode[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  mode === m ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {m === 'daily' ? 'Daily' : `${WINDOW_HOURS}h Windows`}
+              </button>
+            ))}
+          </div>
+          {/* Unit Selector */}
+          {availableUnits.length > 1 && (
+            <div className="relative">
+              <select
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as MessageUnit)}
+                title={MESSAGE_UNITS[unit].description}
+                className="appearance-none bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 pr-10 text-white font-medium text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 cursor-pointer hover:bg-slate-700 transition-colors"
+              >
+                {availableUnits.map((u) => (
+                  <option key={u} value={u}>{MESSAGE_UNITS[u].label}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+            </div>
+          )}
           {/* Plan Selector */}
           <div className="flex items-center gap-2">
             <span className="text-sm text-slate-400">Your plan:</span>
             <div className="relative">
               <select
-                value={selectedPlan}
-                onChange={(e) => handlePlanChange(e.target.value as PlanLimitKey)}
+                value={analysis.currentPlan}
+                onChange={(e) => handlePlanChange(e.target.value)}
                 className="appearance-none bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 pr-10 text-white font-medium text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 cursor-pointer hover:bg-slate-700 transition-colors"
               >
-                <option value="Claude Pro">Claude Pro ($20/mo)</option>
-                <option value="Claude Max 5x">Claude Max 5x ($100/mo)</option>
-                <option value="Claude Max 20x">Claude Max 20x ($200/mo)</option>
+                {candidates.map((plan) => (
+                  <option key={plan.name} value={plan.name}>{plan.name} (${+monthlyPrice(plan).toFixed(2)}/mo)</option>
+                ))}
               </select>
               <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
             </div>
@@ -128,183 +285,189 @@ const PlanFitAnalyzer: React.FC<PlanFitAnalyzerProps> = ({ data, currentPlan, on
         </div>
       </div>
 
-      {/* Recommendation Card */}
-      <div className={`p-6 rounded-2xl border ${recStyle.bgClass}`}>
-        <div className="flex items-start gap-4">
-          <div className={`p-3 rounded-xl bg-slate-900/50 ${recStyle.iconClass}`}>
-            <RecIcon className="w-8 h-8" />
+      {mode === 'windows' ? (
+        windowFit ? (
+          <WindowFitView fit={windowFit} />
+        ) : (
+          <div className="flex items-start gap-3 p-4 bg-slate-800/30 border border-slate-700/50 rounded-xl text-sm">
+            <Info className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" />
+            <div className="text-slate-400">
+              This report has no {WINDOW_HOURS}-hour window data. Re-run{' '}
+              <code className="text-slate-300">llm-usage scan</code> to include it.
+            </div>
           </div>
-          <div className="flex-1">
-            <h3 className="text-xl font-bold text-white mb-1">{recStyle.title}</h3>
-            <p className="text-slate-300">{analysis.recommendationReason}</p>
-
-            {analysis.savings > 0 && (
-              <div className="mt-4 flex items-center gap-6">
-                <div className="flex items-center gap-2">
-                  <span className="text-slate-400">Current:</span>
-                  <span className="text-white font-semibold">{analysis.currentPlan}</span>
-                  <span className="text-slate-500">${analysis.currentPrice}/mo</span>
-                </div>
-                <ArrowRight className="w-5 h-5 text-slate-600" />
-                <div className="flex items-center gap-2">
-                  <span className="text-slate-400">Recommended:</span>
-                  <span className="text-emerald-400 font-semibold">
-                    Claude {analysis.recommendation === 'pro' ? 'Pro' : analysis.recommendation === 'max5x' ? 'Max 5x' : 'Max 20x'}
-                  </span>
-                  <span className="text-slate-500">${analysis.recommendedPrice}/mo</span>
-                </div>
+        )
+      ) : (
+        <>
+          {/* Recommendation Card */}
+          <div className={`p-6 rounded-2xl border ${recStyle.bgClass}`}>
+            <div className="flex items-start gap-4">
+              <div className={`p-3 rounded-xl bg-slate-900/50 ${recStyle.iconClass}`}>
+                <RecIcon className="w-8 h-8" />
               </div>
-            )}
-
-            {analysis.savings > 0 && (
-              <div className="mt-4 p-4 bg-emerald-500/10 rounded-xl inline-flex items-center gap-3">
-                <DollarSign className="w-6 h-6 text-emerald-400" />
-                <div>
-                  <div className="text-emerald-400 font-bold text-2xl">
-                    Save ${analysis.savings}/month
+              <div className="flex-1">
+                <h3 className="text-xl font-bold text-white mb-1">{recStyle.title}</h3>
+                <p className="text-slate-300">{analysis.recommendationReason}</p>
+
+                {analysis.savings > 0 && (
+                  <div className="mt-4 flex items-center gap-6">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-400">Current:</span>
+                      <span className="text-white font-semibold">{analysis.currentPlan}</span>
+                      <span className="text-slate-500">${analysis.currentPrice}/mo</span>
+                    </div>
+                    <ArrowRight className="w-5 h-5 text-slate-600" />
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-400">Recommended:</span>
+                      <span className="text-emerald-400 font-semibold">{analysis.recommendation}</span>
+                      <span className="text-slate-500">${analysis.recommendedPrice}/mo</span>
+                    </div>
                   </div>
-                  <div className="text-emerald-400/70 text-sm">
-                    That's ${analysis.savings * 12}/year
+                )}
+
+                {analysis.savings > 0 && (
+                  <div className="mt-4 p-4 bg-emerald-500/10 rounded-xl inline-flex items-center gap-3">
+                    <DollarSign className="w-6 h-6 text-emerald-400" />
+                    <div>
+                      <div className="text-emerald-400 font-bold text-2xl">
+                        Save ${analysis.savings}/month
+                      </div>
+                      <div className="text-emerald-400/70 text-sm">
+                        That's ${analysis.savings * 12}/year
+                      </div>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
-            )}
+            </div>
           </div>
-        </div>
-      </div>
 
-      {/* Usage Summary Stats */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
-          <div className="text-slate-400 text-sm mb-1 flex items-center gap-1.5">
-            <TrendingUp className="w-4 h-4" />
-            Peak Day
-          </div>
-          <div className="text-2xl font-bold text-white">{analysis.peakMessages}</div>
-          <div className="text-xs text-slate-500">{formatDate(analysis.peakDate)}</div>
-        </div>
+          {/* Usage Summary Stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+              <div className="text-slate-400 text-sm mb-1 flex items-center gap-1.5">
+                <TrendingUp className="w-4 h-4" />
+                Peak Day
+              </div>
+              <div className="text-2xl font-bold text-white">{analysis.peakMessages}</div>
+              <div className="text-xs text-slate-500">{formatDate(analysis.peakDate)}</div>
+            </div>
 
-        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
-          <div className="text-slate-400 text-sm mb-1 flex items-center gap-1.5">
-            <Calendar className="w-4 h-4" />
-            Daily Average
-          </div>
-          <div className="text-2xl font-bold text-white">{analysis.avgMessages}</div>
-          <div className="text-xs text-slate-500">messages/day</div>
-        </div>
+            <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+              <div className="text-slate-400 text-sm mb-1 flex items-center gap-1.5">
+                <Calendar className="w-4 h-4" />
+                Daily Average
+              </div>
+              <div className="text-2xl font-bold text-white">{analysis.avgMessages}</div>
+              <div className="text-xs text-slate-500">{unitLabel}/day</div>
+            </div>
 
-        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
-          <div className="text-slate-400 text-sm mb-1">Days over Pro (100)</div>
-          <div className="text-2xl font-bold text-amber-400">
-            {analysis.daysOverPro}
-            <span className="text-slate-500 text-sm font-normal ml-1">/ {analysis.totalDays}</span>
+            {/* The two tightest daily limits */}
+            {dailyLimits.slice(0, 2).map((plan, index) => (
+              <div key={plan.name} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+                <div className="text-slate-400 text-sm mb-1">
+                  Days over {plan.name.replace('Claude ', '')} ({plan.dailyLimit})
+                </div>
+                <div className={`text-2xl font-bold ${index === 0 ? 'text-amber-400' : 'text-red-400'}`}>
+                  {plan.daysOver}
+                  <span className="text-slate-500 text-sm font-normal ml-1">/ {analysis.totalDays}</span>
+                </div>
+              </div>
+            ))}
           </div>
-        </div>
 
-        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
-          <div className="text-slate-400 text-sm mb-1">Days over Max 5x (500)</div>
-          <div className="text-2xl font-bold text-red-400">
-            {analysis.daysOverMax5x}
-            <span className="text-slate-500 text-sm font-normal ml-1">/ {analysis.totalDays}</span>
-          </div>
-        </div>
-      </div>
+          {/* Daily Usage Chart */}
+          <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-slate-400" />
+              Daily {MESSAGE_UNITS[unit].label}
+            </h3>
 
-      {/* Daily Usage Chart */}
-      <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6">
-        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-          <Calendar className="w-5 h-5 text-slate-400" />
-          Daily Message Usage
-        </h3>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 20, right: 20, left: 0, bottom: 5 }}>
+                  <XAxis
+                    dataKey="date"
+                    tick={{ fill: '#94a3b8', fontSize: 11 }}
+                    axisLine={{ stroke: '#334155' }}
+                    tickLine={{ stroke: '#334155' }}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis
+                    tick={{ fill: '#94a3b8', fontSize: 11 }}
+                    axisLine={{ stroke: '#334155' }}
+                    tickLine={{ stroke: '#334155' }}
+                    domain={[0, 'auto']}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1e293b',
+                      border: '1px solid #334155',
+                      borderRadius: '8px',
+                      padding: '8px 12px',
+                    }}
+                    labelStyle={{ color: '#f8fafc', fontWeight: 'bold' }}
+                    formatter={(value: number) => [`${value} ${unitLabel}`, MESSAGE_UNITS[unit].label]}
+                    labelFormatter={(label) => `Date: ${label}`}
+                  />
 
-        <div className="h-[300px]">
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} margin={{ top: 20, right: 20, left: 0, bottom: 5 }}>
-              <XAxis
-                dataKey="date"
-                tick={{ fill: '#94a3b8', fontSize: 11 }}
-                axisLine={{ stroke: '#334155' }}
-                tickLine={{ stroke: '#334155' }}
-                interval="preserveStartEnd"
-              />
-              <YAxis
-                tick={{ fill: '#94a3b8', fontSize: 11 }}
-                axisLine={{ stroke: '#334155' }}
-                tickLine={{ stroke: '#334155' }}
-                domain={[0, 'auto']}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: '#1e293b',
-                  border: '1px solid #334155',
-                  borderRadius: '8px',
-                  padding: '8px 12px',
-                }}
-                labelStyle={{ color: '#f8fafc', fontWeight: 'bold' }}
-                formatter={(value: number) => [`${value} messages`, 'Messages']}
-                labelFormatter={(label) => `Date: ${label}`}
-              />
-
-              {/* Plan limit reference lines */}
-              <ReferenceLine
-                y={PLAN_LIMITS['Claude Pro'].messagesPerDay}
-                stroke="#f59e0b"
-                strokeDasharray="4 4"
-                label={{
-                  value: 'Pro (100)',
-                  position: 'right',
-                  fill: '#f59e0b',
-                  fontSize: 10,
-                }}
-              />
-              <ReferenceLine
-                y={PLAN_LIMITS['Claude Max 5x'].messagesPerDay}
-                stroke="#ef4444"
-                strokeDasharray="4 4"
-                label={{
-                  value: 'Max 5x (500)',
-                  position: 'right',
-                  fill: '#ef4444',
-                  fontSize: 10,
-                }}
-              />
-
-              <Bar dataKey="messages" radius={[4, 4, 0, 0]}>
-                {chartData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.color} />
-                ))}
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
-        </div>
+                  {/* Plan limit reference lines */}
+                  {dailyLimits.map((plan, index) => (
+                    <ReferenceLine
+                      key={plan.name}
+                      y={plan.dailyLimit}
+                      stroke={LIMIT_COLORS[index % LIMIT_COLORS.length]}
+                      strokeDasharray="4 4"
+                      label={{
+                        value: `${plan.name.replace('Claude ', '')} (${plan.dailyLimit})`,
+                        position: 'right',
+                        fill: LIMIT_COLORS[index % LIMIT_COLORS.length],
+                        fontSize: 10,
+                      }}
+                    />
+                  ))}
 
-        {/* Legend */}
-        <div className="flex items-center justify-center gap-6 mt-4 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-emerald-500"></div>
-            <span className="text-slate-400">Under Pro limit</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-amber-500"></div>
-            <span className="text-slate-400">Over Pro, under Max 5x</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded bg-red-500"></div>
-            <span className="text-slate-400">Over Max 5x limit</span>
+                  <Bar dataKey="messages" radius={[4, 4, 0, 0]}>
+                    {chartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Legend */}
+            <div className="flex items-center justify-center gap-6 mt-4 text-xs">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded bg-emerald-500"></div>
+                <span className="text-slate-400">Under every limit</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded bg-amber-500"></div>
+                <span className="text-slate-400">Over a cheaper plan's limit</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded bg-red-500"></div>
+                <span className="text-slate-400">Over {analysis.currentPlan}'s limit</span>
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      {/* Info Note */}
-      <div className="flex items-start gap-3 p-4 bg-slate-800/30 border border-slate-700/50 rounded-xl text-sm">
-        <Info className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" />
-        <div className="text-slate-400">
-          <strong className="text-slate-300">How this works:</strong> Claude subscription plans limit usage by{' '}
-          <strong className="text-white">messages per day</strong>, not by tokens. Pro allows ~100 messages/day,
-          Max 5x allows ~500/day, and Max 20x allows ~2000/day. This analysis checks your actual daily message
-          counts against these limits.
-        </div>
-      </div>
+          {/* Info Note */}
+          <div className="flex items-start gap-3 p-4 bg-slate-800/30 border border-slate-700/50 rounded-xl text-sm">
+            <Info className="w-5 h-5 text-slate-400 shrink-0 mt-0.5" />
+            <div className="text-slate-400">
+              <strong className="text-slate-300">How this works:</strong> Subscription plans limit usage by{' '}
+              <strong className="text-white">messages</strong>, not by tokens. This analysis checks your actual daily
+              counts against {dailyLimits.length > 0
+                ? dailyLimits.map((plan) => `~${plan.dailyLimit}/day on ${plan.name}`).join(', ')
+                : 'each plan\'s limits'}
+              {analysis.plans.some((plan) => plan.weeklyLimit !== undefined) && ', and calendar weeks against weekly caps'}.
+              The limits are approximate; adjust them or add your own plans under Plans.
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Pencil, Trash2, RotateCcw, Save, AlertTriangle, Info } from 'lucide-react';
+import {
+  BillingCycle, CustomPlan, DEFAULT_PLANS, PlanDefinition,
+  isCustomPlan, monthlyPrice, resolvePlans, validatePlans,
+} from '@llm-usage/core';
+import { UsageReport } from '../types';
+
+interface PlanSettingsProps {
+  customPlans: CustomPlan[];
+  onChange: (plans: CustomPlan[]) => void;
+  onClose?: () => void;
+}
+
+// Form fields are kept as typed; blank numbers mean "not set"
+interface PlanForm {
+  name: string;
+  provider: UsageReport['provider'];
+  price: string;
+  billing: BillingCycle;
+  daily: string;
+  window: string;
+  weekly: string;
+  models: string;
+}
+
+const EMPTY_FORM: PlanForm = {
+  name: '',
+  provider: 'anthropic',
+  price: '',
+  billing: 'monthly',
+  daily: '',
+  window: '',
+  weekly: '',
+  models: '',
+};
+
+const PROVIDERS: UsageReport['provider'][] = ['anthropic', 'openai', 'google', 'xai', 'other'];
+
+const inputClass =
+  'w-full bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm placeholder:text-slate-600 focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500/50 outline-none disabled:opacity-50';
+
+function toForm(plan: PlanDefinition): PlanForm {
+  const text = (n?: number) => (n === undefined ? '' : String(n));
+  return {
+    name: plan.name,
+    provider: plan.provider || 'anthropic',
+    price: text(plan.price_usd),
+    billing: plan.billing || 'monthly',
+    daily: text(plan.limits.daily),
+    window: text(plan.limits.window),
+    weekly: text(plan.limits.weekly),
+    models: (plan.models || []).join(', '),
+  };
+}
+
+function fromForm(form: PlanForm): CustomPlan {
+  const num = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const limits = { daily: num(form.daily), window: num(form.window), weekly: num(form.weekly) };
+  const models = form.models.split(',').map((m) => m.trim()).filter(Boolean);
+
+  // Drop unset fields so an override only changes what was filled in
+  const plan: CustomPlan = { name: form.name.trim(), provider: form.provider, billing: form.billing };
+  if (num(form.price) !== undefined) plan.price_usd = num(form.price);
+  plan.limits = Object.fromEntries(Object.entries(limits).filter(([, v]) => v !== undefined));
+  if (models.length > 0) plan.models = models;
+  return plan;
+}
+
+function formatLimit(limit?: number): string {
+  return limit === undefined ? '—' : limit.toLocaleString();
+}
+
+const PlanSettings: React.FC<PlanSettingsProps> = ({ customPlans, onChange, onClose }) => {
+  const plans = useMemo(() => resolvePlans(customPlans), [customPlans]);
+  // Name of the plan being edited, '' for a new one, null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const isBuiltIn = (name: string) => DEFAULT_PLANS.some((p) => p.name.toLowerCase() === name.toLowerCase());
+  const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  const openForm = (plan?: PlanDefinition) => {
+    setEditing(plan ? plan.name : '');
+    setForm(plan ? toForm(plan) : EMPTY_FORM);
+    setErrors([]);
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    const plan = fromForm(form);
+    const next = editing
+      ? [...customPlans.filter((p) => !sameName(p.name, editing)), plan]
+      : [...customPlans, plan];
+
+    const problems = validatePlans(next);
+    if (problems.length > 0) {
+      // Paths look like [2].limits.daily; the index is the plan being saved
+      setErrors(problems.map((e) => `${e.path.replace(/^\[\d+\]\.?/, '') || 'plan'} ${e.message}`));
+      return;
+    }
+    onChange(next);
+    closeForm();
+  };
+
+  // Removes a custom plan, or resets a built-in one to its defaults
+  const handleRemove = (name: string) => {
+    onChange(customPlans.filter((p) => !sameName(p.name, name)));
+    if (editing && sameName(editing, name)) closeForm();
+  };
+
+  const field = (key: keyof PlanForm, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="block">
+      <span className="text-xs text-slate-400 mb-1 block">{label}</span>
+      <input
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        className={inputClass}
+        {...props}
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-slate-800/40 rounded-2xl border border-white/5 overflow-hidden">
+      {/* Header */}
+      <div className="p-6 border-b border-white/5 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white">Plans</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Limits that Plan Fit compares your usage against. Override the built-in plans or add your own.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {editing === null && (
+            <button
+              onClick={() => openForm()}
+              className="text-sm flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-500/10 text-indigo-400 hover:bg-indigo-500/20 border border-indigo-500/30 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Add Plan
+            </button>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full hover:bg-white/5 text-slate-400 hover:text-white transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Plan List */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-500 text-xs uppercase tracking-wider text-left">
+              <th className="px-6 py-3 font-medium">Plan</th>
+              <th className="px-3 py-3 font-medium">Price</th>
+              <th className="px-3 py-3 font-medium text-right">Daily</th>
+              <th className="px-3 py-3 font-medium text-right">5h Window</th>
+              <th className="px-3 py-3 font-medium text-right">Weekly</th>
+              <th className="px-3 py-3 font-medium">Models</th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {plans.map((plan) => {
+              const custom = isCustomPlan(plan, customPlans);
+              const builtIn = isBuiltIn(plan.name);
+              return (
+                <tr key={plan.name} className="text-slate-300">
+                  <td className="px-6 py-3">
+                    <span className="text-white font-medium">{plan.name}</span>
+                    {custom && (
+                      <span className="ml-2 text-[10px] font-medium text-indigo-300 bg-indigo-500/10 border border-indigo-500/30 px-1.5 py-0.5 rounded">
+                        {builtIn ? 'EDITED' : 'CUSTOM'}
+                      </span>
+                    )}
+                    <div className="text-xs text-slate-500">{plan.provider || 'anthropic'}</div>
+                  </td>
+                  <td className="px-3 py-3">
+                    ${plan.price_usd}/{plan.billing === 'annual' ? 'yr' : 'mo'}
+                    {plan.billing === 'annual' && (
+                      <div className="text-xs text-slate-500">≈${monthlyPrice(plan).toFixed(2)}/mo</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 text-right">{formatLimit(plan.limits.daily)}</td>
+                  <td className="px-3 py-3 text-right">{formatLimit(plan.limits.window)}</td>
+                  <td className="px-3 py-3 text-right">{formatLimit(plan.limits.weekly)}</td>
+                  <td className="px-3 py-3 text-slate-400">{plan.models?.join(', ') || 'All'}</td>
+                  <td className="px-6 py-3">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => openForm(plan)}
+                        title="Edit"
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {custom && (
+                        <button
+                          onClick={() => handleRemove(plan.name)}
+                          title={builtIn ? 'Reset to defaults' : 'Delete'}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                        >
+                          {builtIn ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add / Edit Form */}
+      {editing !== null && (
+        <div className="p-6 border-t border-white/5 space-y-4">
+          <h3 className="text-white font-semibold">{editing ? `Edit ${editing}` : 'New Plan'}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {field('name', 'Name', { placeholder: 'Team Standard', disabled: !!editing && isBuiltIn(editing) })}
+            <label className="block">
+              <span className="text-xs text-slate-400 mb-1 block">Provider</span>
+              <select
+                value={form.provider}
+                onChange={(e) => setForm({ ...form, provider: e.target.value as UsageReport['provider'] })}
+                className={inputClass}
+              >
+                {PROVIDERS.map((p) => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </label>
+            {field('price', 'Price (USD)', { type: 'number', min: 0, step: 'any', placeholder: '30' })}
+            <label className="block">
+              <span className="text-xs text-slate-400 mb-1 block">Billing</span>
+              <select
+                value={form.billing}
+                onChange={(e) => setForm({ ...form, billing: e.target.value as BillingCycle })}
+                className={inputClass}
+              >
+                <option value="monthly">Monthly</option>
+                <option value="annual">Annual</option>
+              </select>
+            </label>
+            {field('daily', 'Messages per day', { type: 'number', min: 1, placeholder: 'No limit' })}
+            {field('window', 'Messages per 5h window', { type: 'number', min: 1, placeholder: 'No limit' })}
+            {field('weekly', 'Messages per week', { type: 'number', min: 1, placeholder: 'No limit' })}
+            {field('models', 'Included models', { placeholder: 'sonnet, haiku (blank for all)' })}
+          </div>
+
+          {editing && isBuiltIn(editing) && (
+            <div className="flex items-start gap-2 text-xs text-slate-500">
+              <Info className="w-4 h-4 shrink-0" />
+              A blank limit keeps the built-in value. Reset the plan to undo all changes.
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              <ul>
+                {errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={closeForm}
+              className="text-sm px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="text-sm flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-500 text-white hover:bg-indigo-400 transition-colors font-medium"
+            >
+              <Save className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanSettings;
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { FolderGit2 } from 'lucide-react';
+import { UsageReport, ProjectUsage } from '../types';
+import { formatTokenNumber } from '../services/analysisService';
+
+interface ProjectBreakdownProps {
+  data: UsageReport;
+  maxRows?: number;
+}
+
+const ProjectBreakdown: React.FC<ProjectBreakdownProps> = ({ data, maxRows = 10 }) => {
+  const projects = useMemo(() => {
+    return Object.entries<ProjectUsage>(data.usage.by_project || {})
+      .map(([key, project]) => ({ key, ...project }))
+      .sort((a, b) => b.cost - a.cost);
+  }, [data]);
+
+  if (projects.length === 0) return null;
+
+  const totalCost = projects.reduce((sum, p) => sum + p.cost, 0);
+  const visible = projects.slice(0, maxRows);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <FolderGit2 className="w-5 h-5 text-slate-400" />
+          Usage by Project
+        </h3>
+        <span className="text-xs text-slate-500">
+          {projects.length} project{projects.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {visible.map((project) => {
+          const share = totalCost > 0 ? (project.cost / totalCost) * 100 : 0;
+          return (
+            <div key={project.key}>
+              <div className="flex justify-between items-baseline text-sm mb-1 gap-4">
+                <span className="text-white font-medium truncate" title={project.path || project.key}>
+                  {project.name}
+                </span>
+                <span className="text-slate-400 text-xs shrink-0">
+                  {project.sessions} sessions • {project.messages} msgs •{' '}
+                  {formatTokenNumber(project.tokens.input + project.tokens.output)} tokens •{' '}
+                  <span className="text-emerald-400 font-medium">${project.cost.toFixed(2)}</span>
+                </span>
+              </div>
+              <div className="w-full bg-slate-700 rounded-full h-1.5 overflow-hidden">
+                <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: `${share}%` }}></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {projects.length > maxRows && (
+        <p className="text-xs text-slate-500 mt-4">
+          ...and {projects.length - maxRows} more
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectBreakdown;
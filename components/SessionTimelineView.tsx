@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ComposedChart, Line, Area, XAxis, YAxis, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { GitCommitVertical, X, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { SessionTimeline } from '../types';
+import { formatTokenNumber } from '../services/analysisService';
+
+const LOCAL_SERVER_URL = 'http://localhost:3456';
+
+interface SessionTimelineViewProps {
+  sessionId: string;
+  liveServerConnected?: boolean;
+  onClose: () => void;
+}
+
+function formatElapsed(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return `${minutes}m ${String(Math.floor((ms % 60_000) / 1000)).padStart(2, '0')}s`;
+}
+
+function isTimeline(json: unknown): json is SessionTimeline {
+  return (
+    typeof json === 'object' && json !== null &&
+    'session_id' in json && typeof json.session_id === 'string' &&
+    'turns' in json && Array.isArray(json.turns)
+  );
+}
+
+const SessionTimelineView: React.FC<SessionTimelineViewProps> = ({ sessionId, liveServerConnected, onClose }) => {
+  const [timeline, setTimeline] = useState<SessionTimeline | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTimeline(null);
+    setError(null);
+    if (!liveServerConnected) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetch(`${LOCAL_SERVER_URL}/api/sessions/${encodeURIComponent(sessionId)}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `Server returned ${res.status}`);
+        if (!cancelled) setTimeline(json);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, liveServerConnected]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const json = JSON.parse(await file.text());
+      if (!isTimeline(json)) throw new Error('Not a session timeline');
+      setTimeline(json);
+      setError(null);
+    } catch {
+      setError(`Expected the output of: llm-usage sessions ${sessionId.slice(0, 8)} --json`);
+    }
+  };
+
+  const compactions = timeline?.turns.filter((t) => t.compaction).length || 0;
+  const switches = timeline?.turns.filter((t) => t.model_switch).length || 0;
+  const chartData = timeline?.turns.map((turn) => ({
+    turn: turn.index,
+    cost: Number(turn.cumulative_cost.toFixed(4)),
+    context: turn.context,
+  }));
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2 min-w-0">
+          <GitCommitVertical className="w-5 h-5 text-slate-400 shrink-0" />
+          <span className="truncate">
+            Session <span className="font-mono text-indigo-300">{sessionId.slice(0, 8)}</span>
+          </span>
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <Loader2 className="w-4 h-4 animate-spin" /> Reading transcript...
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-rose-400 mb-4">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      {!timeline && !loading && (
+        <div className="text-sm text-slate-400">
+          <p className="mb-3">
+            {liveServerConnected
+              ? 'The live server could not load this session.'
+              : 'Per-turn details come from the transcripts. Run the command below and load its output:'}
+          </p>
+          <code className="block bg-slate-900/50 rounded-lg px-3 py-2 text-xs text-slate-300 font-mono mb-3">
+            npx llm-usage sessions {sessionId} --json &gt; session.json
+          </code>
+          <label className="inline-flex items-center gap-2 text-xs text-indigo-300 hover:text-white cursor-pointer transition-colors">
+            <Upload className="w-3.5 h-3.5" />
+            Load session.json
+            <input type="file" className="hidden" accept=".json" onChange={handleFile} />
+          </label>
+        </div>
+      )}
+
+      {timeline && chartData && (
+        <>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-400 mb-4">
+            <span>{timeline.source}</span>
+            {timeline.cwd && <span className="truncate max-w-[16rem]" title={timeline.cwd}>{timeline.cwd}</span>}
+            <span>{timeline.turns.length} turns • {timeline.prompts} prompts</span>
+            <span className="text-emerald-400">${timeline.total_cost.toFixed(2)}</span>
+            {compactions > 0 && <span className="text-fuchsia-400">⟲ {compactions} compaction{compactions !== 1 ? 's' : ''}</span>}
+            {switches > 0 && <span className="text-amber-400">⇄ {switches} model switch{switches !== 1 ? 'es' : ''}</span>}
+          </div>
+
+          <div className="h-[200px] mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 0, left: 0, bottom: 5 }}>
+                <XAxis
+                  dataKey="turn"
+                  tick={{ fill: '#94a3b8', fontSize: 11 }}
+                  axisLine={{ stroke: '#334155' }}
+                  tickLine={{ stroke: '#334155' }}
+                />
+                <YAxis
+                  yAxisId="context"
+                  tick={{ fill: '#94a3b8', fontSize: 11 }}
+                  axisLine={{ stroke: '#334155' }}
+                  tickLine={{ stroke: '#334155' }}
+                  tickFormatter={(value: number) => formatTokenNumber(value)}
+                />
+                <YAxis
+                  yAxisId="cost"
+                  orientation="right"
+                  tick={{ fill: '#94a3b8', fontSize: 11 }}
+                  axisLine={{ stroke: '#334155' }}
+                  tickLine={{ stroke: '#334155' }}
+                  tickFormatter={(value: number) => `$${value}`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#1e293b',
+                    border: '1px solid #334155',
+                    borderRadius: '8px',
+                    padding: '8px 12px',
+                  }}
+                  labelStyle={{ color: '#f8fafc', fontWeight: 'bold' }}
+                  formatter={(value: number, name: string) =>
+                    name === 'cost' ? [`$${value.toFixed(2)}`, 'Cumulative cost'] : [formatTokenNumber(value), 'Context']
+                  }
+                  labelFormatter={(label) => `Turn ${label}`}
+                />
+                <Area yAxisId="context" dataKey="context" stroke="#6366f1" fill="#6366f1" fillOpacity={0.15} />
+                <Line yAxisId="cost" dataKey="cost" stroke="#10b981" dot={false} strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto max-h-[24rem] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-slate-800">
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-700/50">
+                  <th className="py-2 pr-2 font-medium">#</th>
+                  <th className="py-2 px-2 font-medium">Model</th>
+                  <th className="py-2 px-2 font-medium text-right">Input</th>
+                  <th className="py-2 px-2 font-medium text-right">Output</th>
+                  <th className="py-2 px-2 font-medium text-right">Cache read</th>
+                  <th className="py-2 px-2 font-medium text-right">Cache write</th>
+                  <th className="py-2 px-2 font-medium text-right">Total cost</th>
+                  <th className="py-2 pl-2 font-medium text-right">Elapsed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timeline.turns.map((turn) => (
+                  <tr
+                    key={turn.index}
+                    className={`border-b border-slate-800 last:border-0 ${
+                      turn.compaction ? 'bg-fuchsia-500/10' : turn.model_switch ? 'bg-amber-500/10' : ''
+                    } ${turn.sidechain ? 'text-slate-500' : 'text-slate-300'}`}
+                  >
+                    <td className="py-1.5 pr-2 whitespace-nowrap">
+                      {turn.index}
+                      {turn.compaction && <span className="text-fuchsia-400 ml-1" title="Context compacted">⟲</span>}
+                      {turn.model_switch && <span className="text-amber-400 ml-1" title="Model switch">⇄</span>}
+                      {turn.sidechain && <span className="ml-1" title="Subagent">↳</span>}
+                    </td>
+                    <td className={`py-1.5 px-2 truncate max-w-[10rem] ${turn.model_switch ? 'text-amber-300' : ''}`} title={turn.model}>
+                      {turn.model}
+                    </td>
+                    <td className="py-1.5 px-2 text-right">
+                      {turn.estimated?.includes('input') ? '≈' : ''}
+                      {formatTokenNumber(turn.input)}
+                    </td>
+                    <td className="py-1.5 px-2 text-right">
+                      {turn.estimated?.includes('output') ? '≈' : ''}
+                      {formatTokenNumber(turn.output)}
+                    </td>
+                    <td className="py-1.5 px-2 text-right">{formatTokenNumber(turn.cache_read)}</td>
+                    <td className="py-1.5 px-2 text-right">{formatTokenNumber(turn.cache_write)}</td>
+                    <td className="py-1.5 px-2 text-right text-emerald-400">${turn.cumulative_cost.toFixed(2)}</td>
+                    <td className="py-1.5 pl-2 text-right text-slate-400 whitespace-nowrap">{formatElapsed(turn.elapsed_ms)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionTimelineView;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { MessagesSquare, ArrowDown, ArrowUp } from 'lucide-react';
+import { UsageReport, SessionUsage } from '../types';
+import { formatTokenNumber } from '../services/analysisService';
+
+interface SessionsTableProps {
+  data: UsageReport;
+  maxRows?: number;
+  selectedId?: string | null;
+  onSelect?: (sessionId: string) => void;
+}
+
+type SessionRow = SessionUsage & { id: string; projectName: string };
+type SortKey = 'first_timestamp' | 'duration_ms' | 'active_ms' | 'turns' | 'cost' | 'cache_hit_ratio' | 'peak_context';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'first_timestamp', label: 'Started' },
+  { key: 'duration_ms', label: 'Duration' },
+  { key: 'active_ms', label: 'Active' },
+  { key: 'turns', label: 'Turns' },
+  { key: 'cost', label: 'Cost' },
+  { key: 'cache_hit_ratio', label: 'Cache hit' },
+  { key: 'peak_context', label: 'Peak context' },
+];
+
+function formatDuration(ms?: number): string {
+  const minutes = Math.floor((ms || 0) / 60_000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  if (minutes >= 1) return `${minutes}m`;
+  return `${Math.round((ms || 0) / 1000)}s`;
+}
+
+function sortValue(row: SessionRow, key: SortKey): number | string {
+  if (key === 'first_timestamp') return row.first_timestamp;
+  if (key === 'turns') return row.turns ?? row.messages;
+  return row[key] || 0;
+}
+
+const SessionsTable: React.FC<SessionsTableProps> = ({ data, maxRows = 20, selectedId, onSelect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('cost');
+  const [ascending, setAscending] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const sessions = useMemo(() => {
+    const rows: SessionRow[] = Object.entries<SessionUsage>(data.usage.by_session || {}).map(([id, session]) => ({
+      id,
+      ...session,
+      projectName: data.usage.by_project?.[session.project]?.name || session.project,
+    }));
+    return rows.sort((a, b) => {
+      const av = sortValue(a, sortKey);
+      const bv = sortValue(b, sortKey);
+      const order = typeof av === 'string' ? av.localeCompare(bv as string) : av - (bv as number);
+      return ascending ? order : -order;
+    });
+  }, [data, sortKey, ascending]);
+
+  if (sessions.length === 0) return null;
+
+  const visible = showAll ? sessions : sessions.slice(0, maxRows);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5 text-slate-400" />
+          Sessions
+        </h3>
+        <span className="text-xs text-slate-500">
+          {sessions.length} session{sessions.length !== 1 ? 's' : ''}
+          {data.usage.sessions.idle_minutes !== undefined && ` • active time counts gaps up to ${data.usage.sessions.idle_minutes} min`}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 border-b border-slate-700/50">
+              <th className="py-2 pr-4 font-medium">Project</th>
+              {COLUMNS.map((column) => (
+                <th key={column.key} className="py-2 px-2 font-medium text-right whitespace-nowrap">
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className={`inline-flex items-center gap-1 hover:text-white transition-colors ${
+                      sortKey === column.key ? 'text-indigo-300' : ''
+                    }`}
+                  >
+                    {column.label}
+                    {sortKey === column.key && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((session) => (
+              <tr
+                key={session.id}
+                onClick={onSelect ? () => onSelect(session.id) : undefined}
+                className={`border-b border-slate-800 last:border-0 text-slate-300 ${
+                  onSelect ? 'cursor-pointer hover:bg-slate-700/30' : ''
+                } ${selectedId === session.id ? 'bg-indigo-500/10' : ''}`}
+              >
+                <td className="py-2 pr-4 max-w-[10rem] truncate" title={`${session.projectName} • ${session.id}`}>
+                  <span className="text-white">{session.projectName}</span>
+                  <span className="block text-[10px] text-slate-500 font-mono">{session.id.slice(0, 8)}</span>
+                </td>
+                <td className="py-2 px-2 text-right whitespace-nowrap text-slate-400">
+                  {session.first_timestamp
+                    ? new Date(session.first_timestamp).toLocaleString(undefined, {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                    : '-'}
+                </td>
+                <td className="py-2 px-2 text-right">{formatDuration(session.duration_ms)}</td>
+                <td className="py-2 px-2 text-right">{formatDuration(session.active_ms)}</td>
+                <td className="py-2 px-2 text-right">{session.turns ?? session.messages}</td>
+                <td className="py-2 px-2 text-right text-emerald-400 font-medium">${session.cost.toFixed(2)}</td>
+                <td className="py-2 px-2 text-right">
+                  {session.cache_hit_ratio !== undefined ? `${(session.cache_hit_ratio * 100).toFixed(0)}%` : '-'}
+                </td>
+                <td className="py-2 px-2 text-right">{formatTokenNumber(session.peak_context || 0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sessions.length > maxRows && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-indigo-300 hover:text-white mt-4 transition-colors"
+        >
+          {showAll ? 'Show fewer' : `Show all ${sessions.length} sessions`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionsTable;
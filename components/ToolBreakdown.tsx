@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { Wrench } from 'lucide-react';
+import { UsageReport, ToolUsage } from '../types';
+import { formatTokenNumber } from '../services/analysisService';
+
+interface ToolBreakdownProps {
+  data: UsageReport;
+  maxRows?: number;
+}
+
+const ToolBreakdown: React.FC<ToolBreakdownProps> = ({ data, maxRows = 10 }) => {
+  const tools = useMemo(() => {
+    return Object.entries<ToolUsage>(data.usage.tools?.by_tool || {})
+      .map(([name, tool]) => ({ name, ...tool }))
+      .sort((a, b) => b.calls - a.calls);
+  }, [data]);
+
+  if (tools.length === 0) return null;
+
+  const maxCalls = tools[0].calls;
+  const totalCalls = tools.reduce((sum, t) => sum + t.calls, 0);
+  const totalErrors = tools.reduce((sum, t) => sum + t.errors, 0);
+  const largeTokens = tools.reduce((sum, t) => sum + t.large_output_tokens, 0);
+  // Tool results reach the model as new (uncached) input
+  const newInput = data.usage.tokens.input + (data.usage.tokens.cache_write || 0);
+  const largeShare = newInput > 0 ? Math.min(100, (largeTokens / newInput) * 100) : 0;
+  const visible = tools.slice(0, maxRows);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Wrench className="w-5 h-5 text-slate-400" />
+          Tools
+        </h3>
+        <span className="text-xs text-slate-500">
+          {totalCalls} calls • {totalErrors} error{totalErrors !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {visible.map((tool) => (
+          <div key={tool.name}>
+            <div className="flex justify-between items-baseline text-sm mb-1 gap-4">
+              <span className="text-white font-medium truncate" title={tool.name}>
+                {tool.name}
+              </span>
+              <span className="text-slate-400 text-xs shrink-0">
+                {tool.calls} calls
+                {tool.errors > 0 && <span className="text-rose-400"> • {tool.errors} failed</span>} • ≈
+                {formatTokenNumber(tool.output_tokens)} output tokens
+              </span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-1.5 overflow-hidden">
+              <div className="bg-indigo-500 h-1.5 rounded-full" style={{ width: `${(tool.calls / maxCalls) * 100}%` }}></div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {tools.length > maxRows && (
+        <p className="text-xs text-slate-500 mt-4">
+          ...and {tools.length - maxRows} more
+        </p>
+      )}
+
+      {largeTokens > 0 && (
+        <p className="text-xs text-amber-400/80 mt-4">
+          ≈ {formatTokenNumber(largeTokens)} tokens came from tool outputs over{' '}
+          {formatTokenNumber(data.usage.tools!.large_output_threshold)} tokens, about {largeShare.toFixed(0)}% of new input.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ToolBreakdown;
@@ -6,6 +6,7 @@ import {
   ExternalLink, HelpCircle, Globe, Folder, Info, DollarSign, Wifi, RefreshCw
 } from 'lucide-react';
 import { UsageReport } from '../types';
+import { REPORT_SCHEMA_VERSION, formatSchemaErrors, validateUsageReport } from '@llm-usage/core';
 import { COLLECTOR_SCRIPT_TEMPLATE, PLANS_DATABASE } from '../constants';
 import { fetchOpenAIUsage, isValidOpenAIKey, testOpenAIConnection } from '../services/openaiService';
 
@@ -70,8 +71,11 @@ const Uploader: React.FC<UploaderProps> = ({ onDataLoaded, onLoadDemo }) => {
       if (!response.ok) {
         throw new Error('Failed to fetch usage data from local server');
       }
-      const report = await response.json() as UsageReport;
-      onDataLoaded(report, true); // true = from live server
+      const { valid, errors, report } = validateUsageReport(await response.json());
+      if (!valid) {
+        throw new Error(`invalid report (${formatSchemaErrors(errors, 3).join('; ')})`);
+      }
+      onDataLoaded(report as UsageReport, true); // true = from live server
     } catch (err) {
       setError(`Failed to load from local server: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -112,6 +116,7 @@ const Uploader: React.FC<UploaderProps> = ({ onDataLoaded, onLoadDemo }) => {
 
   const convertClaudeExportToUsageReport = (data: any[]): UsageReport => {
     const usage: UsageReport = {
+      schema_version: REPORT_SCHEMA_VERSION,
       provider: 'anthropic',
       source: 'manual_upload',
       period: { start: new Date().toISOString(), end: new Date().toISOString() },
@@ -166,27 +171,48 @@ const Uploader: React.FC<UploaderProps> = ({ onDataLoaded, onLoadDemo }) => {
     return usage;
   };
 
+  const loadReport = (json: unknown) => {
+    // Older reports are migrated; the rest must match the current schema
+    const { valid, errors, report } = validateUsageReport(json);
+    if (!valid) {
+      console.error('Invalid usage report', errors);
+      setError(`Invalid usage report: ${formatSchemaErrors(errors, 3).join('; ')}`);
+      return;
+    }
+    onDataLoaded(report as UsageReport);
+  };
+
   const processFile = async (file: File) => {
+    let json: unknown;
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      
-      if (json.usage && json.provider) {
-        onDataLoaded(json as UsageReport);
-        return;
-      }
-      
-      if (Array.isArray(json) && json.length > 0 && (json[0].uuid || json[0].chat_messages)) {
-        const report = convertClaudeExportToUsageReport(json);
+      json = JSON.parse(await file.text());
+    } catch (err) {
+      console.error(err);
+      setError("Failed to parse file. Please ensure it is a valid 'usage_report.json' or 'conversations.json' export.");
+      return;
+    }
+
+    if (json && !Array.isArray(json) && typeof json === 'object') {
+      loadReport(json);
+      return;
+    }
+
+    const first: unknown = Array.isArray(json) ? json[0] : undefined;
+    if (first && typeof first === 'object') {
+      if ('uuid' in first || 'chat_messages' in first) {
+        const report = convertClaudeExportToUsageReport(json as unknown[]);
         onDataLoaded(report);
         return;
       }
 
-      throw new Error("Unknown JSON format");
-    } catch (err) {
-      console.error(err);
-      setError("Failed to parse file. Please ensure it is a valid 'usage_report.json' or 'conversations.json' export.");
+      // The browser extension exports its reports newest first
+      if ('usage' in first) {
+        loadReport(first);
+        return;
+      }
     }
+
+    setError("Unknown JSON format. Please upload a 'usage_report.json' or 'conversations.json' export.");
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { UsageReport } from '../types';
+import { getHourlyHeatmap } from '../services/trendService';
+import { formatTokenNumber } from '../services/analysisService';
+
+interface UsageHeatmapProps {
+  reports: UsageReport[];
+}
+
+type HeatmapMetric = 'tokens' | 'messages';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOUR_LABELS = [0, 6, 12, 18];
+
+const UsageHeatmap: React.FC<UsageHeatmapProps> = ({ reports }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('tokens');
+  const heatmap = useMemo(() => getHourlyHeatmap(reports), [reports]);
+
+  if (heatmap.timezones.length === 0) return null;
+
+  const max = metric === 'tokens' ? heatmap.maxTokens : heatmap.maxMessages;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Clock className="w-5 h-5 text-slate-400" />
+          Usage by Hour
+        </h3>
+        <div className="flex bg-slate-900/50 rounded-lg p-0.5 text-xs">
+          {(['tokens', 'messages'] as HeatmapMetric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2 py-1 rounded-md capitalize transition-colors ${
+                metric === m ? 'bg-indigo-500 text-white' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-[2px]" style={{ gridTemplateColumns: 'auto repeat(24, minmax(0, 1fr))' }}>
+        {WEEKDAYS.map((day, weekday) => (
+          <React.Fragment key={day}>
+            <span className="text-[10px] text-slate-500 pr-2 leading-none self-center">{day}</span>
+            {heatmap.cells.slice(weekday * 24, weekday * 24 + 24).map((cell) => {
+              const value = metric === 'tokens' ? cell.tokens : cell.messages;
+              const intensity = max > 0 ? value / max : 0;
+              return (
+                <div
+                  key={cell.hour}
+                  className="aspect-square rounded-sm"
+                  style={{
+                    backgroundColor: value > 0 ? `rgba(99, 102, 241, ${0.15 + intensity * 0.85})` : 'rgba(51, 65, 85, 0.4)',
+                  }}
+                  title={`${day} ${String(cell.hour).padStart(2, '0')}:00 — ${cell.messages} msgs, ${formatTokenNumber(cell.tokens)} tokens`}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+        <span />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <span key={hour} className="text-[10px] text-slate-500 leading-none pt-1">
+            {HOUR_LABELS.includes(hour) ? String(hour).padStart(2, '0') : ''}
+          </span>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 mt-4">
+        Times in {heatmap.timezones.join(', ')}
+      </p>
+    </div>
+  );
+};
+
+export default UsageHeatmap;
@@ -1,4 +1,5 @@
 import { PlanPricing, UsageReport, PlanInfo } from "./types";
+import { REPORT_SCHEMA_VERSION, CustomPlan, getPlan, resolvePlans } from "@llm-usage/core";
 
 export const APP_NAME = "LLM Usage Analyzer";
 
@@ -100,19 +101,6 @@ export const PLANS_DATABASE: PlanInfo[] = [
     price_usd: 0,
     billing: "payg",
     type: "payg",
-    pricing: {
-      input_per_1m_tokens: 3.0,
-      output_per_1m_tokens: 15.0,
-      by_model: {
-        "claude-opus-4-5-20251101": { input: 15.0, output: 75.0 },
-        "claude-sonnet-4-5-20250929": { input: 3.0, output: 15.0 },
-        "claude-3-5-sonnet-20241022": { input: 3.0, output: 15.0 },
-        "claude-3-5-sonnet-20240620": { input: 3.0, output: 15.0 },
-        "claude-3-opus-20240229": { input: 15.0, output: 75.0 },
-        "claude-3-5-haiku-20241022": { input: 0.80, output: 4.0 },
-        "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
-      },
-    },
   },
   // OpenAI Subscription Plans
   {
@@ -144,21 +132,6 @@ export const PLANS_DATABASE: PlanInfo[] = [
     price_usd: 0,
     billing: "payg",
     type: "payg",
-    pricing: {
-      input_per_1m_tokens: 2.5,
-      output_per_1m_tokens: 10.0,
-      by_model: {
-        "gpt-4o": { input: 2.5, output: 10.0 },
-        "gpt-4o-2024-11-20": { input: 2.5, output: 10.0 },
-        "gpt-4o-mini": { input: 0.15, output: 0.60 },
-        "gpt-4-turbo": { input: 10.0, output: 30.0 },
-        "gpt-4": { input: 30.0, output: 60.0 },
-        "gpt-3.5-turbo": { input: 0.50, output: 1.50 },
-        "o1": { input: 15.0, output: 60.0 },
-        "o1-mini": { input: 3.0, output: 12.0 },
-        "o1-preview": { input: 15.0, output: 60.0 },
-      },
-    },
   },
   // Google Gemini Plans
   {
@@ -178,17 +151,6 @@ export const PLANS_DATABASE: PlanInfo[] = [
     price_usd: 0,
     billing: "payg",
     type: "payg",
-    pricing: {
-      input_per_1m_tokens: 1.25,
-      output_per_1m_tokens: 10.0,
-      by_model: {
-        "gemini-2.5-pro": { input: 1.25, output: 10.0 },
-        "gemini-2.5-flash": { input: 0.15, output: 0.60 },
-        "gemini-2.0-flash": { input: 0.10, output: 0.40 },
-        "gemini-1.5-pro": { input: 1.25, output: 5.0 },
-        "gemini-1.5-flash": { input: 0.075, output: 0.30 },
-      },
-    },
   },
   // xAI Grok Plans
   {
@@ -208,67 +170,9 @@ export const PLANS_DATABASE: PlanInfo[] = [
     price_usd: 0,
     billing: "payg",
     type: "payg",
-    pricing: {
-      input_per_1m_tokens: 5.0,
-      output_per_1m_tokens: 15.0,
-      by_model: {
-        "grok-3": { input: 5.0, output: 15.0 },
-        "grok-3-mini": { input: 0.30, output: 0.50 },
-        "grok-2": { input: 2.0, output: 10.0 },
-      },
-    },
   },
 ];
 
-// Model pricing lookup (used by analysisService)
-export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  // Anthropic Models (per 1M tokens)
-  "claude-opus-4-5-20251101": { input: 15.0, output: 75.0 },
-  "claude-sonnet-4-5-20250929": { input: 3.0, output: 15.0 },
-  "claude-3-5-sonnet-20241022": { input: 3.0, output: 15.0 },
-  "claude-3-5-sonnet-20240620": { input: 3.0, output: 15.0 },
-  "claude-3-opus-20240229": { input: 15.0, output: 75.0 },
-  "claude-3-sonnet-20240229": { input: 3.0, output: 15.0 },
-  "claude-3-5-haiku-20241022": { input: 0.80, output: 4.0 },
-  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
-  // OpenAI Models (per 1M tokens)
-  "gpt-4o": { input: 2.5, output: 10.0 },
-  "gpt-4o-2024-11-20": { input: 2.5, output: 10.0 },
-  "gpt-4o-mini": { input: 0.15, output: 0.60 },
-  "gpt-4-turbo": { input: 10.0, output: 30.0 },
-  "gpt-4-turbo-2024-04-09": { input: 10.0, output: 30.0 },
-  "gpt-4": { input: 30.0, output: 60.0 },
-  "gpt-3.5-turbo": { input: 0.50, output: 1.50 },
-  "o1": { input: 15.0, output: 60.0 },
-  "o1-mini": { input: 3.0, output: 12.0 },
-  "o1-preview": { input: 15.0, output: 60.0 },
-  // Default fallback
-  "default": { input: 5.0, output: 20.0 },
-};
-
-// Claude subscription plan limits for plan fit analysis
-// Key insight: Claude plans limit by MESSAGE COUNT, not tokens
-export const PLAN_LIMITS = {
-  'Claude Pro': { messagesPerDay: 100, price: 20 },
-  'Claude Max 5x': { messagesPerDay: 500, price: 100 },
-  'Claude Max 20x': { messagesPerDay: 2000, price: 200 },
-} as const;
-
-// Type for plan limit keys
-export type PlanLimitKey = keyof typeof PLAN_LIMITS;
-
-// Cache token pricing (Anthropic charges for cache writes)
-export const CACHE_PRICING: Record<string, { write: number; read: number }> = {
-  "claude-opus-4-5-20251101": { write: 18.75, read: 1.875 },
-  "claude-sonnet-4-5-20250929": { write: 3.75, read: 0.375 },
-  "claude-3-5-sonnet-20241022": { write: 3.75, read: 0.375 },
-  "claude-3-5-sonnet-20240620": { write: 3.75, read: 0.375 },
-  "claude-3-opus-20240229": { write: 18.75, read: 1.875 },
-  "claude-3-5-haiku-20241022": { write: 1.0, read: 0.10 },
-  "claude-3-haiku-20240307": { write: 0.30, read: 0.03 },
-  "default": { write: 3.75, read: 0.375 },
-};
-
 // Helper to get plan by name
 export function getPlanByName(name: string): PlanInfo | undefined {
   return PLANS_DATABASE.find(p => p.name.toLowerCase() === name.toLowerCase());
@@ -279,12 +183,45 @@ export function getPlansByProvider(provider: string): PlanInfo[] {
   return PLANS_DATABASE.filter(p => p.provider === provider);
 }
 
+// The plans database with the user's custom plans applied: an override changes
+// the plan of the same name, anything else is added as a subscription
+export function withCustomPlans(custom: CustomPlan[] = []): PlanInfo[] {
+  if (custom.length === 0) return PLANS_DATABASE;
+  const resolved = resolvePlans(custom);
+
+  const toInfo = (name: string, base?: PlanInfo): PlanInfo => {
+    const plan = getPlan(resolved, name)!;
+    return {
+      ...base,
+      name: plan.name,
+      provider: plan.provider || base?.provider || "anthropic",
+      price_usd: plan.price_usd,
+      billing: plan.billing || "monthly",
+      type: "subscription",
+      limits: {
+        ...base?.limits,
+        estimated_messages_per_day: plan.limits.daily ?? base?.limits?.estimated_messages_per_day,
+        models_included: plan.models ?? base?.limits?.models_included,
+      },
+    };
+  };
+
+  const plans = PLANS_DATABASE.map(p =>
+    p.type === "subscription" && custom.some(c => c.name.toLowerCase() === p.name.toLowerCase()) ? toInfo(p.name, p) : p
+  );
+  for (const c of custom) {
+    if (!plans.some(p => p.name.toLowerCase() === c.name.toLowerCase())) plans.push(toInfo(c.name));
+  }
+  return plans;
+}
+
 // Helper to get API plan for provider
 export function getAPIplan(provider: 'anthropic' | 'openai'): PlanInfo | undefined {
   return PLANS_DATABASE.find(p => p.provider === provider && p.type === 'payg');
 }
 
 export const MOCK_DATA: UsageReport = {
+  schema_version: REPORT_SCHEMA_VERSION,
   provider: "anthropic",
   source: "demo",
   period: {
@@ -355,12 +292,13 @@ async function collectClaudeUsage() {
   }
 
   const usage = {
+    schema_version: ${REPORT_SCHEMA_VERSION},
     provider: 'anthropic',
     source: 'local_agent',
     period: { start: new Date().toISOString(), end: new Date().toISOString() },
     plan: { name: 'Claude Pro', price_usd: 20, type: 'subscription' },
     usage: {
-      tokens: { input: 0, output: 0, cached: 0, by_model: {} },
+      tokens: { input: 0, output: 0, cached: 0, cache_read: 0, cache_write: 0, by_model: {} },
       messages: { count: 0, by_day: [] },
       sessions: { count: 0 }
     }
@@ -394,7 +332,9 @@ async function collectClaudeUsage() {
           try {
             const entry = JSON.parse(line);
             if (entry.message && entry.message.usage) {
-              const { input_tokens, output_tokens, cache_read_input_tokens } = entry.message.usage;
+              const { input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens } = entry.message.usage;
+              const cacheRead = cache_read_input_tokens || 0;
+              const cacheWrite = cache_creation_input_tokens || 0;
               const model = entry.message.model;
               const ts = new Date(entry.timestamp || Date.now());
 
@@ -404,24 +344,30 @@ async function collectClaudeUsage() {
               // Tokens
               usage.usage.tokens.input += (input_tokens || 0);
               usage.usage.tokens.output += (output_tokens || 0);
-              usage.usage.tokens.cached += (cache_read_input_tokens || 0);
+              usage.usage.tokens.cached += cacheRead + cacheWrite;
+              usage.usage.tokens.cache_read += cacheRead;
+              usage.usage.tokens.cache_write += cacheWrite;
 
               // By Model
               if (!usage.usage.tokens.by_model[model]) {
-                usage.usage.tokens.by_model[model] = { input: 0, output: 0 };
+                usage.usage.tokens.by_model[model] = { input: 0, output: 0, cache_read: 0, cache_write: 0 };
               }
               usage.usage.tokens.by_model[model].input += (input_tokens || 0);
               usage.usage.tokens.by_model[model].output += (output_tokens || 0);
+              usage.usage.tokens.by_model[model].cache_read += cacheRead;
+              usage.usage.tokens.by_model[model].cache_write += cacheWrite;
 
               // Messages & Days
               usage.usage.messages.count++;
               const dateKey = ts.toISOString().split('T')[0];
               if (!dayMap[dateKey]) {
-                dayMap[dateKey] = { count: 0, input: 0, output: 0 };
+                dayMap[dateKey] = { count: 0, input: 0, output: 0, cache_read: 0, cache_write: 0 };
               }
               dayMap[dateKey].count++;
               dayMap[dateKey].input += (input_tokens || 0);
               dayMap[dateKey].output += (output_tokens || 0);
+              dayMap[dateKey].cache_read += cacheRead;
+              dayMap[dateKey].cache_write += cacheWrite;
             }
           } catch (e) {
             // ignore partial lines
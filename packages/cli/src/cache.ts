@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { UsageRecord } from './types.js';
+
+// Bump whenever UsageRecord changes so older indexes and shards are discarded
+const CACHE_VERSION = 9;
+
+/**
+ * A transcript's parsed records, stored in a shard file of its own so a scan
+ * only holds the records of the files it is currently aggregating
+ */
+export interface CachedFile {
+  size: number;
+  mtimeMs: number;
+  offset: number; // Byte offset just past the last parsed line
+  records: UsageRecord[];
+  state?: unknown; // Line parser state at `offset`, for parsers that need it
+}
+
+// What the index keeps per transcript; the records live in the shard
+export interface CacheEntry {
+  size: number;
+  mtimeMs: number;
+  records: number;
+}
+
+export interface ScanCache {
+  version: number;
+  files: Record<string, CacheEntry>;
+}
+
+interface CacheShard extends CachedFile {
+  version: number;
+  filePath: string;
+}
+
+function getCacheBase(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'llm-usage');
+}
+
+/**
+ * Get the scan cache directory (respects XDG_CACHE_HOME)
+ */
+export function getCachePath(): string {
+  return path.join(getCacheBase(), 'scan-cache');
+}
+
+function getIndexPath(): string {
+  return path.join(getCachePath(), 'index.json');
+}
+
+// Versions before 6 kept every record in this one file
+function getLegacyCachePath(): string {
+  return path.join(getCacheBase(), 'scan-cache.json');
+}
+
+function getShardPath(filePath: string): string {
+  const hash = crypto.createHash('sha1').update(filePath).digest('hex');
+  return path.join(getCachePath(), 'files', `${hash}.json`);
+}
+
+/**
+ * Write through a temp file so concurrent readers never see a partial file
+ */
+function writeAtomic(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Long-running commands (serve, watch) scan repeatedly; keep the loaded index between scans
+let loadedCache: ScanCache | null = null;
+
+function emptyCache(): ScanCache {
+  return { version: CACHE_VERSION, files: {} };
+}
+
+/**
+ * Load the scan cache index, starting fresh if it is missing, corrupt or outdated.
+ * The file is read once per process; later calls return the same object.
+ */
+export function loadScanCache(): ScanCache {
+  if (loadedCache) return loadedCache;
+  try {
+    const data = JSON.parse(fs.readFileSync(getIndexPath(), 'utf-8')) as ScanCache;
+    loadedCache = data.version !== CACHE_VERSION || !data.files ? emptyCache() : data;
+  } catch {
+    loadedCache = emptyCache();
+  }
+  return loadedCache;
+}
+
+/**
+ * Persist the scan cache index, and drop the single-file cache of older versions
+ */
+export function saveScanCache(cache: ScanCache): void {
+  writeAtomic(getIndexPath(), cache);
+  fs.rmSync(getLegacyCachePath(), { force: true });
+  loadedCache = cache;
+}
+
+/**
+ * Read a transcript's cached records. Returns undefined when there are none,
+ * or when the shard was written by another cache version.
+ */
+export function loadCachedFile(filePath: string): CachedFile | undefined {
+  try {
+    const shard = JSON.parse(fs.readFileSync(getShardPath(filePath), 'utf-8')) as CacheShard;
+    if (shard.version !== CACHE_VERSION || shard.filePath !== filePath) return undefined;
+    return { size: shard.size, mtimeMs: shard.mtimeMs, offset: shard.offset, records: shard.records, state: shard.state };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Store a transcript's records in its shard. The shard is written straight
+ * away; the index only when saveScanCache() is called.
+ */
+export function saveCachedFile(filePath: string, file: CachedFile): void {
+  const shard: CacheShard = { version: CACHE_VERSION, filePath, ...file };
+  writeAtomic(getShardPath(filePath), shard);
+}
+
+/**
+ * Forget a transcript that no longer exists
+ */
+export function removeCachedFile(cache: ScanCache, filePath: string): void {
+  delete cache.files[filePath];
+  fs.rmSync(getShardPath(filePath), { force: true });
+}
+
+/**
+ * Bytes the scan cache takes on disk, index and shards together
+ */
+export function getCacheSize(): number {
+  const shardDir = path.dirname(getShardPath(''));
+  const shards = fs.existsSync(shardDir) ? fs.readdirSync(shardDir).map((name) => path.join(shardDir, name)) : [];
+  return [getIndexPath(), ...shards]
+    .filter((file) => fs.existsSync(file))
+    .reduce((sum, file) => sum + fs.statSync(file).size, 0);
+}
+
+/**
+ * Delete the scan cache. Returns false if there was nothing to delete.
+ */
+export function clearScanCache(): boolean {
+  const cachePath = getCachePath();
+  const legacyPath = getLegacyCachePath();
+  loadedCache = null;
+  if (!fs.existsSync(cachePath) && !fs.existsSync(legacyPath)) return false;
+  fs.rmSync(cachePath, { recursive: true, force: true });
+  fs.rmSync(legacyPath, { force: true });
+  return true;
+}
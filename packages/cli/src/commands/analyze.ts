@@ -1,65 +1,259 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import * as fs from 'fs';
-import * as path from 'path';
-import type { UsageReport, AnalyzeOptions } from '../types.js';
+import {
+  calculateReportCost,
+  calculateTokenCost,
+  analyzePlanFit,
+  analyzeWindowFit,
+  analyzeWindowPlanFit,
+  countInUnit,
+  hasUnit,
+  MESSAGE_UNITS,
+  getPlan,
+  monthlyPrice,
+  plansForReport,
+  WINDOW_HOURS,
+  type MessageUnit,
+  type PlanDefinition,
+  type PlanFitResult,
+  type WindowFitResult,
+} from '@llm-usage/core';
+import type { UsageReport, AnalyzeOptions, WindowUsage } from '../types.js';
 import { formatTokens } from '../parsers/claude.js';
+import { scanSources } from '../parsers/index.js';
+import { collect, printHostTable, printOriginTable, printProjectTable, printScanErrors, readPlans, readReport, requireSources, requireTimeZone } from './output.js';
 
-// Model pricing (per 1M tokens)
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'claude-opus-4-5-20251101': { input: 15.0, output: 75.0 },
-  'claude-sonnet-4-5-20250929': { input: 3.0, output: 15.0 },
-  'claude-3-5-sonnet-20241022': { input: 3.0, output: 15.0 },
-  'claude-3-5-sonnet-20240620': { input: 3.0, output: 15.0 },
-  'claude-3-opus-20240229': { input: 15.0, output: 75.0 },
-  'claude-3-sonnet-20240229': { input: 3.0, output: 15.0 },
-  'claude-3-5-haiku-20241022': { input: 0.80, output: 4.0 },
-  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
-  'gpt-4o': { input: 2.5, output: 10.0 },
-  'gpt-4o-mini': { input: 0.15, output: 0.60 },
-  'default': { input: 5.0, output: 20.0 },
+const MAX_TOOL_ROWS = 15;
+
+// The daily chart shows the most recent days; plan fit itself covers the whole report
+const MAX_CHART_DAYS = 31;
+const CHART_WIDTH = 40;
+
+const ANALYZE_FORMATS = ['text', 'json'];
+
+// Plan prices are monthly, so a report's API cost is spread over an average month
+const DAYS_PER_MONTH = 365.25 / 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONFIDENCE_COLORS: Record<PlanFitResult['confidence'], (text: string) => string> = {
+  high: chalk.green,
+  medium: chalk.yellow,
+  low: chalk.red,
 };
 
-function calculateAPICost(report: UsageReport): number {
-  let totalCost = 0;
+// `analyze --format json`
+export interface AnalyzeResult {
+  period: UsageReport['period'];
+  plan: { name: string; price_usd: number };
+  tokens: { input: number; output: number; cache_read: number; cache_write: number; total: number };
+  cost: {
+    api_equivalent: number; // Over the whole period
+    period_days: number;
+    api_equivalent_monthly: number; // api_equivalent spread over an average month
+    plan_price: number;
+    difference: number; // plan_price - api_equivalent_monthly; positive when the plan costs more
+    difference_percent: number | null; // difference as a percentage of plan_price; null for a $0 plan
+  };
+  plan_fit: PlanFitResult | null; // null when no plan covers the report's providers
+  windows: WindowFitResult<WindowUsage> | null; // null for reports without window data
+}
+
+/**
+ * `part` as a whole percentage of `whole`, or null when `whole` is zero
+ */
+function percentOf(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+/**
+ * Calculate the API-equivalent cost of a report from the shared pricing catalog
+ */
+export function calculateAPICost(report: UsageReport): number {
+  return calculateReportCost(report);
+}
+
+/**
+ * Days a report covers, a started day counting as a whole one
+ */
+function periodDays(report: UsageReport): number {
+  const ms = Date.parse(report.period.end) - Date.parse(report.period.start);
+  return Number.isFinite(ms) ? Math.max(1, Math.ceil(ms / DAY_MS)) : 1;
+}
 
+/**
+ * API-equivalent cost of each model in a report, priced at the end of its period
+ */
+export function calculateModelCosts(report: UsageReport): Record<string, number> {
+  const costs: Record<string, number> = {};
   for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    const inputCost = (tokens.input / 1_000_000) * pricing.input;
-    const outputCost = (tokens.output / 1_000_000) * pricing.output;
-    totalCost += inputCost + outputCost;
+    costs[model] = calculateTokenCost(model, tokens, { at: report.period.end });
   }
+  return costs;
+}
 
-  return totalCost;
+/**
+ * Run the dashboard's plan-fit analysis against the plans for the report's
+ * providers. A --plan that is not one of them falls back to the report's plan,
+ * as in the dashboard; a --price is what the user pays for it.
+ */
+function planFit(
+  report: UsageReport,
+  planName: string,
+  unit: MessageUnit,
+  plans: PlanDefinition[],
+  price?: number
+): PlanFitResult | null {
+  const candidates = plansForReport(report, plans);
+  if (candidates.length === 0) return null;
+  return analyzePlanFit(report, planName, unit, candidates, price);
+}
+
+/**
+ * One chart row: a bar scaled to `scale`, with a tick at each daily limit it spans.
+ * Red past the current plan's limit, yellow past a cheaper plan's.
+ */
+function dailyBar(day: PlanFitResult['dailyUsage'][number], fit: PlanFitResult, scale: number): string {
+  const filled = Math.min(CHART_WIDTH, Math.round((day.count / scale) * CHART_WIDTH));
+  const color = day.plansOver.includes(fit.currentPlan)
+    ? chalk.red
+    : day.plansOver.length > 0
+      ? chalk.yellow
+      : chalk.green;
+
+  const empty = Array.from({ length: CHART_WIDTH - filled }, () => ' ');
+  for (const { dailyLimit } of fit.plans) {
+    if (dailyLimit === undefined) continue;
+    const tick = Math.round((dailyLimit / scale) * CHART_WIDTH) - 1 - filled;
+    if (tick >= 0 && tick < empty.length) empty[tick] = '┊';
+  }
+  return color('█'.repeat(filled)) + chalk.gray(empty.join(''));
+}
+
+function printPlanFit(fit: PlanFitResult): void {
+  const unitLabel = MESSAGE_UNITS[fit.unit].label.toLowerCase();
+  const recommended = fit.recommendation;
+
+  console.log(`\n${chalk.white('Plan Fit')} ${chalk.gray(`(${unitLabel} per day)`)}`);
+  console.log(chalk.gray('─'.repeat(50)));
+  if (fit.totalDays === 0) {
+    console.log(chalk.gray('  No daily usage in this report.'));
+    return;
+  }
+
+  console.log(`  Verdict:    ${chalk.green(recommended)} ${chalk.gray(`($${fit.recommendedPrice}/mo)`)}`);
+  console.log(chalk.gray(`              ${fit.recommendationReason}`));
+  console.log(`  Peak:       ${chalk.cyan(fit.peakMessages)} ${unitLabel} on ${fit.peakDate}`);
+  console.log(`  Average:    ${chalk.cyan(fit.avgMessages)} ${unitLabel}/day over ${fit.totalDays} day${fit.totalDays !== 1 ? 's' : ''}`);
+  if (fit.peakWeek && fit.plans.some((plan) => plan.weeklyLimit !== undefined)) {
+    console.log(`  Peak week:  ${chalk.cyan(fit.peakWeek.count)} ${unitLabel} from ${fit.peakWeek.week}`);
+  }
+  const over = (count: number) => (count > 0 ? chalk.yellow(count) : chalk.green(count));
+  const limited = fit.plans.filter((plan) => plan.dailyLimit !== undefined || plan.weeklyLimit !== undefined);
+  if (limited.length > 0) {
+    console.log(`  Days over:  ${limited
+      .map((plan) => `${plan.name.replace('Claude ', '')} ${over(plan.daysOver)}${plan.weeksOver > 0 ? chalk.gray(` (+${plan.weeksOver} wk)`) : ''}`)
+      .join(' · ')}`);
+  }
+  for (const plan of fit.plans.filter((p) => p.missingModels.length > 0)) {
+    console.log(chalk.gray(`              ${plan.name} doesn't include ${plan.missingModels.join(', ')}`));
+  }
+  console.log(`  Confidence: ${CONFIDENCE_COLORS[fit.confidence](fit.confidence)} ${chalk.gray('(30+ days of data for high, 14+ for medium)')}`);
+
+  if (fit.savings > 0) {
+    console.log(chalk.green(`\n  💡 Switching from ${fit.currentPlan} to ${recommended} would save $${fit.savings}/mo`));
+  } else if (fit.recommendedPrice > fit.currentPrice) {
+    console.log(chalk.yellow(`\n  ⚠️  ${fit.currentPlan} is likely to hit its daily limit; ${recommended} fits your usage`));
+  }
+
+  // Scale to the busiest day, but never below the recommended plan's limit so its tick shows
+  const days = fit.dailyUsage.slice(-MAX_CHART_DAYS);
+  const recommendedLimit = fit.plans.find((plan) => plan.name === recommended)?.dailyLimit || 0;
+  const scale = Math.max(fit.peakMessages, recommendedLimit, 1);
+  const ticks = fit.plans.filter((plan) => plan.dailyLimit !== undefined && plan.dailyLimit <= scale);
+  console.log(`\n  ${chalk.white('Daily usage')} ${chalk.gray(ticks.length > 0
+    ? `┊ limits: ${ticks.map((plan) => `${plan.name.replace('Claude ', '')} ${plan.dailyLimit}`).join(' · ')}`
+    : '(no daily limits)')}`);
+  if (fit.dailyUsage.length > days.length) {
+    console.log(chalk.gray(`  ...${fit.dailyUsage.length - days.length} earlier days not shown`));
+  }
+  for (const day of days) {
+    console.log(`  ${chalk.gray(day.date)} ${dailyBar(day, fit, scale)} ${String(day.count).padStart(5)}`);
+  }
 }
 
 export const analyzeCommand = new Command('analyze')
-  .description('Analyze a usage report and show cost comparison')
+  .description('Analyze a usage report: cost comparison and plan fit against plan limits')
   .argument('[file]', 'Usage report JSON file (default: usage_report.json)')
-  .option('-p, --plan <name>', 'Your current plan name', 'Claude Pro')
-  .option('--price <amount>', 'Your plan price in USD', parseFloat, 20)
+  .option('--data-dir <dir>', 'Scan this Claude data directory instead of reading a report, optionally label=path (repeatable)', collect, [])
+  .option('--tz <zone>', 'With --data-dir: IANA time zone for daily and hourly buckets (default: system zone)')
+  .option('-p, --plan <name>', 'Your current plan name (default: the report\'s plan)')
+  .option('--price <amount>', 'Your plan price in USD per month (default: the plan\'s price)', parseFloat)
   .option('-v, --verbose', 'Show detailed breakdown')
+  .option('--by-project', 'Show a per-project usage table')
+  .option('--windows', `Check ${WINDOW_HOURS}-hour rate-limit windows against plan limits`)
+  .option('--unit <unit>', `Unit to measure plan limits in: ${Object.keys(MESSAGE_UNITS).join(', ')}`, 'messages')
+  .option('--format <format>', `Output format: ${ANALYZE_FORMATS.join(', ')}`, 'text')
   .action(async (file: string | undefined, options: AnalyzeOptions) => {
-    const inputFile = file || 'usage_report.json';
-    const inputPath = path.resolve(inputFile);
+    let report: UsageReport;
+    if (options.dataDir?.length) {
+      const scanOptions = { source: 'claude', dataDir: options.dataDir, tz: options.tz };
+      requireTimeZone(scanOptions);
+      const scanned = await scanSources(requireSources(scanOptions), scanOptions);
+      printScanErrors(scanned.progress, options.verbose);
+      report = scanned.report;
+    } else {
+      report = readReport(file);
+    }
 
-    if (!fs.existsSync(inputPath)) {
-      console.error(chalk.red(`\n❌ File not found: ${inputPath}`));
-      console.error(chalk.gray('   Run `llm-usage scan` first to generate a report.\n'));
+    const unit = (options.unit || 'messages') as MessageUnit;
+    if (!Object.hasOwn(MESSAGE_UNITS, unit)) {
+      console.error(chalk.red(`\n❌ Unknown unit: ${unit}`));
+      console.error(chalk.gray(`   Use one of: ${Object.keys(MESSAGE_UNITS).join(', ')}\n`));
       process.exit(1);
     }
 
-    let report: UsageReport;
-    try {
-      const content = fs.readFileSync(inputPath, 'utf-8');
-      report = JSON.parse(content);
-    } catch (err) {
-      console.error(chalk.red(`\n❌ Failed to parse report: ${err}`));
+    const format = options.format || 'text';
+    if (!ANALYZE_FORMATS.includes(format)) {
+      console.error(chalk.red(`\n❌ Unknown format: ${format}`));
+      console.error(chalk.gray(`   Use one of: ${ANALYZE_FORMATS.join(', ')}\n`));
       process.exit(1);
     }
 
-    const planPrice = options.price || report.plan?.price_usd || 20;
+    const plans = readPlans();
     const planName = options.plan || report.plan?.name || 'Claude Pro';
+    const plan = getPlan(plans, planName);
+    const planPrice = options.price ?? (plan ? monthlyPrice(plan) : report.plan?.price_usd ?? 20);
+    const fit = planFit(report, planName, unit, plans, options.price);
+    const apiCost = calculateAPICost(report);
+    const days = periodDays(report);
+    const monthlyApiCost = (apiCost / days) * DAYS_PER_MONTH;
+
+    if (format === 'json') {
+      const { tokens } = report.usage;
+      const result: AnalyzeResult = {
+        period: report.period,
+        plan: { name: planName, price_usd: planPrice },
+        tokens: {
+          input: tokens.input,
+          output: tokens.output,
+          cache_read: tokens.cache_read || 0,
+          cache_write: tokens.cache_write || 0,
+          total: tokens.input + tokens.output,
+        },
+        cost: {
+          api_equivalent: apiCost,
+          period_days: days,
+          api_equivalent_monthly: monthlyApiCost,
+          plan_price: planPrice,
+          difference: planPrice - monthlyApiCost,
+          difference_percent: percentOf(planPrice - monthlyApiCost, planPrice),
+        },
+        plan_fit: fit,
+        windows: analyzeWindowPlanFit(report, unit, undefined, plansForReport(report, plans)),
+      };
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
 
     console.log(chalk.cyan('\n📊 LLM Usage Analysis\n'));
     console.log(chalk.gray('─'.repeat(50)));
@@ -73,35 +267,45 @@ export const analyzeCommand = new Command('analyze')
     console.log(`  Input:  ${chalk.cyan(formatTokens(totalInput))}`);
     console.log(`  Output: ${chalk.cyan(formatTokens(totalOutput))}`);
     console.log(`  Total:  ${chalk.cyan(formatTokens(totalTokens))}`);
+    if (report.usage.tokens.cache_read || report.usage.tokens.cache_write) {
+      console.log(`  Cache:  ${chalk.gray(`${formatTokens(report.usage.tokens.cache_read || 0)} read, ${formatTokens(report.usage.tokens.cache_write || 0)} written`)}`);
+    }
 
     // Cost Analysis
-    const apiCost = calculateAPICost(report);
-
     console.log(`\n${chalk.white('Cost Analysis')}`);
     console.log(`  Your Plan:       ${chalk.white(planName)} ${chalk.gray(`($${planPrice}/mo)`)}`);
-    console.log(`  API Equivalent:  ${chalk.cyan(`$${apiCost.toFixed(2)}/mo`)}`);
+    console.log(`  API Equivalent:  ${chalk.cyan(`$${monthlyApiCost.toFixed(2)}/mo`)} ${chalk.gray(`($${apiCost.toFixed(2)} over ${days} day${days !== 1 ? 's' : ''})`)}`);
 
-    const savings = planPrice - apiCost;
-    const savingsPercent = ((savings / planPrice) * 100).toFixed(0);
+    const savings = planPrice - monthlyApiCost;
+    const savingsPercent = percentOf(savings, planPrice);
 
     console.log('');
     if (savings > 0) {
       // Overpaying
       console.log(chalk.yellow(`  ⚠️  You're paying $${savings.toFixed(2)} more than API would cost`));
-      console.log(chalk.gray(`      That's ${savingsPercent}% more than pay-as-you-go pricing`));
+      if (savingsPercent !== null) {
+        console.log(chalk.gray(`      That's ${savingsPercent}% more than pay-as-you-go pricing`));
+      }
 
-      if (apiCost < 20) {
+      const cheapest = plansForReport(report, plans)[0];
+      if (monthlyApiCost < (cheapest ? monthlyPrice(cheapest) : planPrice)) {
         console.log(chalk.green(`\n  💡 Recommendation: Consider switching to API`));
-        console.log(chalk.gray(`     With your usage, API would cost only $${apiCost.toFixed(2)}/mo`));
-      } else if (apiCost < 100 && planPrice >= 100) {
-        console.log(chalk.green(`\n  💡 Recommendation: Consider Claude Pro ($20/mo)`));
-        console.log(chalk.gray(`     Your usage fits within the Pro tier`));
+        console.log(chalk.gray(`     With your usage, API would cost only $${monthlyApiCost.toFixed(2)}/mo`));
       }
     } else {
       // Good value
-      const valuePercent = ((Math.abs(savings) / apiCost) * 100).toFixed(0);
+      const valuePercent = percentOf(Math.abs(savings), monthlyApiCost);
       console.log(chalk.green(`  ✅ Good value! You're saving $${Math.abs(savings).toFixed(2)} vs API`));
-      console.log(chalk.gray(`     That's ${valuePercent}% cheaper than pay-as-you-go`));
+      if (valuePercent !== null) {
+        console.log(chalk.gray(`     That's ${valuePercent}% cheaper than pay-as-you-go`));
+      }
+    }
+
+    if (fit) {
+      if (!hasUnit(report.usage.messages.by_day, unit)) {
+        console.log(chalk.yellow(`\n  ⚠️  This report has no ${MESSAGE_UNITS[unit].label.toLowerCase()} counts; plan fit uses messages instead`));
+      }
+      printPlanFit(fit);
     }
 
     // Model Breakdown
@@ -111,21 +315,124 @@ export const analyzeCommand = new Command('analyze')
 
       const models = Object.entries(report.usage.tokens.by_model)
         .sort(([, a], [, b]) => (b.input + b.output) - (a.input + a.output));
+      const modelCosts = calculateModelCosts(report);
 
       for (const [model, tokens] of models) {
-        const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-        const inputCost = (tokens.input / 1_000_000) * pricing.input;
-        const outputCost = (tokens.output / 1_000_000) * pricing.output;
-        const modelCost = inputCost + outputCost;
+        const modelCost = modelCosts[model];
         const percentage = (((tokens.input + tokens.output) / totalTokens) * 100).toFixed(1);
 
         const shortModel = model.replace('claude-', '').replace('gpt-', '');
         console.log(`\n  ${chalk.white(shortModel)}`);
         console.log(`    Tokens: ${formatTokens(tokens.input + tokens.output)} (${percentage}%)`);
+        if (tokens.cache_read || tokens.cache_write) {
+          console.log(`    Cache:  ${formatTokens(tokens.cache_read || 0)} read, ${formatTokens(tokens.cache_write || 0)} written`);
+        }
         console.log(`    Cost:   $${modelCost.toFixed(2)}`);
       }
     }
 
+    // Tool Calls
+    const tools = report.usage.tools;
+    if (options.verbose && tools) {
+      console.log(`\n${chalk.white('Tools')}`);
+      console.log(chalk.gray('─'.repeat(50)));
+
+      const byTool = Object.entries(tools.by_tool).sort(([, a], [, b]) => b.calls - a.calls);
+      console.log(chalk.gray(`  ${'Tool'.padEnd(24)} ${'Calls'.padStart(6)} ${'Errors'.padStart(7)} ${'Output'.padStart(8)} ${'Large'.padStart(6)}`));
+      for (const [name, tool] of byTool.slice(0, MAX_TOOL_ROWS)) {
+        const shortName = name.length > 24 ? `…${name.slice(-23)}` : name;
+        const errors = tool.errors > 0 ? chalk.red(String(tool.errors).padStart(7)) : chalk.gray('0'.padStart(7));
+        console.log(
+          `  ${chalk.white(shortName.padEnd(24))} ${String(tool.calls).padStart(6)} ${errors} ${chalk.cyan(formatTokens(tool.output_tokens).padStart(8))} ${String(tool.large_outputs).padStart(6)}`
+        );
+      }
+      if (byTool.length > MAX_TOOL_ROWS) {
+        console.log(chalk.gray(`  ...and ${byTool.length - MAX_TOOL_ROWS} more`));
+      }
+
+      // Tool results enter the context as new input, so they are compared with uncached input
+      const largeTokens = byTool.reduce((sum, [, tool]) => sum + tool.large_output_tokens, 0);
+      const newInput = report.usage.tokens.input + (report.usage.tokens.cache_write || 0);
+      if (largeTokens > 0 && newInput > 0) {
+        const share = Math.min(100, (largeTokens / newInput) * 100).toFixed(0);
+        console.log(
+          chalk.gray(`\n  Outputs over ${formatTokens(tools.large_output_threshold)} tokens: ≈${formatTokens(largeTokens)}, about ${share}% of new input tokens`)
+        );
+      }
+    }
+
+    // Project Breakdown
+    if (options.byProject) {
+      console.log(`\n${chalk.white('Project Breakdown')}`);
+      console.log(chalk.gray('─'.repeat(50)));
+      printProjectTable(report);
+    }
+
+    // Host Breakdown
+    if (Object.keys(report.usage.by_host || {}).length > 1) {
+      console.log(`\n${chalk.white('Host Breakdown')}`);
+      console.log(chalk.gray('─'.repeat(50)));
+      printHostTable(report);
+    }
+
+    // Origin Breakdown
+    if (Object.keys(report.usage.by_origin || {}).length > 1) {
+      console.log(`\n${chalk.white('Origin Breakdown')}`);
+      console.log(chalk.gray('─'.repeat(50)));
+      printOriginTable(report);
+    }
+
+    // Rate-limit Windows
+    if (options.windows) {
+      console.log(`\n${chalk.white(`${WINDOW_HOURS}-Hour Limit Windows`)}`);
+      console.log(chalk.gray('─'.repeat(50)));
+
+      const windows = report.usage.messages.by_window || [];
+      const limits = Object.fromEntries(
+        plansForReport(report, plans)
+          .filter((p) => p.limits.window !== undefined)
+          .map((p) => [p.name, p.limits.window!])
+      );
+      if (windows.length === 0) {
+        console.log(chalk.gray('  No window data in this report.'));
+        console.log(chalk.gray('  Re-run `llm-usage scan` to include it.'));
+      } else if (Object.keys(limits).length === 0) {
+        console.log(chalk.gray('  None of your plans sets a window limit.'));
+      } else {
+        const fit = analyzeWindowFit(windows, { unit, limits });
+        const unitLabel = MESSAGE_UNITS[unit].label.toLowerCase();
+        if (!hasUnit(windows, unit)) {
+          console.log(chalk.yellow(`  ⚠️  This report has no ${unitLabel} counts; showing messages instead`));
+        }
+        const formatWindow = (iso: string) =>
+          new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+        console.log(`  Windows: ${chalk.cyan(fit.totalWindows)} ${chalk.gray(`(avg ${fit.avgMessages} ${unitLabel}, peak ${fit.peak ? countInUnit(fit.peak, unit) : 0})`)}`);
+        console.log('');
+        console.log(chalk.gray(`  ${'Plan'.padEnd(18)} ${'Limit'.padStart(6)}   Rate-limited windows`));
+        for (const plan of fit.plans) {
+          const over = `${plan.windowsOver} / ${fit.totalWindows}`;
+          console.log(
+            `  ${chalk.white(plan.plan.padEnd(18))} ${String(plan.limit).padStart(6)}   ${plan.windowsOver > 0 ? chalk.yellow(over) : chalk.green(over)}`
+          );
+        }
+
+        console.log(`\n  ${chalk.white('Busiest windows')}`);
+        for (const w of fit.worstWindows) {
+          console.log(
+            `    ${formatWindow(w.start).padEnd(18)} ${chalk.cyan(`${countInUnit(w, unit)} ${unitLabel}`.padStart(14))}  ${chalk.gray(`${formatTokens(w.input + w.output)} tokens`)}`
+          );
+        }
+
+        console.log('');
+        if (fit.recommendedPlan) {
+          console.log(chalk.green(`  ✅ ${fit.recommendedPlan} would not have hit a window limit`));
+        } else {
+          console.log(chalk.yellow('  ⚠️  Every plan would have been rate-limited at least once'));
+        }
+      }
+    }
+
     // Period
     console.log(`\n${chalk.gray('─'.repeat(50))}`);
     const startDate = new Date(report.period.start).toLocaleDateString();
@@ -0,0 +1,263 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { calculateReportCost } from '@llm-usage/core';
+import { getBudgetsPath, loadBudgets, saveBudgets } from '../config.js';
+import { scanSources } from '../parsers/index.js';
+import { collect, requireSources } from './output.js';
+import type { Budget, BudgetScope, ScanOptions, UsageReport } from '../types.js';
+
+const DEFAULT_ALERT_PERCENT = 80;
+
+// Exit code of `budget check` when a budget crosses its threshold, so hooks can tell it from errors
+const BUDGET_EXCEEDED_EXIT_CODE = 2;
+
+type BudgetStatus = 'ok' | 'projected' | 'alert' | 'over';
+
+interface BudgetScopeOptions {
+  project?: string;
+  host?: string;
+}
+
+interface BudgetSetOptions extends BudgetScopeOptions {
+  alert?: number;
+}
+
+interface BudgetCheckOptions extends Pick<ScanOptions, 'source' | 'root' | 'dataDir' | 'cache' | 'json'> {
+  projected?: boolean;
+}
+
+export interface BudgetResult extends Budget {
+  spent: number;
+  projected: number;
+  used_percent: number;
+  status: BudgetStatus;
+}
+
+const STATUS_COLORS: Record<BudgetStatus, (text: string) => string> = {
+  ok: chalk.green,
+  projected: chalk.yellow,
+  alert: chalk.red,
+  over: chalk.bgRed.white,
+};
+
+function budgetLabel(budget: Pick<Budget, 'scope' | 'name'>): string {
+  return budget.scope === 'total' ? 'total' : `${budget.scope}:${budget.name}`;
+}
+
+function sameScope(a: Pick<Budget, 'scope' | 'name'>, b: Pick<Budget, 'scope' | 'name'>): boolean {
+  return a.scope === b.scope && (a.name || '') === (b.name || '');
+}
+
+/**
+ * Turn `--project` / `--host` into a budget scope, exiting if both are given
+ */
+function resolveScope(options: BudgetScopeOptions): Pick<Budget, 'scope' | 'name'> {
+  if (options.project && options.host) {
+    console.error(chalk.red('\n❌ A budget covers either a project or a host, not both.\n'));
+    process.exit(1);
+  }
+  const scope: BudgetScope = options.project ? 'project' : options.host ? 'host' : 'total';
+  return scope === 'total' ? { scope } : { scope, name: options.project || options.host };
+}
+
+function readBudgets(): Budget[] {
+  try {
+    return loadBudgets();
+  } catch (err) {
+    console.error(chalk.red(`\n❌ Failed to read budgets: ${err}`));
+    console.error(chalk.gray(`   Fix or delete ${getBudgetsPath()}\n`));
+    process.exit(1);
+  }
+}
+
+/**
+ * API-equivalent spend of one budget's scope. Projects match by name or key,
+ * so same-named checkouts in different directories share a budget.
+ */
+function scopeSpend(report: UsageReport, budget: Budget): number {
+  if (budget.scope === 'project') {
+    return Object.entries(report.usage.by_project || {})
+      .filter(([key, project]) => project.name === budget.name || key === budget.name)
+      .reduce((sum, [, project]) => sum + project.cost, 0);
+  }
+  if (budget.scope === 'host') {
+    return report.usage.by_host?.[budget.name || '']?.cost || 0;
+  }
+  return calculateReportCost(report);
+}
+
+/**
+ * Compare month-to-date spend against each budget. The projection extends the
+ * average daily spend so far (today counted as a full day) to the whole month.
+ */
+export function checkBudgets(report: UsageReport, budgets: Budget[], day: number, daysInMonth: number): BudgetResult[] {
+  return budgets.map((budget) => {
+    const spent = scopeSpend(report, budget);
+    const projected = (spent / day) * daysInMonth;
+    const usedPercent = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
+    let status: BudgetStatus = 'ok';
+    if (spent >= budget.amount) status = 'over';
+    else if (usedPercent >= budget.alert) status = 'alert';
+    else if (projected >= budget.amount) status = 'projected';
+    return { ...budget, spent, projected, used_percent: usedPercent, status };
+  });
+}
+
+function printBudgetList(budgets: Budget[]): void {
+  console.log(chalk.gray(`   ${'Budget'.padEnd(28)} ${'Monthly'.padStart(10)} ${'Alert at'.padStart(9)}`));
+  for (const budget of budgets) {
+    console.log(
+      `   ${chalk.white(budgetLabel(budget).padEnd(28))} ${chalk.green(`$${budget.amount.toFixed(2)}`.padStart(10))} ${`${budget.alert}%`.padStart(9)}`
+    );
+  }
+}
+
+export const budgetCommand = new Command('budget')
+  .description('Set monthly spending budgets and check usage against them');
+
+budgetCommand
+  .command('set')
+  .description('Set the monthly budget for everything, a project or a host')
+  .argument('<amount>', 'Monthly budget in USD (API-equivalent cost)')
+  .option('--project <name>', 'Budget one project, by name or key as shown by --by-project')
+  .option('--host <label>', 'Budget one host, by its --data-dir label')
+  .option('--alert <percent>', `Percent of the budget at which check fails (default: ${DEFAULT_ALERT_PERCENT})`, parseFloat)
+  .action((amountArg: string, options: BudgetSetOptions) => {
+    const amount = Number(amountArg);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      console.error(chalk.red(`\n❌ Invalid amount: ${amountArg}`));
+      console.error(chalk.gray('   Give a positive USD amount, e.g. `llm-usage budget set 150`\n'));
+      process.exit(1);
+    }
+    const alert = options.alert ?? DEFAULT_ALERT_PERCENT;
+    if (!Number.isFinite(alert) || alert <= 0) {
+      console.error(chalk.red(`\n❌ Invalid alert threshold: ${options.alert}`));
+      console.error(chalk.gray('   Give a percentage of the budget, e.g. --alert 90\n'));
+      process.exit(1);
+    }
+
+    const scope = resolveScope(options);
+    const budget: Budget = { ...scope, amount, alert };
+    const budgets = readBudgets();
+    const existing = budgets.findIndex((b) => sameScope(b, budget));
+    if (existing >= 0) budgets[existing] = budget;
+    else budgets.push(budget);
+
+    try {
+      saveBudgets(budgets);
+    } catch (err) {
+      console.error(chalk.red(`\n❌ Failed to save budgets: ${err}`));
+      process.exit(1);
+    }
+    console.log(
+      chalk.green(`\n✅ Budget ${existing >= 0 ? 'updated' : 'set'}: ${budgetLabel(budget)} $${amount.toFixed(2)}/month, alert at ${alert}%`)
+    );
+    console.log(chalk.gray(`   Saved to ${getBudgetsPath()}\n`));
+  });
+
+budgetCommand
+  .command('remove')
+  .description('Remove the budget for everything, a project or a host')
+  .option('--project <name>', 'Remove the budget of this project')
+  .option('--host <label>', 'Remove the budget of this host')
+  .action((options: BudgetScopeOptions) => {
+    const scope = resolveScope(options);
+    const budgets = readBudgets();
+    const remaining = budgets.filter((b) => !sameScope(b, scope));
+    if (remaining.length === budgets.length) {
+      console.log(chalk.gray(`\n   No budget set for ${budgetLabel(scope)}\n`));
+      return;
+    }
+
+    try {
+      saveBudgets(remaining);
+    } catch (err) {
+      console.error(chalk.red(`\n❌ Failed to save budgets: ${err}`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`\n✅ Budget removed: ${budgetLabel(scope)}\n`));
+  });
+
+budgetCommand
+  .command('list')
+  .description('Show the saved budgets')
+  .option('--json', 'Output JSON to stdout')
+  .action((options: { json?: boolean }) => {
+    const budgets = readBudgets();
+    if (options.json) {
+      console.log(JSON.stringify(budgets, null, 2));
+      return;
+    }
+    if (budgets.length === 0) {
+      console.log(chalk.gray(`\n   No budgets set. Add one with \`llm-usage budget set <amount>\`\n`));
+      return;
+    }
+
+    console.log(chalk.cyan('\n💰 Budgets\n'));
+    printBudgetList(budgets);
+    console.log(chalk.gray(`\n   Stored in ${getBudgetsPath()}\n`));
+  });
+
+budgetCommand
+  .command('check')
+  .description(`Scan this month's usage and exit with code ${BUDGET_EXCEEDED_EXIT_CODE} if a budget crosses its alert threshold`)
+  .option('-s, --source <names>', 'Data sources: auto or a comma-separated list of claude, codex, gemini, aider, continue (default: auto)')
+  .option('--root <dir>', 'Also search this directory for Aider and Continue logs (repeatable)', collect, [])
+  .option('--data-dir <dir>', 'Claude data directory to scan, optionally label=path (repeatable; implies --source claude)', collect, [])
+  .option('--projected', 'Also fail when the month-end projection exceeds a budget')
+  .option('--no-cache', 'Re-read every transcript instead of using the scan cache')
+  .option('--json', 'Output JSON to stdout')
+  .action(async (options: BudgetCheckOptions) => {
+    const budgets = readBudgets();
+    if (budgets.length === 0) {
+      console.error(chalk.red('\n❌ No budgets set.'));
+      console.error(chalk.gray('   Add one with `llm-usage budget set <amount>`\n'));
+      process.exit(1);
+    }
+
+    // Calendar month in the system time zone
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const day = now.getDate();
+    const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+
+    const scanOptions: ScanOptions = {
+      source: options.source,
+      root: options.root,
+      dataDir: options.dataDir,
+      cache: options.cache,
+      startDate: monthStart.toISOString(),
+    };
+    const { report } = await scanSources(requireSources(scanOptions), scanOptions);
+    const results = checkBudgets(report, budgets, day, daysInMonth);
+    const failing = results.filter((r) => r.status === 'alert' || r.status === 'over' || (options.projected && r.status === 'projected'));
+
+    if (options.json) {
+      console.log(JSON.stringify({ month, day, days_in_month: daysInMonth, budgets: results }, null, 2));
+    } else {
+      const monthName = monthStart.toLocaleString('en-US', { month: 'long', year: 'numeric' });
+      console.log(chalk.cyan(`\n💰 Budget Check — ${monthName} (day ${day} of ${daysInMonth})\n`));
+      console.log(
+        chalk.gray(`   ${'Budget'.padEnd(28)} ${'Spent'.padStart(10)} ${'Budget'.padStart(10)} ${'Used'.padStart(6)} ${'Projected'.padStart(10)}  Status`)
+      );
+      for (const result of results) {
+        console.log(
+          `   ${chalk.white(budgetLabel(result).padEnd(28))} ${chalk.green(`$${result.spent.toFixed(2)}`.padStart(10))} ${`$${result.amount.toFixed(2)}`.padStart(10)} ${`${result.used_percent.toFixed(0)}%`.padStart(6)} ${`$${result.projected.toFixed(2)}`.padStart(10)}  ${STATUS_COLORS[result.status](result.status)}`
+        );
+      }
+      console.log('');
+
+      for (const result of failing) {
+        const reason = result.status === 'over'
+          ? `is over budget ($${result.spent.toFixed(2)} of $${result.amount.toFixed(2)})`
+          : result.status === 'alert'
+            ? `has used ${result.used_percent.toFixed(0)}% of its budget (alert at ${result.alert}%)`
+            : `is projected to reach $${result.projected.toFixed(2)} of $${result.amount.toFixed(2)} this month`;
+        console.error(chalk.red(`❌ ${budgetLabel(result)} ${reason}`));
+      }
+      if (failing.length > 0) console.error('');
+    }
+
+    if (failing.length > 0) process.exit(BUDGET_EXCEEDED_EXIT_CODE);
+  });
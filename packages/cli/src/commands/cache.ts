@@ -0,0 +1,45 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import { clearScanCache, getCachePath, getCacheSize, loadScanCache } from '../cache.js';
+
+export const cacheCommand = new Command('cache')
+  .description('Inspect or clear the incremental scan cache');
+
+cacheCommand
+  .command('clear')
+  .description('Delete the scan cache so the next scan re-reads every transcript')
+  .action(() => {
+    try {
+      if (clearScanCache()) {
+        console.log(chalk.green(`\n✅ Scan cache cleared: ${getCachePath()}\n`));
+      } else {
+        console.log(chalk.gray(`\n   No scan cache found at ${getCachePath()}\n`));
+      }
+    } catch (err) {
+      console.error(chalk.red(`\n❌ Failed to clear scan cache: ${err}`));
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('info')
+  .description('Show where the scan cache lives and how much it holds')
+  .action(() => {
+    const cachePath = getCachePath();
+    if (!fs.existsSync(cachePath)) {
+      console.log(chalk.gray(`\n   No scan cache found at ${cachePath}\n`));
+      return;
+    }
+
+    const cache = loadScanCache();
+    const files = Object.values(cache.files);
+    const records = files.reduce((sum, f) => sum + f.records, 0);
+    const sizeKb = getCacheSize() / 1024;
+
+    console.log(chalk.cyan('\n🗂️  Scan Cache\n'));
+    console.log(`   ${chalk.white('Location:')} ${cachePath}`);
+    console.log(`   ${chalk.white('Size:')}     ${sizeKb.toFixed(1)} KB`);
+    console.log(`   ${chalk.white('Files:')}    ${files.length}`);
+    console.log(`   ${chalk.white('Records:')}  ${records}\n`);
+  });
@@ -0,0 +1,245 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as path from 'path';
+import { formatTokens } from '../parsers/index.js';
+import { calculateAPICost, calculateModelCosts } from './analyze.js';
+import { readReport } from './output.js';
+import type { DayUsage, UsageReport } from '../types.js';
+
+const MAX_DAY_ROWS = 10;
+
+export interface Delta {
+  before: number;
+  after: number;
+  change: number;
+  percent: number | null; // null when `before` is zero
+}
+
+export interface ModelMixChange {
+  model: string;
+  before_share: number; // Share of the report's input + output tokens, 0-1
+  after_share: number;
+  before_cost: number;
+  after_cost: number;
+}
+
+export interface DayChange {
+  date: string;
+  before: number; // Messages
+  after: number;
+}
+
+export interface ReportDiff {
+  before: { file: string; period: UsageReport['period'] };
+  after: { file: string; period: UsageReport['period'] };
+  tokens: Record<'input' | 'output' | 'cache_read' | 'cache_write' | 'total', Delta>;
+  cost: Delta;
+  messages: Delta;
+  sessions: Delta;
+  models: ModelMixChange[];
+  days: {
+    shared: number;
+    overlap_start?: string; // First and last date present in both reports
+    overlap_end?: string;
+    only_before: number;
+    only_after: number;
+    changed: DayChange[]; // Shared days whose message counts differ
+  };
+}
+
+interface DiffOptions {
+  json?: boolean;
+  markdown?: boolean;
+}
+
+function delta(before: number, after: number): Delta {
+  return { before, after, change: after - before, percent: before !== 0 ? ((after - before) / before) * 100 : null };
+}
+
+function totalTokens(report: UsageReport): number {
+  return report.usage.tokens.input + report.usage.tokens.output;
+}
+
+function modelShares(report: UsageReport): Record<string, number> {
+  const total = totalTokens(report);
+  const shares: Record<string, number> = {};
+  for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
+    shares[model] = total > 0 ? (tokens.input + tokens.output) / total : 0;
+  }
+  return shares;
+}
+
+function compareDays(before: DayUsage[], after: DayUsage[]): ReportDiff['days'] {
+  const beforeDays = new Map(before.map((d) => [d.date, d]));
+  const afterDays = new Map(after.map((d) => [d.date, d]));
+  const shared = [...beforeDays.keys()].filter((date) => afterDays.has(date)).sort();
+
+  return {
+    shared: shared.length,
+    overlap_start: shared[0],
+    overlap_end: shared[shared.length - 1],
+    only_before: beforeDays.size - shared.length,
+    only_after: afterDays.size - shared.length,
+    changed: shared
+      .map((date) => ({ date, before: beforeDays.get(date)!.count, after: afterDays.get(date)!.count }))
+      .filter((day) => day.before !== day.after),
+  };
+}
+
+/**
+ * Compare two usage reports, typically monthly snapshots of the same machine or team
+ */
+export function diffReports(before: UsageReport, after: UsageReport, files: [string, string]): ReportDiff {
+  const tokensBefore = before.usage.tokens;
+  const tokensAfter = after.usage.tokens;
+  const beforeShares = modelShares(before);
+  const afterShares = modelShares(after);
+  const beforeCosts = calculateModelCosts(before);
+  const afterCosts = calculateModelCosts(after);
+
+  const models = [...new Set([...Object.keys(beforeShares), ...Object.keys(afterShares)])]
+    .map((model) => ({
+      model,
+      before_share: beforeShares[model] || 0,
+      after_share: afterShares[model] || 0,
+      before_cost: beforeCosts[model] || 0,
+      after_cost: afterCosts[model] || 0,
+    }))
+    .sort((a, b) => b.after_share - a.after_share || b.before_share - a.before_share);
+
+  return {
+    before: { file: files[0], period: before.period },
+    after: { file: files[1], period: after.period },
+    tokens: {
+      input: delta(tokensBefore.input, tokensAfter.input),
+      output: delta(tokensBefore.output, tokensAfter.output),
+      cache_read: delta(tokensBefore.cache_read || 0, tokensAfter.cache_read || 0),
+      cache_write: delta(tokensBefore.cache_write || 0, tokensAfter.cache_write || 0),
+      total: delta(totalTokens(before), totalTokens(after)),
+    },
+    cost: delta(calculateAPICost(before), calculateAPICost(after)),
+    messages: delta(before.usage.messages.count, after.usage.messages.count),
+    sessions: delta(before.usage.sessions.count, after.usage.sessions.count),
+    models,
+    days: compareDays(before.usage.messages.by_day || [], after.usage.messages.by_day || []),
+  };
+}
+
+type Format = (value: number) => string;
+
+const formatCost: Format = (value) => `$${value.toFixed(2)}`;
+const formatCount: Format = (value) => value.toLocaleString('en-US');
+const formatShare: Format = (value) => `${(value * 100).toFixed(1)}%`;
+
+function formatChange(d: Delta, format: Format): string {
+  const sign = d.change > 0 ? '+' : d.change < 0 ? '-' : '±';
+  const percent = d.percent !== null ? ` (${d.percent >= 0 ? '+' : ''}${d.percent.toFixed(1)}%)` : '';
+  return `${sign}${format(Math.abs(d.change))}${percent}`;
+}
+
+function formatPeriod(period: UsageReport['period']): string {
+  return `${period.start.slice(0, 10)} – ${period.end.slice(0, 10)}`;
+}
+
+function metricRows(diff: ReportDiff): Array<[string, Delta, Format]> {
+  return [
+    ['Input tokens', diff.tokens.input, formatTokens],
+    ['Output tokens', diff.tokens.output, formatTokens],
+    ['Cache read', diff.tokens.cache_read, formatTokens],
+    ['Cache write', diff.tokens.cache_write, formatTokens],
+    ['Total tokens', diff.tokens.total, formatTokens],
+    ['API cost', diff.cost, formatCost],
+    ['Messages', diff.messages, formatCount],
+    ['Sessions', diff.sessions, formatCount],
+  ];
+}
+
+function describeDays(days: ReportDiff['days']): string {
+  const overlap = days.shared > 0
+    ? `${days.shared} shared day${days.shared !== 1 ? 's' : ''} (${days.overlap_start} – ${days.overlap_end})`
+    : 'No shared days';
+  return `${overlap}, ${days.only_before} only in before, ${days.only_after} only in after`;
+}
+
+function printDiff(diff: ReportDiff): void {
+  console.log(chalk.cyan('\n📊 Usage Report Diff\n'));
+  console.log(`   ${chalk.white('Before:')} ${diff.before.file} ${chalk.gray(formatPeriod(diff.before.period))}`);
+  console.log(`   ${chalk.white('After:')}  ${diff.after.file} ${chalk.gray(formatPeriod(diff.after.period))}\n`);
+
+  console.log(chalk.gray(`   ${'Metric'.padEnd(14)} ${'Before'.padStart(10)} ${'After'.padStart(10)}   Change`));
+  for (const [label, d, format] of metricRows(diff)) {
+    const change = formatChange(d, format);
+    console.log(
+      `   ${chalk.white(label.padEnd(14))} ${format(d.before).padStart(10)} ${format(d.after).padStart(10)}   ${d.change > 0 ? chalk.yellow(change) : d.change < 0 ? chalk.green(change) : chalk.gray(change)}`
+    );
+  }
+
+  console.log(`\n${chalk.white('   Model Mix')} ${chalk.gray('(share of input + output tokens)')}`);
+  console.log(chalk.gray(`   ${'Model'.padEnd(32)} ${'Before'.padStart(7)} ${'After'.padStart(7)} ${'Cost before'.padStart(12)} ${'Cost after'.padStart(11)}`));
+  for (const model of diff.models) {
+    const name = model.model.length > 32 ? `…${model.model.slice(-31)}` : model.model;
+    console.log(
+      `   ${chalk.white(name.padEnd(32))} ${formatShare(model.before_share).padStart(7)} ${formatShare(model.after_share).padStart(7)} ${formatCost(model.before_cost).padStart(12)} ${formatCost(model.after_cost).padStart(11)}`
+    );
+  }
+
+  console.log(`\n${chalk.white('   Days')}`);
+  console.log(`   ${describeDays(diff.days)}`);
+  if (diff.days.changed.length > 0) {
+    console.log(chalk.yellow(`   ${diff.days.changed.length} shared day${diff.days.changed.length !== 1 ? 's have' : ' has'} different message counts:`));
+    for (const day of diff.days.changed.slice(0, MAX_DAY_ROWS)) {
+      console.log(chalk.gray(`     ${day.date}  ${day.before} → ${day.after}`));
+    }
+    if (diff.days.changed.length > MAX_DAY_ROWS) {
+      console.log(chalk.gray(`     ...and ${diff.days.changed.length - MAX_DAY_ROWS} more`));
+    }
+  }
+  console.log('');
+}
+
+function markdownDiff(diff: ReportDiff): string {
+  const lines = [
+    `## Usage diff: ${path.basename(diff.before.file)} → ${path.basename(diff.after.file)}`,
+    '',
+    `Before: ${formatPeriod(diff.before.period)} · After: ${formatPeriod(diff.after.period)}`,
+    '',
+    '| Metric | Before | After | Change |',
+    '| --- | ---: | ---: | ---: |',
+    ...metricRows(diff).map(([label, d, format]) => `| ${label} | ${format(d.before)} | ${format(d.after)} | ${formatChange(d, format)} |`),
+    '',
+    '### Model mix',
+    '',
+    '| Model | Share before | Share after | Cost before | Cost after |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...diff.models.map(
+      (m) => `| ${m.model} | ${formatShare(m.before_share)} | ${formatShare(m.after_share)} | ${formatCost(m.before_cost)} | ${formatCost(m.after_cost)} |`
+    ),
+    '',
+    '### Days',
+    '',
+    `${describeDays(diff.days)}.`,
+  ];
+  if (diff.days.changed.length > 0) {
+    lines.push('', '| Shared day | Messages before | Messages after |', '| --- | ---: | ---: |');
+    lines.push(...diff.days.changed.map((day) => `| ${day.date} | ${day.before} | ${day.after} |`));
+  }
+  return lines.join('\n');
+}
+
+export const diffCommand = new Command('diff')
+  .description('Compare two usage reports: tokens, cost, messages, sessions, model mix and days')
+  .argument('<before>', 'Earlier usage report JSON file')
+  .argument('<after>', 'Later usage report JSON file')
+  .option('--json', 'Output the diff as JSON')
+  .option('--markdown', 'Output the diff as Markdown tables')
+  .action((beforeFile: string, afterFile: string, options: DiffOptions) => {
+    const diff = diffReports(readReport(beforeFile), readReport(afterFile), [beforeFile, afterFile]);
+
+    if (options.json) {
+      console.log(JSON.stringify(diff, null, 2));
+    } else if (options.markdown) {
+      console.log(markdownDiff(diff));
+    } else {
+      printDiff(diff);
+    }
+  });
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calculateReportCost } from '@llm-usage/core';
+import { findOverlaps, mergeReports, tagOrigin } from '../merge.js';
+import { printOriginTable, readReport } from './output.js';
+import type { UsageReport } from '../types.js';
+
+interface MergeOptions {
+  output?: string;
+  json?: boolean;
+  allowOverlap?: boolean;
+}
+
+interface MergeInput {
+  label: string;
+  file: string;
+  report: UsageReport;
+}
+
+/**
+ * Read a `merge` argument: a report file, or `label=file` to name the user or host it came from
+ */
+function readInput(value: string, taken: Map<string, string>): MergeInput {
+  const match = value.match(/^([^=/\\]+)=(.+)$/);
+  const file = match ? match[2] : value;
+  const report = readReport(file);
+
+  // Without a label, a report from one machine is named after it, otherwise after the file
+  const hosts = Object.keys(report.usage.by_host || {});
+  let label = match ? match[1] : hosts.length === 1 ? hosts[0] : path.basename(file, path.extname(file));
+  if (!match && taken.has(label) && taken.get(label) !== path.resolve(file)) {
+    label = file;
+  }
+  taken.set(label, path.resolve(file));
+  return { label, file, report };
+}
+
+export const mergeCommand = new Command('merge')
+  .description('Combine usage reports from several machines or teammates into one team report')
+  .argument('<reports...>', 'Usage report JSON files, each optionally label=file to name its user or host')
+  .option('-o, --output <file>', 'Output file path (default: team_report.json)')
+  .option('--json', 'Output the merged report to stdout')
+  .option('--allow-overlap', 'Merge reports that share sessions anyway (shared sessions are counted twice)')
+  .action((values: string[], options: MergeOptions) => {
+    const taken = new Map<string, string>();
+    let inputs = values.map((value) => readInput(value, taken));
+    const warn = (message: string) => console.error(chalk.yellow(`⚠️  ${message}`));
+
+    // The same report passed twice is dropped; partly overlapping scans need a decision
+    const overlaps = findOverlaps(inputs);
+    const skipped = new Set<number>();
+    for (const overlap of overlaps) {
+      if (overlap.identical && !skipped.has(overlap.indexes[1])) {
+        skipped.add(overlap.indexes[1]);
+        warn(`${overlap.second} is identical to ${overlap.first}; skipping it`);
+      }
+    }
+    inputs = inputs.filter((_, index) => !skipped.has(index));
+
+    const partial = overlaps.filter((o) => !o.identical && !skipped.has(o.indexes[0]) && !skipped.has(o.indexes[1]));
+    if (partial.length > 0) {
+      for (const overlap of partial) {
+        const message = `${overlap.first} and ${overlap.second} share ${overlap.shared_sessions.length} session${overlap.shared_sessions.length !== 1 ? 's' : ''}`;
+        if (options.allowOverlap) warn(`${message}; they are counted twice`);
+        else console.error(chalk.red(`\n❌ ${message}`));
+      }
+      if (!options.allowOverlap) {
+        console.error(chalk.gray('   They were scanned from the same transcripts, so merging would double count them.'));
+        console.error(chalk.gray('   Re-scan with non-overlapping --start-date/--end-date, or pass --allow-overlap.\n'));
+        process.exit(1);
+      }
+    }
+
+    const report = mergeReports(inputs.map((input) => tagOrigin(input.report, input.label, path.basename(input.file))));
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const outputPath = path.resolve(options.output || 'team_report.json');
+    fs.writeFileSync(outputPath, JSON.stringify(report, null, 2));
+
+    console.log(chalk.cyan(`\n🧩 Merged ${inputs.length} report${inputs.length !== 1 ? 's' : ''}\n`));
+    console.log(`   ${chalk.white('Period:')}   ${report.period.start.slice(0, 10)} to ${report.period.end.slice(0, 10)}`);
+    console.log(`   ${chalk.white('Messages:')} ${report.usage.messages.count}`);
+    console.log(`   ${chalk.white('Sessions:')} ${report.usage.sessions.count}`);
+    console.log(`   ${chalk.white('API cost:')} ${chalk.green(`$${calculateReportCost(report).toFixed(2)}`)}\n`);
+    printOriginTable(report, '   ');
+
+    console.log(chalk.green(`\n✅ Team report saved to: ${outputPath}`));
+    console.log(chalk.gray('   Open it in the dashboard or run `llm-usage analyze ' + path.basename(outputPath) + '`\n'));
+  });
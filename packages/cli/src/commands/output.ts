@@ -0,0 +1,200 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatSchemaErrors, resolvePlans, validateUsageReport, type PlanDefinition } from '@llm-usage/core';
+import { getPlansPath, loadPlans } from '../config.js';
+import type { ParseProgress, ScanOptions, UsageBreakdown, UsageReport } from '../types.js';
+import { isValidTimeZone } from '../timezone.js';
+import {
+  formatTokens,
+  resolveSources,
+  sourceDataExists,
+  sourceLabel,
+  getSourceDataPath,
+  USAGE_SOURCES,
+  type UsageSource,
+} from '../parsers/index.js';
+
+const MAX_PROJECT_ROWS = 20;
+
+/**
+ * Commander reducer for options that can be given more than once
+ */
+export function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Read a report file, exiting with a hint when it is missing, malformed or
+ * fails schema validation
+ */
+export function readReport(file: string | undefined): UsageReport {
+  const inputPath = path.resolve(file || 'usage_report.json');
+
+  if (!fs.existsSync(inputPath)) {
+    console.error(chalk.red(`\n❌ File not found: ${inputPath}`));
+    console.error(chalk.gray('   Run `llm-usage scan` first to generate a report.\n'));
+    process.exit(1);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  } catch (err) {
+    console.error(chalk.red(`\n❌ Failed to parse report: ${err}`));
+    process.exit(1);
+  }
+
+  // Older reports are migrated to the current schema; anything else must match it
+  const { valid, errors, report } = validateUsageReport(json);
+  if (!valid) {
+    console.error(chalk.red(`\n❌ Not a valid usage report: ${inputPath}`));
+    for (const line of formatSchemaErrors(errors)) {
+      console.error(chalk.gray(`   ${line}`));
+    }
+    console.error(chalk.gray('   Reports are written by `llm-usage scan`; see `llm-usage schema` for the format.\n'));
+    process.exit(1);
+  }
+  return report as UsageReport;
+}
+
+/**
+ * The built-in plans with plans.json applied, exiting with a hint when the file is invalid
+ */
+export function readPlans(): PlanDefinition[] {
+  try {
+    return resolvePlans(loadPlans());
+  } catch (err) {
+    console.error(chalk.red(`\n❌ Failed to read plans: ${err instanceof Error ? err.message : err}`));
+    console.error(chalk.gray(`   Fix or delete ${getPlansPath()}\n`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the per-project table shared by `scan --by-project` and `analyze --by-project`
+ */
+export function printProjectTable(report: UsageReport, indent = '  '): void {
+  const projects = Object.values(report.usage.by_project || {})
+    .sort((a, b) => b.cost - a.cost);
+
+  if (projects.length === 0) {
+    console.log(chalk.gray(`${indent}No per-project data in this report.`));
+    console.log(chalk.gray(`${indent}Re-run \`llm-usage scan\` to include it.`));
+    return;
+  }
+
+  console.log(
+    chalk.gray(
+      `${indent}${'Project'.padEnd(28)} ${'Sessions'.padStart(8)} ${'Messages'.padStart(9)} ${'Tokens'.padStart(9)} ${'Cost'.padStart(10)}`
+    )
+  );
+
+  for (const project of projects.slice(0, MAX_PROJECT_ROWS)) {
+    const name = project.name.length > 28 ? `…${project.name.slice(-27)}` : project.name;
+    const tokens = project.tokens.input + project.tokens.output;
+    console.log(
+      `${indent}${chalk.white(name.padEnd(28))} ${String(project.sessions).padStart(8)} ${String(project.messages).padStart(9)} ${chalk.cyan(formatTokens(tokens).padStart(9))} ${chalk.green(`$${project.cost.toFixed(2)}`.padStart(10))}`
+    );
+  }
+
+  if (projects.length > MAX_PROJECT_ROWS) {
+    console.log(chalk.gray(`${indent}...and ${projects.length - MAX_PROJECT_ROWS} more`));
+  }
+}
+
+function printUsageTable(
+  heading: string,
+  entries: Array<[string, UsageBreakdown & { sessions: number }]>,
+  indent: string
+): void {
+  console.log(
+    chalk.gray(
+      `${indent}${heading.padEnd(20)} ${'Sessions'.padStart(8)} ${'Messages'.padStart(9)} ${'Tokens'.padStart(9)} ${'Cost'.padStart(10)}`
+    )
+  );
+
+  for (const [label, usage] of [...entries].sort(([, a], [, b]) => b.cost - a.cost)) {
+    const name = label.length > 20 ? `…${label.slice(-19)}` : label;
+    const tokens = usage.tokens.input + usage.tokens.output;
+    console.log(
+      `${indent}${chalk.white(name.padEnd(20))} ${String(usage.sessions).padStart(8)} ${String(usage.messages).padStart(9)} ${chalk.cyan(formatTokens(tokens).padStart(9))} ${chalk.green(`$${usage.cost.toFixed(2)}`.padStart(10))}`
+    );
+  }
+}
+
+/**
+ * Print the per-machine table shared by `scan` and `analyze` for multi-host reports
+ */
+export function printHostTable(report: UsageReport, indent = '  '): void {
+  printUsageTable('Host', Object.entries(report.usage.by_host || {}), indent);
+}
+
+/**
+ * Print the per-origin table shared by `merge` and `analyze` for team reports
+ */
+export function printOriginTable(report: UsageReport, indent = '  '): void {
+  printUsageTable('Origin', Object.entries(report.usage.by_origin || {}), indent);
+}
+
+/**
+ * Resolve `--source` for scan and serve, exiting with a hint if there is no data to read
+ */
+export function requireSources(options: ScanOptions, indent = '   ', lead = '❌ '): UsageSource[] {
+  const { sources, unknown } = resolveSources(options.source, options);
+
+  if (unknown.length > 0) {
+    console.error(chalk.red(`\n${lead}Unknown source: ${unknown.join(', ')}`));
+    console.error(chalk.gray(`${indent}Use auto or a comma-separated list of: ${USAGE_SOURCES.join(', ')}\n`));
+    process.exit(1);
+  }
+
+  if (sources.length === 0) {
+    console.error(chalk.red(`\n${lead}No local usage data found.`));
+    for (const s of USAGE_SOURCES) {
+      console.error(chalk.gray(`${indent}${sourceLabel(s)}: ${getSourceDataPath(s, options)}`));
+    }
+    console.error(chalk.gray(`${indent}Make sure a supported agent is installed and you have used it.\n`));
+    process.exit(1);
+  }
+
+  const missing = sources.find((source) => !sourceDataExists(source, options));
+  if (missing) {
+    console.error(chalk.red(`\n${lead}${sourceLabel(missing)} data not found.`));
+    console.error(chalk.gray(`${indent}Expected location: ${getSourceDataPath(missing, options)}`));
+    console.error(chalk.gray(`${indent}Make sure ${sourceLabel(missing)} is installed and you have used it.\n`));
+    process.exit(1);
+  }
+
+  return sources;
+}
+
+/**
+ * Exit with a hint if `--tz` is not an IANA time zone
+ */
+export function requireTimeZone(options: Pick<ScanOptions, 'tz'>, indent = '   ', lead = '❌ '): void {
+  if (options.tz && !isValidTimeZone(options.tz)) {
+    console.error(chalk.red(`\n${lead}Unknown time zone: ${options.tz}`));
+    console.error(chalk.gray(`${indent}Use an IANA name such as UTC, Europe/Berlin or America/New_York\n`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Warn about transcripts that could not be read. The messages themselves are
+ * only listed with `--verbose`. Goes to stderr so JSON output stays parseable.
+ */
+export function printScanErrors(progress: ParseProgress, verbose = false): void {
+  if (verbose && progress.errors.length > 0) {
+    console.error(chalk.yellow('\n⚠️  Some errors occurred:'));
+    progress.errors.slice(0, 5).forEach((err) => {
+      console.error(chalk.gray(`   ${err}`));
+    });
+    if (progress.errors.length > 5) {
+      console.error(chalk.gray(`   ...and ${progress.errors.length - 5} more`));
+    }
+  } else if (progress.filesSkipped > 0) {
+    const n = progress.filesSkipped;
+    console.error(chalk.yellow(`\n⚠️  ${n} file${n !== 1 ? 's' : ''} skipped (unreadable or corrupt), rerun with --verbose for details`));
+  }
+}
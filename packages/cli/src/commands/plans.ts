@@ -0,0 +1,64 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { isCustomPlan, monthlyPrice, PLANS_FILE_VERSION, type PlanDefinition } from '@llm-usage/core';
+import { getPlansPath, loadPlans } from '../config.js';
+import { readPlans } from './output.js';
+
+interface PlansOptions {
+  json?: boolean;
+}
+
+// Shown as a starting point when there is no plans.json yet
+const EXAMPLE_PLANS = {
+  version: PLANS_FILE_VERSION,
+  plans: [
+    { name: 'Claude Pro', limits: { daily: 120 } },
+    { name: 'Team Standard', price_usd: 300, billing: 'annual', limits: { window: 60, weekly: 1500 }, models: ['sonnet', 'haiku'] },
+  ],
+};
+
+function formatLimit(limit: number | undefined): string {
+  return limit === undefined ? '—' : String(limit);
+}
+
+function formatPrice(plan: PlanDefinition): string {
+  if (plan.billing !== 'annual') return `$${plan.price_usd}/mo`;
+  return `$${plan.price_usd}/yr (≈$${monthlyPrice(plan).toFixed(2)}/mo)`;
+}
+
+export const plansCommand = new Command('plans')
+  .description('List the plans that analyze and watch compare usage against, including your own from plans.json')
+  .option('--json', 'Output the plans as JSON')
+  .action((options: PlansOptions) => {
+    const plans = readPlans();
+    // readPlans already exited if the file is invalid
+    const custom = loadPlans();
+
+    if (options.json) {
+      console.log(JSON.stringify(plans, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan('\n📋 Plans\n'));
+    console.log(
+      chalk.gray(`  ${'Plan'.padEnd(20)} ${'Provider'.padEnd(10)} ${'Price'.padEnd(24)} ${'Day'.padStart(6)} ${'5h'.padStart(6)} ${'Week'.padStart(6)}  Models`)
+    );
+    for (const plan of plans) {
+      const name = isCustomPlan(plan, custom) ? chalk.yellow(`${plan.name}*`.padEnd(20)) : chalk.white(plan.name.padEnd(20));
+      console.log(
+        `  ${name} ${(plan.provider || 'anthropic').padEnd(10)} ${formatPrice(plan).padEnd(24)} ${formatLimit(plan.limits.daily).padStart(6)} ${formatLimit(plan.limits.window).padStart(6)} ${formatLimit(plan.limits.weekly).padStart(6)}  ${chalk.gray(plan.models?.join(', ') || 'all')}`
+      );
+    }
+
+    console.log('');
+    if (custom.length > 0) {
+      console.log(chalk.gray(`  * custom or overridden in ${getPlansPath()}`));
+    } else {
+      console.log(chalk.gray(`  Limits are messages and approximate. To change them or add your own plans, create ${getPlansPath()}:`));
+      for (const line of JSON.stringify(EXAMPLE_PLANS, null, 2).split('\n')) {
+        console.log(chalk.gray(`    ${line}`));
+      }
+      console.log(chalk.gray('  An entry named like a built-in plan overrides only the fields it sets.'));
+    }
+    console.log('');
+  });
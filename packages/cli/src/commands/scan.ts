@@ -4,40 +4,153 @@ import ora from 'ora';
 import * as fs from 'fs';
 import * as path from 'path';
 import {
-  scanClaudeUsage,
-  claudeDataExists,
-  getClaudeDataPath,
+  scanSources,
+  getSourceDataPath,
+  sourceLabel,
   formatTokens,
-} from '../parsers/claude.js';
-import type { ScanOptions } from '../types.js';
+  formatBytes,
+  TOKEN_ESTIMATE_METHOD,
+  type SourceScanResult,
+} from '../parsers/index.js';
+import { collect, printHostTable, printProjectTable, printScanErrors, requireSources, requireTimeZone } from './output.js';
+import type { ParseProgress, ScanOptions, UsageReport } from '../types.js';
+
+/**
+ * Print token, model, project and period summaries for one report
+ */
+function printSummary(report: UsageReport, progress: ParseProgress, options: ScanOptions): void {
+  console.log(`   ${chalk.white('Sessions:')}     ${report.usage.sessions.count}`);
+  console.log(`   ${chalk.white('Messages:')}     ${progress.messagesProcessed}`);
+  const byType = report.usage.messages.by_type;
+  if (byType) {
+    console.log(`   ${chalk.white('Prompts:')}      ${byType.prompts}`);
+    console.log(chalk.gray(`   ${byType.responses} responses, ${byType.tool_results} tool results, ${byType.sidechain} subagent turns`));
+  }
+  if (options.verbose) {
+    console.log(chalk.gray(`   Read ${formatBytes(progress.bytesProcessed)} from disk`));
+    if (progress.duplicatesDropped > 0) {
+      console.log(chalk.gray(`   Dropped ${progress.duplicatesDropped} repeated transcript lines`));
+    }
+    if (progress.filesFromCache > 0) {
+      console.log(chalk.gray(`   ${progress.filesFromCache} of ${progress.filesProcessed} files unchanged since last scan`));
+    }
+  }
+  console.log('');
+
+  const totalTokens = report.usage.tokens.input + report.usage.tokens.output;
+  console.log(`   ${chalk.white('Input Tokens:')}  ${chalk.cyan(formatTokens(report.usage.tokens.input))}`);
+  console.log(`   ${chalk.white('Output Tokens:')} ${chalk.cyan(formatTokens(report.usage.tokens.output))}`);
+  console.log(`   ${chalk.white('Total Tokens:')}  ${chalk.cyan(formatTokens(totalTokens))}`);
+
+  if (report.usage.tokens.cache_read) {
+    console.log(`   ${chalk.white('Cache Reads:')}   ${chalk.gray(formatTokens(report.usage.tokens.cache_read))}`);
+  }
+  if (report.usage.tokens.cache_write) {
+    console.log(`   ${chalk.white('Cache Writes:')}  ${chalk.gray(formatTokens(report.usage.tokens.cache_write))}`);
+  }
+  if (report.usage.tokens.estimated?.length) {
+    console.log(chalk.yellow(`   ≈ ${report.usage.tokens.estimated.join(', ')} include estimates for logs without token counts`));
+    console.log(chalk.gray(`     Counted from the logged text with the ${TOKEN_ESTIMATE_METHOD}`));
+  }
+
+  console.log('');
+  console.log(chalk.white('   📈 By Model'));
+  console.log(chalk.gray('   ' + '─'.repeat(40)));
+
+  const models = Object.entries(report.usage.tokens.by_model)
+    .sort(([, a], [, b]) => (b.input + b.output) - (a.input + a.output));
+
+  for (const [model, tokens] of models) {
+    const modelTotal = tokens.input + tokens.output;
+    const percentage = ((modelTotal / totalTokens) * 100).toFixed(1);
+    const shortModel = model.replace('claude-', '').replace('gpt-', '');
+    console.log(`   ${chalk.gray(shortModel.padEnd(30))} ${chalk.cyan(formatTokens(modelTotal).padStart(8))} ${chalk.gray(`(${percentage}%)`)}`);
+  }
+
+  if (options.byProject) {
+    console.log('');
+    console.log(chalk.white('   📁 By Project'));
+    console.log(chalk.gray('   ' + '─'.repeat(40)));
+    printProjectTable(report, '   ');
+  }
+
+  if (Object.keys(report.usage.by_host || {}).length > 1) {
+    console.log('');
+    console.log(chalk.white('   🖥️  By Host'));
+    console.log(chalk.gray('   ' + '─'.repeat(40)));
+    printHostTable(report, '   ');
+  }
+
+  console.log('');
+  console.log(chalk.white('   📅 Period'));
+  console.log(chalk.gray('   ' + '─'.repeat(40)));
+
+  const startDate = new Date(report.period.start).toLocaleDateString();
+  const endDate = new Date(report.period.end).toLocaleDateString();
+  console.log(`   ${chalk.white('From:')} ${startDate}  ${chalk.white('To:')} ${endDate}`);
+  if (report.usage.messages.estimated_times) {
+    console.log(chalk.yellow('   ≈ Some turns are dated by when their session started, so hours and windows are approximate'));
+  }
+}
+
+/**
+ * Print one line per source in a merged scan
+ */
+function printSourceTable(results: SourceScanResult[]): void {
+  console.log('');
+  console.log(chalk.white('   🔌 By Source'));
+  console.log(chalk.gray('   ' + '─'.repeat(40)));
+  for (const { source, report } of results) {
+    const tokens = report.usage.tokens.input + report.usage.tokens.output;
+    console.log(
+      `   ${chalk.gray(sourceLabel(source).padEnd(20))} ${String(report.usage.messages.count).padStart(7)} msgs ${chalk.cyan(formatTokens(tokens).padStart(8))}`
+    );
+  }
+}
+
+/**
+ * Output path for one source's report with --split, e.g. usage_report.codex.json
+ */
+function splitOutputPath(outputFile: string, result: SourceScanResult): string {
+  const { dir, name, ext } = path.parse(path.resolve(outputFile));
+  return path.join(dir, `${name}.${result.source}${ext || '.json'}`);
+}
 
 export const scanCommand = new Command('scan')
-  .description('Scan Claude Code local data for usage statistics')
+  .description('Scan local coding-agent logs (Claude Code, Codex, Gemini CLI, Aider, Continue) for usage statistics')
+  .option('-s, --source <names>', 'Data sources: auto or a comma-separated list of claude, codex, gemini, aider, continue (default: auto)')
+  .option('--root <dir>', 'Also search this directory for Aider and Continue logs (repeatable)', collect, [])
+  .option('--data-dir <dir>', 'Claude data directory to scan, optionally label=path (repeatable; implies --source claude)', collect, [])
   .option('-d, --days <number>', 'Only include data from the last N days', parseInt)
   .option('--start-date <date>', 'Start date (YYYY-MM-DD)')
   .option('--end-date <date>', 'End date (YYYY-MM-DD)')
+  .option('--tz <zone>', 'IANA time zone for daily and hourly buckets (default: system zone)')
+  .option('--idle-minutes <number>', 'Gap between turns that ends a session\'s active time (default: 5)', parseInt)
   .option('-o, --output <file>', 'Output file path (default: usage_report.json)')
   .option('--json', 'Output raw JSON to stdout (for piping)')
+  .option('--split', 'Write one report per source instead of merging them')
+  .option('--by-project', 'Show a per-project usage table')
+  .option('--no-cache', 'Re-read every transcript instead of using the scan cache')
+  .option('--concurrency <number>', 'Number of transcripts to read in parallel (default: 8)', parseInt)
   .option('-v, --verbose', 'Show detailed progress')
   .action(async (options: ScanOptions) => {
-    // Check if Claude data exists
-    if (!claudeDataExists()) {
-      console.error(chalk.red('\n❌ Claude Code data not found.'));
-      console.error(chalk.gray(`   Expected location: ${getClaudeDataPath()}`));
-      console.error(chalk.gray('   Make sure Claude Code CLI is installed and you have used it.\n'));
-      process.exit(1);
-    }
+    const sources = requireSources(options);
+    requireTimeZone(options);
 
     // JSON mode: quiet output
     if (options.json) {
-      const { report } = await scanClaudeUsage(options);
-      console.log(JSON.stringify(report, null, 2));
+      const { report, progress, results } = await scanSources(sources, options);
+      printScanErrors(progress, options.verbose);
+      const output = options.split ? results.map((r) => r.report) : report;
+      console.log(JSON.stringify(output, null, 2));
       return;
     }
 
     // Interactive mode with progress
     console.log(chalk.cyan('\n🔍 LLM Usage Analyzer - Local Agent\n'));
-    console.log(chalk.gray(`   Scanning: ${getClaudeDataPath()}`));
+    for (const source of sources) {
+      console.log(chalk.gray(`   Scanning: ${sourceLabel(source)} (${getSourceDataPath(source, options)})`));
+    }
 
     if (options.days) {
       console.log(chalk.gray(`   Period: Last ${options.days} days`));
@@ -49,73 +162,59 @@ export const scanCommand = new Command('scan')
 
     const spinner = ora('Scanning projects...').start();
 
-    const { report, progress } = await scanClaudeUsage(options, (p) => {
-      spinner.text = `Scanning... ${p.projectsFound} projects, ${p.filesProcessed} sessions, ${p.messagesProcessed} messages`;
+    const { report, progress, results } = await scanSources(sources, options, (p) => {
+      spinner.text = `Scanning... ${p.projectsFound} projects, ${p.filesProcessed} sessions, ${p.messagesProcessed} messages, ${formatBytes(p.bytesProcessed)} read`;
     });
 
     spinner.stop();
 
-    if (progress.errors.length > 0 && options.verbose) {
-      console.log(chalk.yellow('\n⚠️  Some errors occurred:'));
-      progress.errors.slice(0, 5).forEach((err) => {
-        console.log(chalk.gray(`   ${err}`));
-      });
-      if (progress.errors.length > 5) {
-        console.log(chalk.gray(`   ...and ${progress.errors.length - 5} more`));
-      }
-    }
+    printScanErrors(progress, options.verbose);
 
     if (progress.messagesProcessed === 0) {
       console.log(chalk.yellow('\n⚠️  No usage data found.'));
       console.log(chalk.gray('   This could mean:'));
-      console.log(chalk.gray('   - Claude Code hasn\'t been used yet'));
+      console.log(chalk.gray(`   - ${sources.map(sourceLabel).join(', ')} hasn't been used yet`));
       console.log(chalk.gray('   - The date range doesn\'t contain any data'));
       console.log('');
       return;
     }
 
-    // Print summary
     console.log(chalk.green('\n✅ Scan complete!\n'));
-    console.log(chalk.white('   📊 Usage Summary'));
-    console.log(chalk.gray('   ' + '─'.repeat(40)));
-
-    console.log(`   ${chalk.white('Sessions:')}     ${progress.filesProcessed}`);
-    console.log(`   ${chalk.white('Messages:')}     ${progress.messagesProcessed}`);
-    console.log('');
-
-    const totalTokens = report.usage.tokens.input + report.usage.tokens.output;
-    console.log(`   ${chalk.white('Input Tokens:')}  ${chalk.cyan(formatTokens(report.usage.tokens.input))}`);
-    console.log(`   ${chalk.white('Output Tokens:')} ${chalk.cyan(formatTokens(report.usage.tokens.output))}`);
-    console.log(`   ${chalk.white('Total Tokens:')}  ${chalk.cyan(formatTokens(totalTokens))}`);
+    const outputFile = options.output || 'usage_report.json';
 
-    if (report.usage.tokens.cached && report.usage.tokens.cached > 0) {
-      console.log(`   ${chalk.white('Cached Tokens:')} ${chalk.gray(formatTokens(report.usage.tokens.cached))}`);
-    }
+    // One report per source
+    if (options.split) {
+      const saved: string[] = [];
+      for (const result of results) {
+        if (result.progress.messagesProcessed === 0) continue;
 
-    console.log('');
-    console.log(chalk.white('   📈 By Model'));
-    console.log(chalk.gray('   ' + '─'.repeat(40)));
+        console.log(chalk.white(`   📊 ${sourceLabel(result.source)}`));
+        console.log(chalk.gray('   ' + '─'.repeat(40)));
+        printSummary(result.report, result.progress, options);
+        console.log('');
 
-    const models = Object.entries(report.usage.tokens.by_model)
-      .sort(([, a], [, b]) => (b.input + b.output) - (a.input + a.output));
+        const outputPath = splitOutputPath(outputFile, result);
+        fs.writeFileSync(outputPath, JSON.stringify(result.report, null, 2));
+        saved.push(outputPath);
+      }
 
-    for (const [model, tokens] of models) {
-      const modelTotal = tokens.input + tokens.output;
-      const percentage = ((modelTotal / totalTokens) * 100).toFixed(1);
-      const shortModel = model.replace('claude-', '').replace('gpt-', '');
-      console.log(`   ${chalk.gray(shortModel.padEnd(30))} ${chalk.cyan(formatTokens(modelTotal).padStart(8))} ${chalk.gray(`(${percentage}%)`)}`);
+      console.log(chalk.gray('   ' + '─'.repeat(40)));
+      for (const outputPath of saved) {
+        console.log(chalk.green(`   📄 Report saved: ${outputPath}`));
+      }
+      console.log(chalk.gray('   Upload these files to the web dashboard for analysis.\n'));
+      return;
     }
 
-    console.log('');
-    console.log(chalk.white('   📅 Period'));
+    // Print summary
+    console.log(chalk.white('   📊 Usage Summary'));
     console.log(chalk.gray('   ' + '─'.repeat(40)));
-
-    const startDate = new Date(report.period.start).toLocaleDateString();
-    const endDate = new Date(report.period.end).toLocaleDateString();
-    console.log(`   ${chalk.white('From:')} ${startDate}  ${chalk.white('To:')} ${endDate}`);
+    printSummary(report, progress, options);
+    if (results.length > 1) {
+      printSourceTable(results);
+    }
 
     // Write output file
-    const outputFile = options.output || 'usage_report.json';
     const outputPath = path.resolve(outputFile);
 
     fs.writeFileSync(outputPath, JSON.stringify(report, null, 2));
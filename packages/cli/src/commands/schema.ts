@@ -0,0 +1,18 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { REPORT_SCHEMA_VERSION, USAGE_REPORT_SCHEMA } from '@llm-usage/core';
+import { readReport } from './output.js';
+
+export const schemaCommand = new Command('schema')
+  .description('Print the usage report JSON Schema, or check that a report matches it')
+  .argument('[report]', 'Usage report JSON file to validate')
+  .action((file?: string) => {
+    if (!file) {
+      console.log(JSON.stringify(USAGE_REPORT_SCHEMA, null, 2));
+      return;
+    }
+
+    // readReport exits with the failing field paths
+    readReport(file);
+    console.log(chalk.green(`\n✅ ${file} is a valid v${REPORT_SCHEMA_VERSION} usage report\n`));
+  });
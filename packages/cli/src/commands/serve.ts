@@ -1,75 +1,127 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { createServer, IncomingMessage, ServerResponse } from 'http';
-import { scanClaudeUsage, claudeDataExists, getClaudeDataPath } from '../parsers/claude.js';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { scanSources, getSourceDataPath, sourceLabel, type UsageSource } from '../parsers/index.js';
+import { buildSessionTimeline, findSessions } from '../timeline.js';
+import { collect, requireSources, requireTimeZone } from './output.js';
+import type { ScanOptions } from '../types.js';
 
 const DEFAULT_PORT = 3456;
 
+/**
+ * The local API the web dashboard reads from
+ */
+export function createUsageServer(sources: UsageSource[], options: ScanOptions): Server {
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    // CORS headers for localhost web app
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Content-Type', 'application/json');
+
+    // Handle preflight
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    const url = req.url?.split('?')[0];
+
+    if (url === '/api/health') {
+      res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString() }));
+      console.log(chalk.gray(`  ${new Date().toLocaleTimeString()} GET /api/health - 200`));
+    } else if (url === '/api/usage') {
+      try {
+        const scanOptions = {
+          days: options.days,
+          root: options.root,
+          dataDir: options.dataDir,
+          tz: options.tz,
+          idleMinutes: options.idleMinutes,
+          cache: options.cache,
+          concurrency: options.concurrency,
+        };
+        const { report } = await scanSources(sources, scanOptions);
+        res.end(JSON.stringify(report));
+        console.log(chalk.green(`  ${new Date().toLocaleTimeString()} GET /api/usage - 200 (${report.usage.messages.count} messages)`));
+      } catch (error) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: 'Failed to scan usage data' }));
+        console.log(chalk.red(`  ${new Date().toLocaleTimeString()} GET /api/usage - 500 Error: ${error}`));
+      }
+    } else if (url?.startsWith('/api/sessions/')) {
+      try {
+        // Only ids are accepted here; transcript paths stay a CLI feature
+        const id = decodeURIComponent(url.slice('/api/sessions/'.length));
+        const matches = /^[\w.@:-]+$/.test(id)
+          ? await findSessions(id, { source: options.source, root: options.root, dataDir: options.dataDir }, { allowPaths: false })
+          : [];
+        if (matches.length === 1) {
+          res.end(JSON.stringify(buildSessionTimeline(matches[0])));
+          console.log(chalk.green(`  ${new Date().toLocaleTimeString()} GET ${url} - 200`));
+        } else {
+          res.statusCode = matches.length > 1 ? 409 : 404;
+          res.end(JSON.stringify({
+            error: matches.length > 1 ? 'Session id is ambiguous' : 'Session not found',
+            sessions: matches.map((m) => m.sessionId),
+          }));
+          console.log(chalk.yellow(`  ${new Date().toLocaleTimeString()} GET ${url} - ${res.statusCode}`));
+        }
+      } catch (error) {
+        if (error instanceof URIError) {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ error: 'Malformed session id' }));
+          console.log(chalk.yellow(`  ${new Date().toLocaleTimeString()} GET ${url} - 400`));
+        } else {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: 'Failed to read session' }));
+          console.log(chalk.red(`  ${new Date().toLocaleTimeString()} GET ${url} - 500 Error: ${error}`));
+        }
+      }
+    } else {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'Not found' }));
+      console.log(chalk.yellow(`  ${new Date().toLocaleTimeString()} GET ${url} - 404`));
+    }
+  });
+}
+
 export const serveCommand = new Command('serve')
   .description('Start a local server to serve usage data to the web dashboard')
   .option('-p, --port <number>', `Port to listen on (default: ${DEFAULT_PORT})`, parseInt)
   .option('-d, --days <number>', 'Only include data from the last N days', parseInt)
-  .action(async (options: { port?: number; days?: number }) => {
+  .option('--tz <zone>', 'IANA time zone for daily and hourly buckets (default: system zone)')
+  .option('--idle-minutes <number>', 'Gap between turns that ends a session\'s active time (default: 5)', parseInt)
+  .option('-s, --source <names>', 'Data sources: auto or a comma-separated list of claude, codex, gemini, aider, continue (default: auto)')
+  .option('--root <dir>', 'Also search this directory for Aider and Continue logs (repeatable)', collect, [])
+  .option('--data-dir <dir>', 'Claude data directory to scan, optionally label=path (repeatable; implies --source claude)', collect, [])
+  .option('--no-cache', 'Re-read every transcript on each request instead of using the scan cache')
+  .option('--concurrency <number>', 'Number of transcripts to read in parallel (default: 8)', parseInt)
+  .action(async (options: ScanOptions & { port?: number }) => {
     const port = options.port || DEFAULT_PORT;
 
-    // Check if Claude data exists
-    if (!claudeDataExists()) {
-      console.error(chalk.red('\n  Claude Code data not found.'));
-      console.error(chalk.gray(`  Expected location: ${getClaudeDataPath()}`));
-      console.error(chalk.gray('  Make sure Claude Code CLI is installed and you have used it.\n'));
-      process.exit(1);
-    }
+    const sources = requireSources(options, '  ', '  ');
+    requireTimeZone(options, '  ', '  ');
 
     console.log(chalk.cyan('\n  LLM Usage Analyzer - Local Server\n'));
-    console.log(chalk.gray(`  Data source: ${getClaudeDataPath()}`));
+    for (const source of sources) {
+      console.log(chalk.gray(`  Data source: ${sourceLabel(source)} (${getSourceDataPath(source, options)})`));
+    }
     if (options.days) {
       console.log(chalk.gray(`  Period: Last ${options.days} days`));
     }
     console.log('');
 
-    const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
-      // CORS headers for localhost web app
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-      res.setHeader('Content-Type', 'application/json');
-
-      // Handle preflight
-      if (req.method === 'OPTIONS') {
-        res.statusCode = 204;
-        res.end();
-        return;
-      }
-
-      const url = req.url?.split('?')[0];
-
-      if (url === '/api/health') {
-        res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString() }));
-        console.log(chalk.gray(`  ${new Date().toLocaleTimeString()} GET /api/health - 200`));
-      } else if (url === '/api/usage') {
-        try {
-          const scanOptions = options.days ? { days: options.days } : {};
-          const { report } = await scanClaudeUsage(scanOptions);
-          res.end(JSON.stringify(report));
-          console.log(chalk.green(`  ${new Date().toLocaleTimeString()} GET /api/usage - 200 (${report.usage.messages.count} messages)`));
-        } catch (error) {
-          res.statusCode = 500;
-          res.end(JSON.stringify({ error: 'Failed to scan usage data' }));
-          console.log(chalk.red(`  ${new Date().toLocaleTimeString()} GET /api/usage - 500 Error: ${error}`));
-        }
-      } else {
-        res.statusCode = 404;
-        res.end(JSON.stringify({ error: 'Not found' }));
-        console.log(chalk.yellow(`  ${new Date().toLocaleTimeString()} GET ${url} - 404`));
-      }
-    });
+    const server = createUsageServer(sources, options);
 
     server.listen(port, () => {
       console.log(chalk.green(`  Server running at http://localhost:${port}`));
       console.log('');
       console.log(chalk.white('  Endpoints:'));
       console.log(chalk.gray(`    GET /api/health  - Connection check`));
-      console.log(chalk.gray(`    GET /api/usage   - Full usage report (re-scans on each request)`));
+      console.log(chalk.gray(`    GET /api/usage   - Full usage report (re-scans changed files on each request)`));
+      console.log(chalk.gray(`    GET /api/sessions/:id - One session turn by turn`));
       console.log('');
       console.log(chalk.cyan('  The web dashboard will auto-detect this server.'));
       console.log(chalk.gray('  Press Ctrl+C to stop.\n'));
@@ -0,0 +1,173 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as path from 'path';
+import { formatDuration, formatTokens, sourceLabel, type UsageSource } from '../parsers/index.js';
+import { buildSessionTimeline, findSessions } from '../timeline.js';
+import { collect, readReport } from './output.js';
+import type { ScanOptions, SessionTimeline, SessionUsage, UsageReport } from '../types.js';
+
+const SESSION_SORTS = {
+  cost: (s: SessionUsage) => s.cost,
+  duration: (s: SessionUsage) => s.duration_ms || 0,
+  active: (s: SessionUsage) => s.active_ms || 0,
+  turns: (s: SessionUsage) => s.turns || s.messages,
+  cache: (s: SessionUsage) => s.cache_hit_ratio || 0,
+  context: (s: SessionUsage) => s.peak_context || 0,
+} as const;
+
+type SessionSort = keyof typeof SESSION_SORTS;
+
+const STARTED_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' };
+
+interface SessionsOptions extends Pick<ScanOptions, 'source' | 'root' | 'dataDir'> {
+  report?: string;
+  top?: number;
+  sort?: string;
+  json?: boolean;
+}
+
+/**
+ * Sessions in a report, largest first by the chosen metric
+ */
+function rankSessions(report: UsageReport, sort: SessionSort): Array<SessionUsage & { id: string }> {
+  return Object.entries(report.usage.by_session || {})
+    .map(([id, session]) => ({ id, ...session }))
+    .sort((a, b) => SESSION_SORTS[sort](b) - SESSION_SORTS[sort](a));
+}
+
+function printSessionTable(report: UsageReport, sessions: Array<SessionUsage & { id: string }>): void {
+  console.log(
+    chalk.gray(
+      `   ${'Session'.padEnd(10)} ${'Project'.padEnd(20)} ${'Started'.padEnd(16)} ${'Duration'.padStart(8)} ${'Active'.padStart(8)} ${'Turns'.padStart(6)} ${'Cost'.padStart(9)} ${'Cache'.padStart(6)} ${'Peak ctx'.padStart(9)}`
+    )
+  );
+
+  for (const session of sessions) {
+    const projectName = report.usage.by_project?.[session.project]?.name || session.project;
+    const project = projectName.length > 20 ? `…${projectName.slice(-19)}` : projectName;
+    const started = session.first_timestamp
+      ? new Date(session.first_timestamp).toLocaleString(undefined, STARTED_FORMAT)
+      : '-';
+    const cache = session.cache_hit_ratio !== undefined ? `${(session.cache_hit_ratio * 100).toFixed(0)}%` : '-';
+    console.log(
+      `   ${chalk.white(session.id.slice(0, 8).padEnd(10))} ${chalk.gray(project.padEnd(20))} ${started.padEnd(16)} ${formatDuration(session.duration_ms || 0).padStart(8)} ${formatDuration(session.active_ms || 0).padStart(8)} ${String(session.turns ?? session.messages).padStart(6)} ${chalk.green(`$${session.cost.toFixed(2)}`.padStart(9))} ${cache.padStart(6)} ${chalk.cyan(formatTokens(session.peak_context || 0).padStart(9))}`
+    );
+  }
+}
+
+/**
+ * Print one session turn by turn, marking model switches and compactions
+ */
+function printTimeline(timeline: SessionTimeline): void {
+  const project = timeline.cwd ? path.basename(timeline.cwd) : 'unknown project';
+  console.log(chalk.cyan(`\n🧵 Session ${timeline.session_id}`));
+  console.log(chalk.gray(`   ${sourceLabel(timeline.source as UsageSource)} · ${project} · ${timeline.files.join(', ')}`));
+  if (timeline.start && timeline.end) {
+    const span = Date.parse(timeline.end) - Date.parse(timeline.start);
+    console.log(chalk.gray(`   ${new Date(timeline.start).toLocaleString()} · ${formatDuration(span)}`));
+  }
+  console.log(
+    `   ${timeline.turns.length} responses · ${timeline.prompts} prompts · ${timeline.tool_results} tool results · ${chalk.green(`$${timeline.total_cost.toFixed(2)}`)}\n`
+  );
+
+  console.log(
+    chalk.gray(
+      `   ${'#'.padStart(4)} ${'Elapsed'.padStart(8)}  ${'Model'.padEnd(24)} ${'Input'.padStart(7)} ${'Output'.padStart(7)} ${'Cache R'.padStart(8)} ${'Cache W'.padStart(8)} ${'Total $'.padStart(8)}`
+    )
+  );
+
+  for (const turn of timeline.turns) {
+    const model = turn.model.replace('claude-', '').replace(/-\d{8}$/, '');
+    const marker = turn.compaction ? '⟲' : turn.model_switch ? '⇄' : turn.sidechain ? '↳' : ' ';
+    const line =
+      `${marker}  ${String(turn.index).padStart(4)} ${formatDuration(turn.elapsed_ms).padStart(8)}  ${model.slice(0, 24).padEnd(24)} ` +
+      `${formatTokens(turn.input).padStart(7)} ${formatTokens(turn.output).padStart(7)} ${formatTokens(turn.cache_read).padStart(8)} ` +
+      `${formatTokens(turn.cache_write).padStart(8)} ${`$${turn.cumulative_cost.toFixed(2)}`.padStart(8)}`;
+
+    if (turn.compaction) console.log(chalk.magenta(` ${line}`));
+    else if (turn.model_switch) console.log(chalk.yellow(` ${line}`));
+    else if (turn.sidechain) console.log(chalk.gray(` ${line}`));
+    else console.log(` ${line}`);
+  }
+
+  console.log('');
+  console.log(chalk.gray(`   ${chalk.magenta('⟲')} context compacted   ${chalk.yellow('⇄')} model switch   ↳ subagent turn\n`));
+}
+
+/**
+ * `llm-usage sessions <target>`: find one session and print or output its timeline
+ */
+async function showSession(target: string, options: SessionsOptions): Promise<void> {
+  const matches = await findSessions(target, options);
+
+  if (matches.length === 0) {
+    console.error(chalk.red(`\n❌ No session matches ${target}`));
+    console.error(chalk.gray('   Pass a session id (or its first characters) or a transcript path.\n'));
+    process.exit(1);
+  }
+  if (matches.length > 1) {
+    console.error(chalk.red(`\n❌ ${matches.length} sessions match ${target}:`));
+    for (const match of matches.slice(0, 10)) {
+      console.error(chalk.gray(`   ${match.sessionId} (${sourceLabel(match.source)})`));
+    }
+    console.error(chalk.gray('   Pass more of the session id to pick one.\n'));
+    process.exit(1);
+  }
+
+  const timeline = buildSessionTimeline(matches[0]);
+  if (options.json) {
+    console.log(JSON.stringify(timeline, null, 2));
+    return;
+  }
+  printTimeline(timeline);
+}
+
+export const sessionsCommand = new Command('sessions')
+  .description('List the longest, most expensive or most cache-heavy sessions, or show one session turn by turn')
+  .argument('[session]', 'Session id, id prefix or transcript path to show turn by turn')
+  .option('-r, --report <file>', 'Usage report JSON file (default: usage_report.json)')
+  .option('-n, --top <number>', 'Number of sessions to show (default: 20)', parseInt)
+  .option('--sort <metric>', `Sort by ${Object.keys(SESSION_SORTS).join(', ')} (default: cost)`, 'cost')
+  .option('-s, --source <names>', 'With a session: sources to search, auto or a comma-separated list (default: auto)')
+  .option('--data-dir <dir>', 'With a session: Claude data directory to search (repeatable)', collect, [])
+  .option('--root <dir>', 'With a session: also search this directory for Aider and Continue logs (repeatable)', collect, [])
+  .option('--json', 'Output JSON to stdout')
+  .action(async (session: string | undefined, options: SessionsOptions) => {
+    if (session) {
+      await showSession(session, options);
+      return;
+    }
+
+    const sort = (options.sort || 'cost') as SessionSort;
+    if (!SESSION_SORTS[sort]) {
+      console.error(chalk.red(`\n❌ Unknown sort: ${sort}`));
+      console.error(chalk.gray(`   Use one of: ${Object.keys(SESSION_SORTS).join(', ')}\n`));
+      process.exit(1);
+    }
+
+    const report = readReport(options.report);
+    const ranked = rankSessions(report, sort);
+    const sessions = ranked.slice(0, options.top || 20);
+
+    if (options.json) {
+      console.log(JSON.stringify(sessions, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n🧵 Top Sessions by ${sort}\n`));
+    if (sessions.length === 0) {
+      console.log(chalk.yellow('   No per-session data in this report.'));
+      console.log(chalk.gray('   Re-run `llm-usage scan` to include it.\n'));
+      return;
+    }
+
+    printSessionTable(report, sessions);
+    console.log('');
+    if (ranked.length > sessions.length) {
+      console.log(chalk.gray(`   ...and ${ranked.length - sessions.length} more (use --top to show them)`));
+    }
+    if (report.usage.sessions.idle_minutes !== undefined) {
+      console.log(chalk.gray(`   Active time counts gaps of up to ${report.usage.sessions.idle_minutes} minutes between turns.`));
+    }
+    console.log('');
+  });
@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { describeSources, getSourceDataPath } from '../parsers/index.js';
+import { collect } from './output.js';
+import type { ScanOptions } from '../types.js';
+
+export const sourcesCommand = new Command('sources')
+  .description('List the local agents that can be scanned and where their data lives')
+  .option('--root <dir>', 'Also search this directory for Aider and Continue logs (repeatable)', collect, [])
+  .option('--json', 'Output JSON to stdout')
+  .action(async (options: Pick<ScanOptions, 'root' | 'json'>) => {
+    const sources = await describeSources(options);
+
+    if (options.json) {
+      console.log(JSON.stringify(sources, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🔌 Local Usage Sources\n'));
+    console.log(chalk.gray(`   ${'Source'.padEnd(10)} ${'Agent'.padEnd(18)} ${'Provider'.padEnd(10)} ${'Files'.padStart(6)}  Location`));
+    console.log(chalk.gray('   ' + '─'.repeat(70)));
+
+    for (const source of sources) {
+      const status = source.detected ? chalk.green('✔') : chalk.gray('✗');
+      const files = source.detected ? String(source.files) : '-';
+      console.log(
+        `${status}  ${chalk.white(source.id.padEnd(10))} ${source.label.padEnd(18)} ${chalk.gray(source.provider.padEnd(10))} ${chalk.cyan(files.padStart(6))}  ${chalk.gray(getSourceDataPath(source.id, options))}`
+      );
+    }
+
+    const detected = sources.filter((s) => s.detected);
+    console.log('');
+    if (detected.length === 0) {
+      console.log(chalk.yellow('   No local usage data found.\n'));
+    } else {
+      console.log(chalk.gray(`   \`llm-usage scan\` will read ${detected.map((s) => s.id).join(', ')}.\n`));
+    }
+  });
@@ -0,0 +1,203 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  calculateDayCost,
+  countInUnit,
+  getPlan,
+  MESSAGE_UNITS,
+  WINDOW_HOURS,
+  type MessageUnit,
+  type PlanDefinition,
+} from '@llm-usage/core';
+import { claudeSource, formatDuration, formatTokens } from '../parsers/claude.js';
+import { followTranscripts } from '../parsers/transcripts.js';
+import { systemTimeZone, zonedBuckets } from '../timezone.js';
+import { collect, readPlans, requireSources } from './output.js';
+import type { ScanOptions, UsageReport, WindowUsage } from '../types.js';
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+
+// Windows chain from earlier messages, so look back far enough to place the current one
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Rates over the first minutes of a window swing wildly; measure over at least this long
+const MIN_RATE_MS = 10 * 60 * 1000;
+
+const BAR_WIDTH = 30;
+
+interface WatchOptions extends Pick<ScanOptions, 'dataDir' | 'cache'> {
+  plan?: string;
+  unit?: string;
+  interval?: number;
+  once?: boolean;
+}
+
+/**
+ * A usage bar that turns yellow past 80% and red at the limit
+ */
+function usageBar(used: number, limit: number): string {
+  const share = limit > 0 ? used / limit : 0;
+  const filled = Math.min(BAR_WIDTH, Math.round(share * BAR_WIDTH));
+  const color = share >= 1 ? chalk.red : share >= 0.8 ? chalk.yellow : chalk.green;
+  return color('█'.repeat(filled)) + chalk.gray('░'.repeat(BAR_WIDTH - filled));
+}
+
+/**
+ * Usage against a limit with its bar, or just the count when the plan sets no limit
+ */
+function usageLine(used: number, limit: number | undefined): string {
+  if (limit === undefined) return `  ${String(used).padStart(5)} ${chalk.gray('(no limit)')}`;
+  return `  ${String(used).padStart(5)} / ${String(limit).padEnd(5)} ${usageBar(used, limit)} ${((used / limit) * 100).toFixed(0)}%`;
+}
+
+function clockTime(time: Date | string): string {
+  return new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * When the limit will be hit at the current rate, or why it won't be before `resetAt`
+ */
+function timeToLimit(used: number, limit: number | undefined, perHour: number, now: number, resetAt: number, resetLabel: string): string {
+  if (limit === undefined) return chalk.green('no limit on this plan');
+  if (used >= limit) return chalk.red(`limit reached, resets ${resetLabel}`);
+  if (perHour <= 0) return chalk.green(`not at the current pace (resets ${resetLabel})`);
+  const ms = ((limit - used) / perHour) * 60 * 60 * 1000;
+  if (now + ms >= resetAt) return chalk.green(`not before it resets ${resetLabel}`);
+  return chalk.yellow(`${formatDuration(ms)} (around ${clockTime(new Date(now + ms))})`);
+}
+
+/**
+ * Render one frame of the live view from the latest report
+ */
+function renderStatus(report: UsageReport, plan: PlanDefinition, unit: MessageUnit, options: WatchOptions): string[] {
+  const now = Date.now();
+  const unitLabel = MESSAGE_UNITS[unit].label.toLowerCase();
+  const timeZone = systemTimeZone();
+  const today = zonedBuckets(new Date(now).toISOString(), timeZone)!.date;
+  const day = report.usage.messages.by_day.find((d) => d.date === today);
+  const dailyLimit = plan.limits.daily;
+  const windowLimit = plan.limits.window;
+
+  const lines: string[] = [];
+  lines.push(chalk.cyan(`👀 Claude Code — Live Usage`) + chalk.gray(`  ${plan.name} · ${unitLabel} · refreshed ${new Date(now).toLocaleTimeString()}`));
+  lines.push(chalk.gray('─'.repeat(60)));
+
+  // Today, in the system time zone
+  const todayUsed = day ? countInUnit(day, unit) : 0;
+  lines.push('');
+  lines.push(chalk.white(`Today (${today})`));
+  lines.push(usageLine(todayUsed, dailyLimit));
+  if (day) {
+    const cost = calculateDayCost({ ...day, cache_read: day.cache_read || 0, cache_write: day.cache_write || 0 }, report);
+    lines.push(
+      chalk.gray(`  ${formatTokens(day.input)} input · ${formatTokens(day.output)} output · ${formatTokens(day.cache_read || 0)} cache read · ≈ $${cost.toFixed(2)}`)
+    );
+  }
+
+  // The open 5-hour window, if the last message was sent within WINDOW_HOURS
+  const windows = report.usage.messages.by_window || [];
+  const last: WindowUsage | undefined = windows[windows.length - 1];
+  const current = last && Date.parse(last.end) > now ? last : undefined;
+  lines.push('');
+  if (!current) {
+    lines.push(chalk.white(`${WINDOW_HOURS}-Hour Window`));
+    lines.push(chalk.gray('  No open window — the next message starts one'));
+  } else {
+    const start = Date.parse(current.start);
+    const end = Date.parse(current.end);
+    const used = countInUnit(current, unit);
+    const elapsedHours = Math.max(now - start, MIN_RATE_MS) / (60 * 60 * 1000);
+    const perHour = used / elapsedHours;
+    const cost = calculateDayCost(
+      { input: current.input, output: current.output, cache_read: current.cache_read || 0, cache_write: current.cache_write || 0 },
+      report
+    );
+
+    lines.push(chalk.white(`${WINDOW_HOURS}-Hour Window`) + chalk.gray(`  ${clockTime(current.start)} – ${clockTime(current.end)}, ${formatDuration(end - now)} left`));
+    lines.push(usageLine(used, windowLimit));
+    lines.push(chalk.gray(`  ${formatTokens(current.input + current.output)} tokens · ≈ $${cost.toFixed(2)}`));
+    lines.push('');
+    lines.push(chalk.white('Burn Rate'));
+    lines.push(`  ${perHour.toFixed(1)} ${unitLabel}/hour · ≈ $${(cost / elapsedHours).toFixed(2)}/hour`);
+    lines.push('');
+    lines.push(chalk.white('Time to Limit'));
+    lines.push(`  Window: ${timeToLimit(used, windowLimit, perHour, now, end, `at ${clockTime(current.end)}`)}`);
+
+    const midnight = new Date(now);
+    midnight.setHours(24, 0, 0, 0);
+    lines.push(`  Today:  ${timeToLimit(todayUsed, dailyLimit, perHour, now, midnight.getTime(), 'at midnight')}`);
+  }
+
+  if (!options.once) {
+    lines.push('');
+    lines.push(chalk.gray(`Refreshing every ${options.interval || DEFAULT_INTERVAL_SECONDS}s · Ctrl+C to stop`));
+  }
+  return lines;
+}
+
+export const watchCommand = new Command('watch')
+  .description('Live terminal view of today\'s Claude Code usage against your plan limits')
+  .option('-p, --plan <name>', 'Plan to compare against, from `llm-usage plans`', 'Claude Pro')
+  .option('--unit <unit>', `Unit to measure plan limits in: ${Object.keys(MESSAGE_UNITS).join(', ')}`, 'messages')
+  .option('--data-dir <dir>', 'Claude data directory to watch, optionally label=path (repeatable)', collect, [])
+  .option('-i, --interval <seconds>', `Seconds between refreshes (default: ${DEFAULT_INTERVAL_SECONDS})`, parseFloat)
+  .option('--once', 'Print the view once and exit')
+  .option('--no-cache', 'Read every transcript on start instead of using the scan cache')
+  .action(async (options: WatchOptions) => {
+    const plans = readPlans();
+    const plan = getPlan(plans, options.plan || 'Claude Pro');
+    if (!plan) {
+      console.error(chalk.red(`\n❌ Unknown plan: ${options.plan}`));
+      console.error(chalk.gray(`   Use one of: ${plans.map((p) => p.name).join(', ')}`));
+      console.error(chalk.gray('   See `llm-usage plans` to add your own\n'));
+      process.exit(1);
+    }
+    const unit = (options.unit || 'messages') as MessageUnit;
+    if (!Object.hasOwn(MESSAGE_UNITS, unit)) {
+      console.error(chalk.red(`\n❌ Unknown unit: ${unit}`));
+      console.error(chalk.gray(`   Use one of: ${Object.keys(MESSAGE_UNITS).join(', ')}\n`));
+      process.exit(1);
+    }
+    const interval = options.interval || DEFAULT_INTERVAL_SECONDS;
+    if (!Number.isFinite(interval) || interval <= 0) {
+      console.error(chalk.red(`\n❌ Invalid interval: ${options.interval}`));
+      process.exit(1);
+    }
+
+    requireSources({ source: 'claude', dataDir: options.dataDir });
+
+    // The report is kept between refreshes; each one only folds in lines
+    // appended to transcripts since the last
+    const follower = followTranscripts(claudeSource, {
+      dataDir: options.dataDir,
+      cache: options.cache,
+      startDate: new Date(Date.now() - LOOKBACK_MS).toISOString(),
+    });
+    const refresh = async () => {
+      const report = await follower.update();
+      const frame = renderStatus(report, plan, unit, options).join('\n');
+      if (!options.once) console.clear();
+      console.log(frame);
+    };
+
+    await refresh();
+    if (options.once) return;
+
+    // Ticks never overlap: the next one is scheduled after the current update finishes
+    let timer: NodeJS.Timeout;
+    const tick = async () => {
+      try {
+        await refresh();
+      } catch (err) {
+        console.error(chalk.red(`❌ Refresh failed: ${err}`));
+      }
+      timer = setTimeout(tick, interval * 1000);
+    };
+    timer = setTimeout(tick, interval * 1000);
+
+    process.on('SIGINT', () => {
+      clearTimeout(timer);
+      console.log(chalk.gray('\nStopped watching.\n'));
+      process.exit(0);
+    });
+  });
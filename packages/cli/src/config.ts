@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { formatSchemaErrors, validatePlans, type CustomPlan } from '@llm-usage/core';
+import type { Budget, BudgetConfig, PlansConfig } from './types.js';
+
+const BUDGETS_VERSION = 1;
+
+/**
+ * Get the CLI's config directory (respects XDG_CONFIG_HOME)
+ */
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'llm-usage');
+}
+
+export function getBudgetsPath(): string {
+  return path.join(getConfigDir(), 'budgets.json');
+}
+
+/**
+ * Load saved budgets. A missing file means no budgets; a corrupt one throws
+ * rather than being overwritten by the next `budget set`.
+ */
+export function loadBudgets(): Budget[] {
+  const budgetsPath = getBudgetsPath();
+  if (!fs.existsSync(budgetsPath)) return [];
+
+  const data = JSON.parse(fs.readFileSync(budgetsPath, 'utf-8')) as BudgetConfig;
+  if (!Array.isArray(data.budgets)) {
+    throw new Error(`${budgetsPath} has no "budgets" list`);
+  }
+  return data.budgets;
+}
+
+/**
+ * Persist budgets, writing to a temp file first so a failed write never truncates the config
+ */
+export function saveBudgets(budgets: Budget[]): void {
+  const budgetsPath = getBudgetsPath();
+  fs.mkdirSync(path.dirname(budgetsPath), { recursive: true });
+  const config: BudgetConfig = { version: BUDGETS_VERSION, budgets };
+  const tmpPath = `${budgetsPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(config, null, 2) + '\n');
+  fs.renameSync(tmpPath, budgetsPath);
+}
+
+export function getPlansPath(): string {
+  return path.join(getConfigDir(), 'plans.json');
+}
+
+/**
+ * Load the user's plan overrides and custom plans. A missing file means the
+ * built-in plans only; an invalid one throws with the failing fields.
+ */
+export function loadPlans(): CustomPlan[] {
+  const plansPath = getPlansPath();
+  if (!fs.existsSync(plansPath)) return [];
+
+  const data = JSON.parse(fs.readFileSync(plansPath, 'utf-8')) as PlansConfig;
+  if (!Array.isArray(data.plans)) {
+    throw new Error(`${plansPath} has no "plans" list`);
+  }
+  const errors = validatePlans(data.plans).map((error) => ({ ...error, path: `plans${error.path}` }));
+  if (errors.length > 0) {
+    throw new Error(`${plansPath} has invalid plans:\n${formatSchemaErrors(errors).map((line) => `     ${line}`).join('\n')}`);
+  }
+  return data.plans;
+}
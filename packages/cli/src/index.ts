@@ -3,6 +3,15 @@ import { program } from 'commander';
 import { scanCommand } from './commands/scan.js';
 import { analyzeCommand } from './commands/analyze.js';
 import { serveCommand } from './commands/serve.js';
+import { cacheCommand } from './commands/cache.js';
+import { sourcesCommand } from './commands/sources.js';
+import { sessionsCommand } from './commands/sessions.js';
+import { budgetCommand } from './commands/budget.js';
+import { watchCommand } from './commands/watch.js';
+import { diffCommand } from './commands/diff.js';
+import { mergeCommand } from './commands/merge.js';
+import { schemaCommand } from './commands/schema.js';
+import { plansCommand } from './commands/plans.js';
 
 const VERSION = '1.0.0';
 
@@ -15,27 +24,68 @@ program
 program.addCommand(scanCommand);
 program.addCommand(analyzeCommand);
 program.addCommand(serveCommand);
+program.addCommand(cacheCommand);
+program.addCommand(sourcesCommand);
+program.addCommand(sessionsCommand);
+program.addCommand(budgetCommand);
+program.addCommand(watchCommand);
+program.addCommand(diffCommand);
+program.addCommand(mergeCommand);
+program.addCommand(schemaCommand);
+program.addCommand(plansCommand);
 
 // Default action (no command) - show help
 program.action(() => {
   console.log(`
   🔍 LLM Usage Analyzer CLI v${VERSION}
 
-  Analyze your Claude Code usage to determine if you're on the right plan.
+  Analyze your Claude Code, Codex, Gemini CLI, Aider or Continue usage to determine if you're on the right plan.
 
   Commands:
-    scan      Scan Claude Code local data and generate a usage report
-    analyze   Analyze a usage report and show cost recommendations
+    scan      Scan every detected coding agent into one usage report
+    analyze   Analyze a usage report: API cost, plan fit and daily usage vs limits
     serve     Start a local server for the web dashboard to connect
+    cache     Inspect or clear the incremental scan cache
+    sources   List detected local agents and where their data lives
+    sessions  Rank the sessions in a report, or show one session turn by turn
+    budget    Set monthly budgets and check this month's spend against them
+    watch     Live view of today's Claude Code usage against plan limits
+    diff      Compare two usage reports, e.g. monthly snapshots
+    merge     Combine reports from several machines or teammates
+    schema    Print the report JSON Schema or validate a report
+    plans     List plans and limits, including custom ones from plans.json
 
   Examples:
     $ llm-usage scan                    # Scan all data, output usage_report.json
     $ llm-usage scan --days 30          # Only last 30 days
+    $ llm-usage scan --tz Europe/Berlin # Bucket days and hours in this time zone
+    $ llm-usage scan --source codex     # Scan Codex CLI sessions only
+    $ llm-usage scan --split            # One report per agent
+    $ llm-usage scan --root ~/code      # Also find Aider histories under ~/code
+    $ llm-usage scan --data-dir work=/mnt/work/.claude --data-dir ~/.claude
+                                        # Combine Claude data from two machines
+    $ llm-usage sources                 # Show which agents were found
     $ llm-usage scan --json | jq        # Output JSON for piping
+    $ llm-usage scan --no-cache         # Re-read every transcript
     $ llm-usage analyze                 # Analyze usage_report.json
     $ llm-usage analyze --plan "Claude Max" --price 100
+    $ llm-usage analyze --windows       # Check 5-hour rate-limit windows
+    $ llm-usage analyze --format json | jq .plan_fit.recommendation
+    $ llm-usage sessions --top 20       # Most expensive sessions
+    $ llm-usage sessions --sort active  # Sessions with the most active time
+    $ llm-usage sessions 1a2b3c4d       # One session turn by turn
+    $ llm-usage budget set 200          # Monthly budget for all usage
+    $ llm-usage budget set 50 --project web --alert 90
+    $ llm-usage budget check            # Exits with code 2 when a budget is crossed
+    $ llm-usage analyze --data-dir ~/.claude  # Analyze without writing a report
+    $ llm-usage diff sept.json oct.json --markdown  # Month-over-month changes
+    $ llm-usage merge alice=alice.json bob=bob.json  # Team report with a per-person breakdown
+    $ llm-usage schema team.json        # Check a report before sharing it
+    $ llm-usage watch --plan "Claude Max 5x"  # Live usage in a tmux pane
+    $ llm-usage plans                   # Plans and limits that analyze and watch use
     $ llm-usage serve                   # Start server on localhost:3456
     $ llm-usage serve --port 8080       # Use custom port
+    $ llm-usage cache clear             # Delete the scan cache
 
   For more info, run any command with --help
   `);
@@ -0,0 +1,342 @@
+import type {
+  DayUsage,
+  EstimatedField,
+  HostUsage,
+  HourUsage,
+  MessageTypeCounts,
+  ModelTokens,
+  OriginUsage,
+  ProjectUsage,
+  SessionUsage,
+  ToolUsage,
+  UsageBreakdown,
+  UsageReport,
+} from './types.js';
+import { calculateReportCost, REPORT_SCHEMA_VERSION } from '@llm-usage/core';
+import { cacheHitRatio } from './parsers/transcripts.js';
+
+const DAY_FIELDS = [
+  'count',
+  'turns',
+  'prompts',
+  'responses',
+  'tool_results',
+  'sidechain',
+  'input',
+  'output',
+  'cache_read',
+  'cache_write',
+  'tool_errors',
+] as const;
+
+const TOOL_FIELDS = ['calls', 'errors', 'output_tokens', 'large_outputs', 'large_output_tokens'] as const;
+
+function addOptional(a?: number, b?: number): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a || 0) + (b || 0);
+}
+
+function addCounts(a?: Record<string, number>, b?: Record<string, number>): Record<string, number> | undefined {
+  if (!a || !b) return a || b;
+  const sum = { ...a };
+  for (const [key, count] of Object.entries(b)) {
+    sum[key] = (sum[key] || 0) + count;
+  }
+  return sum;
+}
+
+function addLabels(a?: string[], b?: string[]): string[] | undefined {
+  if (!a || !b) return a || b;
+  return [...new Set([...a, ...b])];
+}
+
+function mergeEstimated(...lists: Array<EstimatedField[] | undefined>): EstimatedField[] | undefined {
+  const fields = [...new Set(lists.flatMap((list) => list || []))];
+  return fields.length > 0 ? fields : undefined;
+}
+
+function addModelTokens(a: ModelTokens, b: ModelTokens): ModelTokens {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cache_read: addOptional(a.cache_read, b.cache_read),
+    cache_write: addOptional(a.cache_write, b.cache_write),
+    estimated: mergeEstimated(a.estimated, b.estimated),
+  };
+}
+
+function minTimestamp(a: string, b: string): string {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function maxTimestamp(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function mergeBreakdown<T extends UsageBreakdown>(a: T, b: T): T {
+  return {
+    ...a,
+    tokens: addModelTokens(a.tokens, b.tokens),
+    messages: a.messages + b.messages,
+    models: [...new Set([...a.models, ...b.models])],
+    first_timestamp: minTimestamp(a.first_timestamp, b.first_timestamp),
+    last_timestamp: maxTimestamp(a.last_timestamp, b.last_timestamp),
+    cost: a.cost + b.cost,
+  };
+}
+
+type Bucket = Partial<Record<(typeof DAY_FIELDS)[number], number>> & { tool_calls?: Record<string, number> };
+
+/**
+ * Add day or hour buckets that share a key; the rest are copied over
+ */
+function mergeBuckets<T extends Bucket>(target: Map<string, T>, buckets: T[], key: (bucket: T) => string): void {
+  for (const bucket of buckets) {
+    const existing = target.get(key(bucket));
+    if (!existing) {
+      target.set(key(bucket), { ...bucket });
+      continue;
+    }
+    for (const field of DAY_FIELDS) {
+      const value = addOptional(existing[field], bucket[field]);
+      if (value !== undefined) (existing as Bucket)[field] = value;
+    }
+    if (bucket.tool_calls) existing.tool_calls = addCounts(existing.tool_calls, bucket.tool_calls);
+  }
+}
+
+/**
+ * Combine the same session seen in two reports. Active time is summed, so
+ * overlapping turns from both count twice.
+ */
+function mergeSession(a: SessionUsage, b: SessionUsage): SessionUsage {
+  const merged = mergeBreakdown(a, b);
+  const span = Date.parse(merged.last_timestamp) - Date.parse(merged.first_timestamp);
+  return {
+    ...merged,
+    turns: addOptional(a.turns, b.turns),
+    duration_ms: Math.max(Number.isNaN(span) ? 0 : span, a.duration_ms || 0, b.duration_ms || 0),
+    active_ms: addOptional(a.active_ms, b.active_ms),
+    cache_hit_ratio: cacheHitRatio(merged.tokens),
+    peak_context: Math.max(a.peak_context || 0, b.peak_context || 0) || undefined,
+  };
+}
+
+/**
+ * Merge reports from several agents into one. Token and message totals are
+ * summed; projects recorded under the same working directory are combined.
+ * The plan is taken from the report with the most messages.
+ */
+export function mergeReports(reports: UsageReport[]): UsageReport {
+  if (reports.length === 0) {
+    throw new Error('No reports to merge');
+  }
+  if (reports.length === 1) {
+    return reports[0];
+  }
+
+  const providers = [...new Set(reports.flatMap((r) => r.providers || [r.provider]))];
+  const primary = [...reports].sort((a, b) => b.usage.messages.count - a.usage.messages.count)[0];
+
+  const byModel: Record<string, ModelTokens> = {};
+  const days = new Map<string, DayUsage>();
+  const hours = new Map<string, HourUsage>();
+  const byProject: Record<string, ProjectUsage> = {};
+  const bySession: Record<string, SessionUsage> = {};
+  const byHost: Record<string, HostUsage> = {};
+  const byOrigin: Record<string, OriginUsage> = {};
+  const byTool: Record<string, ToolUsage> = {};
+  let byType: MessageTypeCounts | undefined;
+
+  for (const report of reports) {
+    const usage = report.usage;
+
+    for (const [model, tokens] of Object.entries(usage.tokens.by_model)) {
+      byModel[model] = byModel[model] ? addModelTokens(byModel[model], tokens) : { ...tokens };
+    }
+
+    mergeBuckets(days, usage.messages.by_day, (day) => day.date);
+    mergeBuckets(hours, usage.messages.by_hour || [], (hour) => hour.hour);
+
+    if (usage.messages.by_type) {
+      const counts = usage.messages.by_type;
+      byType = byType || { prompts: 0, responses: 0, tool_results: 0, sidechain: 0 };
+      byType.prompts += counts.prompts;
+      byType.responses += counts.responses;
+      byType.tool_results += counts.tool_results;
+      byType.sidechain += counts.sidechain;
+    }
+
+    // Re-key projects by working directory so agents used in the same repo line up
+    const projectKeys: Record<string, string> = {};
+    for (const [key, project] of Object.entries(usage.by_project || {})) {
+      const mergedKey = project.path || key;
+      projectKeys[key] = mergedKey;
+      const existing = byProject[mergedKey];
+      byProject[mergedKey] = existing
+        ? {
+            ...mergeBreakdown(existing, project),
+            sessions: existing.sessions + project.sessions,
+            tool_calls: addCounts(existing.tool_calls, project.tool_calls),
+          }
+        : { ...project };
+    }
+
+    for (const [id, session] of Object.entries(usage.by_session || {})) {
+      const merged = { ...session, project: projectKeys[session.project] || session.project };
+      bySession[id] = bySession[id] ? mergeSession(bySession[id], merged) : merged;
+    }
+
+    for (const [host, hostUsage] of Object.entries(usage.by_host || {})) {
+      const existing = byHost[host];
+      byHost[host] = existing
+        ? {
+            ...mergeBreakdown(existing, hostUsage),
+            sessions: existing.sessions + hostUsage.sessions,
+            data_dirs: [...new Set([...existing.data_dirs, ...hostUsage.data_dirs])],
+          }
+        : { ...hostUsage };
+    }
+
+    for (const [label, origin] of Object.entries(usage.by_origin || {})) {
+      const existing = byOrigin[label];
+      byOrigin[label] = existing
+        ? {
+            ...mergeBreakdown(existing, origin),
+            sessions: existing.sessions + origin.sessions,
+            files: [...new Set([...existing.files, ...origin.files])],
+            hosts: addLabels(existing.hosts, origin.hosts),
+          }
+        : { ...origin };
+    }
+
+    for (const [name, tool] of Object.entries(usage.tools?.by_tool || {})) {
+      const existing = byTool[name];
+      if (!existing) {
+        byTool[name] = { ...tool };
+        continue;
+      }
+      for (const field of TOOL_FIELDS) {
+        existing[field] += tool[field];
+      }
+    }
+  }
+
+  const sum = (pick: (report: UsageReport) => number | undefined) =>
+    reports.reduce((total, report) => total + (pick(report) || 0), 0);
+  const hasProjects = reports.some((r) => r.usage.by_project);
+  const hasSessions = reports.some((r) => r.usage.by_session);
+  const hasHosts = reports.some((r) => r.usage.by_host);
+  const hasOrigins = reports.some((r) => r.usage.by_origin);
+  const toolReports = reports.filter((r) => r.usage.tools);
+  const windows = reports.flatMap((r) => r.usage.messages.by_window || []);
+  const timezones = [...new Set(reports.map((r) => r.usage.messages.timezone || 'UTC'))];
+  const hasHours = reports.some((r) => r.usage.messages.by_hour);
+
+  return {
+    schema_version: REPORT_SCHEMA_VERSION,
+    provider: providers.length === 1 ? providers[0] : 'other',
+    providers,
+    source: primary.source,
+    period: {
+      start: reports.map((r) => r.period.start).reduce(minTimestamp),
+      end: reports.map((r) => r.period.end).reduce(maxTimestamp),
+    },
+    plan: { ...primary.plan },
+    usage: {
+      tokens: {
+        input: sum((r) => r.usage.tokens.input),
+        output: sum((r) => r.usage.tokens.output),
+        cached: sum((r) => r.usage.tokens.cached),
+        cache_read: sum((r) => r.usage.tokens.cache_read),
+        cache_write: sum((r) => r.usage.tokens.cache_write),
+        estimated: mergeEstimated(...reports.map((r) => r.usage.tokens.estimated)),
+        by_model: byModel,
+      },
+      messages: {
+        count: sum((r) => r.usage.messages.count),
+        // Buckets from different zones still line up by key, but the zone is only named when they agree
+        timezone: timezones.length === 1 ? timezones[0] : undefined,
+        estimated_times: reports.some((r) => r.usage.messages.estimated_times) || undefined,
+        by_day: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+        by_hour: hasHours ? [...hours.values()].sort((a, b) => a.hour.localeCompare(b.hour)) : undefined,
+        by_type: byType,
+        // Each provider limits its own windows, so they are kept side by side
+        by_window: windows.length > 0 ? windows.sort((a, b) => a.start.localeCompare(b.start)) : undefined,
+      },
+      sessions: {
+        count: sum((r) => r.usage.sessions.count),
+        idle_minutes: reports.find((r) => r.usage.sessions.idle_minutes !== undefined)?.usage.sessions.idle_minutes,
+      },
+      by_project: hasProjects ? byProject : undefined,
+      by_session: hasSessions ? bySession : undefined,
+      by_host: hasHosts ? byHost : undefined,
+      by_origin: hasOrigins ? byOrigin : undefined,
+      tools:
+        toolReports.length > 0
+          ? {
+              large_output_threshold: Math.max(...toolReports.map((r) => r.usage.tools!.large_output_threshold)),
+              by_tool: byTool,
+            }
+          : undefined,
+    },
+  };
+}
+
+export interface ReportOverlap {
+  first: string;  // Labels of the two inputs
+  second: string;
+  indexes: [number, number]; // Their positions, as labels need not be unique
+  identical: boolean;
+  shared_sessions: string[];
+}
+
+/**
+ * Tag a report with the user or host it came from, so a merged team report
+ * keeps a per-origin breakdown. Reports that were already merged keep theirs.
+ */
+export function tagOrigin(report: UsageReport, label: string, file: string): UsageReport {
+  if (report.usage.by_origin) return report;
+
+  const hosts = Object.keys(report.usage.by_host || {});
+  const origin: OriginUsage = {
+    tokens: {
+      input: report.usage.tokens.input,
+      output: report.usage.tokens.output,
+      cache_read: report.usage.tokens.cache_read,
+      cache_write: report.usage.tokens.cache_write,
+      estimated: report.usage.tokens.estimated,
+    },
+    messages: report.usage.messages.count,
+    models: Object.keys(report.usage.tokens.by_model),
+    first_timestamp: report.period.start,
+    last_timestamp: report.period.end,
+    cost: calculateReportCost(report),
+    sessions: report.usage.sessions.count,
+    files: [file],
+    hosts: hosts.length > 0 ? hosts : undefined,
+  };
+  return { ...report, usage: { ...report.usage, by_origin: { [label]: origin } } };
+}
+
+/**
+ * Find inputs that would be counted twice: identical reports, or reports that
+ * share sessions because they were scanned from the same transcripts
+ */
+export function findOverlaps(inputs: Array<{ label: string; report: UsageReport }>): ReportOverlap[] {
+  const overlaps: ReportOverlap[] = [];
+  const usages = inputs.map((input) => JSON.stringify(input.report.usage));
+
+  for (let i = 0; i < inputs.length; i++) {
+    for (let j = i + 1; j < inputs.length; j++) {
+      const sessions = new Set(Object.keys(inputs[i].report.usage.by_session || {}));
+      const shared = Object.keys(inputs[j].report.usage.by_session || {}).filter((id) => sessions.has(id));
+      const identical = usages[i] === usages[j];
+      if (identical || shared.length > 0) {
+        overlaps.push({ first: inputs[i].label, second: inputs[j].label, indexes: [i, j], identical, shared_sessions: shared });
+      }
+    }
+  }
+  return overlaps;
+}
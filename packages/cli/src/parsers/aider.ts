@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob, globSync } from 'glob';
+import { localRoot, type ScanRoot, type TranscriptFile, type TranscriptSource } from './transcripts.js';
+import { estimateTokens } from './tokens.js';
+import type { AiderAnalyticsLine, UsageRecord, ScanOptions } from '../types.js';
+
+const CHAT_HISTORY = '.aider.chat.history.md';
+const ANALYTICS_LOG = '.aider.analytics.jsonl';
+
+// Aider keeps its files in the repository, so roots are walked to find them
+const SEARCH = {
+  dot: true,
+  maxDepth: 4,
+  ignore: ['**/node_modules/**', '**/.git/**'],
+};
+
+const UNKNOWN_MODEL = 'unknown';
+
+/**
+ * Directories searched for Aider histories. Aider has no home directory to
+ * look in, so only `--root` values are walked.
+ */
+export function getAiderRoots(options: ScanOptions = {}): ScanRoot[] {
+  const dirs = new Set((options.root || []).map((root) => path.resolve(root)));
+  return [...dirs].map(localRoot);
+}
+
+function hasAiderData(root: string): boolean {
+  if (!fs.existsSync(root)) return false;
+  return globSync(`**/{${CHAT_HISTORY},${ANALYTICS_LOG}}`, { ...SEARCH, cwd: root }).length > 0;
+}
+
+/**
+ * Strip litellm provider prefixes (anthropic/, openrouter/openai/) so models match the pricing catalog
+ */
+function normalizeModel(model: string): string {
+  return model.split('/').pop() || model;
+}
+
+/**
+ * Parse a token count as Aider prints it: 850, 1,234, 3.2k, 12k or 1.1M
+ */
+function parseTokenCount(text: string): number {
+  const match = text.replace(/,/g, '').match(/^([\d.]+)([kM]?)$/);
+  if (!match) return 0;
+  const scale = match[2] === 'M' ? 1_000_000 : match[2] === 'k' ? 1_000 : 1;
+  return Math.round(parseFloat(match[1]) * scale);
+}
+
+/**
+ * Parse the "> Tokens: 3.2k sent, 1.1k cache write, 2.5k cache hit, 210 received." line
+ */
+function parseTokensLine(line: string): { sent: number; received: number; cacheWrite: number; cacheHit: number } | null {
+  const match = line.match(/^> Tokens: (.+?)\.(?: Cost:|$)/);
+  if (!match) return null;
+
+  const counts = { sent: 0, received: 0, cacheWrite: 0, cacheHit: 0 };
+  for (const part of match[1].split(', ')) {
+    const [value, ...label] = part.trim().split(' ');
+    const count = parseTokenCount(value);
+    switch (label.join(' ')) {
+      case 'sent': counts.sent = count; break;
+      case 'received': counts.received = count; break;
+      case 'cache write': counts.cacheWrite = count; break;
+      case 'cache hit': counts.cacheHit = count; break;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Parse a chat history. Each `# aider chat started at` header opens a session,
+ * `#### ` lines are prompts and other non-`>` text is the model's reply.
+ * Replies followed by a Tokens line use its counts; older histories without
+ * one are estimated from the conversation text, which Aider re-sends each turn.
+ */
+function parseChatHistory(file: TranscriptFile, content: string): UsageRecord[] {
+  const records: UsageRecord[] = [];
+  const cwd = path.dirname(file.filePath);
+
+  let sessionId = file.fileSessionId;
+  let timestamp: string | undefined;
+  let model = UNKNOWN_MODEL;
+  let context = 0; // Estimated tokens of the conversation so far
+  let prompt: string[] | null = null;
+  let reply: string[] = [];
+  let inReply = false;
+
+  // The history only dates each session, so every turn gets the session's start time
+  const record = (kind: UsageRecord['kind']): UsageRecord => ({
+    kind,
+    timestamp,
+    estimatedTime: timestamp ? true : undefined,
+    model,
+    sessionId,
+    cwd,
+    input: 0,
+    output: 0,
+    cache_read: 0,
+    cache_write: 0,
+  });
+
+  const flushPrompt = () => {
+    if (!prompt) return;
+    const text = prompt.join('\n');
+    // Commands such as /add and /drop don't reach the model
+    if (!/^\/(?!ask|code|architect)/.test(text)) {
+      records.push(record('prompt'));
+      context += estimateTokens(text);
+    }
+    prompt = null;
+  };
+
+  const flushReply = () => {
+    if (!inReply) return;
+    const text = reply.join('\n').trim();
+    if (text) {
+      const output = estimateTokens(text);
+      records.push({ ...record('response'), input: context, output, estimated: ['input', 'output'] });
+      context += output;
+    }
+    reply = [];
+    inReply = false;
+  };
+
+  for (const line of content.split('\n')) {
+    const header = line.match(/^# aider chat started at (\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})/);
+    if (header) {
+      flushPrompt();
+      flushReply();
+      // Logged in local time
+      const started = new Date(`${header[1]}T${header[2]}`);
+      timestamp = Number.isNaN(started.getTime()) ? undefined : started.toISOString();
+      sessionId = `${file.fileSessionId}@${header[1]}T${header[2]}`;
+      context = 0;
+      continue;
+    }
+
+    if (line.startsWith('#### ')) {
+      flushReply();
+      prompt = prompt || [];
+      prompt.push(line.slice(5));
+      continue;
+    }
+    flushPrompt();
+
+    if (line.startsWith('>')) {
+      const modelLine = line.match(/^> (?:Main )?[Mm]odel: (\S+)/);
+      if (modelLine) model = normalizeModel(modelLine[1]);
+
+      const tokens = parseTokensLine(line);
+      if (tokens) {
+        records.push({
+          ...record('response'),
+          input: Math.max(0, tokens.sent - tokens.cacheHit - tokens.cacheWrite),
+          output: tokens.received,
+          cache_read: tokens.cacheHit,
+          cache_write: tokens.cacheWrite,
+        });
+        context = tokens.sent + tokens.received;
+        reply = [];
+        inReply = false;
+      }
+      continue;
+    }
+
+    if (line.trim() || inReply) {
+      inReply = true;
+      reply.push(line);
+    }
+  }
+
+  flushPrompt();
+  flushReply();
+  return records;
+}
+
+/**
+ * Parse an analytics log written with `--analytics-log`. Each message_send
+ * event carries exact prompt and completion token counts.
+ */
+function parseAnalyticsLog(file: TranscriptFile, content: string): UsageRecord[] {
+  const records: UsageRecord[] = [];
+  const cwd = path.dirname(file.filePath);
+  let sessionId = file.fileSessionId;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: AiderAnalyticsLine;
+    try {
+      entry = JSON.parse(line) as AiderAnalyticsLine;
+    } catch {
+      continue;
+    }
+
+    const timestamp = entry.time ? new Date(entry.time * 1000).toISOString() : undefined;
+    if (entry.event === 'launched' && timestamp) {
+      sessionId = `${file.fileSessionId}@${timestamp}`;
+      continue;
+    }
+    if (entry.event !== 'message_send' || !entry.properties) continue;
+
+    const props = entry.properties;
+    records.push({
+      kind: 'response',
+      timestamp,
+      model: props.main_model ? normalizeModel(props.main_model) : UNKNOWN_MODEL,
+      sessionId,
+      cwd,
+      input: props.prompt_tokens || 0,
+      output: props.completion_tokens || 0,
+      cache_read: 0,
+      cache_write: 0,
+    });
+  }
+
+  return records;
+}
+
+export const aiderSource: TranscriptSource = {
+  provider: 'other',
+  plan: { name: 'API (Pay-As-You-Go)', price_usd: 0, type: 'payg' },
+  roots: getAiderRoots,
+  hasData: hasAiderData,
+
+  // Analytics logs repeat what the chat history records, so they are only
+  // read for repositories without one
+  async listFiles(root) {
+    const found = await glob(`**/{${CHAT_HISTORY},${ANALYTICS_LOG}}`, { ...SEARCH, cwd: root });
+    const historyDirs = new Set(
+      found.filter((file) => path.basename(file) === CHAT_HISTORY).map((file) => path.dirname(file))
+    );
+
+    return found
+      .filter((file) => path.basename(file) === CHAT_HISTORY || !historyDirs.has(path.dirname(file)))
+      .map((file) => {
+        const repo = path.join(root, path.dirname(file));
+        return {
+          project: repo,
+          filePath: path.join(root, file),
+          fileSessionId: repo,
+        };
+      });
+  },
+
+  parseDocument(file, content) {
+    return path.basename(file.filePath) === ANALYTICS_LOG
+      ? parseAnalyticsLog(file, content)
+      : parseChatHistory(file, content);
+  },
+};
@@ -2,30 +2,68 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { glob } from 'glob';
-import type { ClaudeMessage, UsageReport, ScanOptions } from '../types.js';
+import { localRoot, type ScanRoot, type TranscriptSource } from './transcripts.js';
+import { approximateTokens } from './tokens.js';
+import type {
+  ClaudeContentBlock,
+  ClaudeMessage,
+  UsageRecord,
+  ScanOptions,
+} from '../types.js';
 
 const CLAUDE_DIR = path.join(os.homedir(), '.claude');
-const PROJECTS_DIR = path.join(CLAUDE_DIR, 'projects');
 
-export interface ParseProgress {
-  projectsFound: number;
-  filesProcessed: number;
-  messagesProcessed: number;
-  errors: string[];
+/**
+ * Claude config directories on this machine: CLAUDE_CONFIG_DIR (comma-separated) or ~/.claude
+ */
+function claudeConfigDirs(): string[] {
+  const configured = (process.env.CLAUDE_CONFIG_DIR || '')
+    .split(',')
+    .map((dir) => dir.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [CLAUDE_DIR];
+}
+
+/**
+ * Accept either a config directory or its projects/ folder
+ */
+function projectsDir(dir: string): string {
+  const resolved = path.resolve(dir);
+  return path.basename(resolved) === 'projects' ? resolved : path.join(resolved, 'projects');
+}
+
+/**
+ * Label a copied data directory by the folder it sits in, e.g. /mnt/ci-box/.claude -> ci-box
+ */
+function machineLabel(dir: string): string {
+  let current = path.resolve(dir);
+  while (['projects', '.claude'].includes(path.basename(current)) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return path.basename(current) || current;
 }
 
 /**
- * Check if Claude Code data directory exists
+ * Parse a `--data-dir` value: a path, or `label=path` to name the machine it came from
  */
-export function claudeDataExists(): boolean {
-  return fs.existsSync(PROJECTS_DIR);
+function parseDataDir(value: string, localDirs: string[]): ScanRoot {
+  const match = value.match(/^([^=/\\]+)=(.+)$/);
+  const raw = match ? match[2] : value;
+  const dir = projectsDir(raw);
+  if (match) return { dir, host: match[1] };
+  return localDirs.includes(dir) ? localRoot(dir) : { dir, host: machineLabel(raw) };
 }
 
 /**
- * Get Claude data directory path
+ * Claude projects directories to scan, each tagged with a machine label.
+ * `--data-dir` replaces the local default.
  */
-export function getClaudeDataPath(): string {
-  return PROJECTS_DIR;
+export function getClaudeRoots(options: ScanOptions = {}): ScanRoot[] {
+  const localDirs = claudeConfigDirs().map(projectsDir);
+  if (options.dataDir && options.dataDir.length > 0) {
+    return options.dataDir.map((value) => parseDataDir(value, localDirs));
+  }
+  return localDirs.map(localRoot);
 }
 
 /**
@@ -41,196 +79,123 @@ export function parseJsonlLine(line: string): ClaudeMessage | null {
   }
 }
 
+function blockText(content?: string | ClaudeContentBlock[]): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map((block) => block.text || '').join('\n');
+}
+
 /**
- * Check if a timestamp falls within the date range
+ * Tool calls and tool results in a message. Results keep only their size, approximated from their text's length.
  */
-function isWithinDateRange(
-  timestamp: string,
-  startDate: Date | null,
-  endDate: Date | null
-): boolean {
-  const date = new Date(timestamp);
-  if (startDate && date < startDate) return false;
-  if (endDate && date > endDate) return false;
-  return true;
+function toolEvents(content?: string | ClaudeContentBlock[]): Pick<UsageRecord, 'tool_uses' | 'tool_results'> {
+  if (!Array.isArray(content)) return {};
+
+  const uses = content
+    .filter((block) => block.type === 'tool_use' && block.id && block.name)
+    .map((block) => ({ id: block.id!, name: block.name! }));
+  const results = content
+    .filter((block) => block.type === 'tool_result' && block.tool_use_id)
+    .map((block) => ({
+      id: block.tool_use_id!,
+      tokens: approximateTokens(blockText(block.content)),
+      error: block.is_error || undefined,
+    }));
+
+  return {
+    tool_uses: uses.length > 0 ? uses : undefined,
+    tool_results: results.length > 0 ? results : undefined,
+  };
 }
 
 /**
- * Scan Claude Code local data and aggregate usage
+ * Classify a transcript entry as a prompt, response or tool-result turn.
+ * Returns null for entries that are none of these (summaries, meta, responses without usage).
  */
-export async function scanClaudeUsage(
-  options: ScanOptions = {},
-  onProgress?: (progress: ParseProgress) => void
-): Promise<{ report: UsageReport; progress: ParseProgress }> {
-  const progress: ParseProgress = {
-    projectsFound: 0,
-    filesProcessed: 0,
-    messagesProcessed: 0,
-    errors: [],
+function toUsageRecord(entry: ClaudeMessage | null, fileSessionId: string): UsageRecord | null {
+  if (!entry?.message) return null;
+
+  const base = {
+    sidechain: entry.isSidechain || undefined,
+    timestamp: entry.timestamp,
+    sessionId: entry.sessionId || fileSessionId,
+    cwd: entry.cwd,
   };
 
-  // Determine date range
-  let startDate: Date | null = null;
-  let endDate: Date | null = null;
-
-  if (options.days) {
-    endDate = new Date();
-    startDate = new Date();
-    startDate.setDate(startDate.getDate() - options.days);
-  } else if (options.startDate) {
-    startDate = new Date(options.startDate);
-  }
-
-  if (options.endDate) {
-    endDate = new Date(options.endDate);
+  if (entry.type === 'user') {
+    if (entry.isMeta) return null;
+    const { content } = entry.message;
+    const isToolResult = Array.isArray(content) && content.some((block) => block.type === 'tool_result');
+    return {
+      ...base,
+      kind: isToolResult ? 'tool_result' : 'prompt',
+      // Resumed sessions copy earlier lines into the new file under the same uuid
+      dedupKey: entry.uuid,
+      model: 'unknown',
+      input: 0,
+      output: 0,
+      cache_read: 0,
+      cache_write: 0,
+      ...toolEvents(content),
+    };
   }
 
-  // Initialize usage data
-  const usage: UsageReport = {
-    provider: 'anthropic',
-    source: 'local_agent',
-    period: {
-      start: new Date().toISOString(),
-      end: new Date().toISOString(),
-    },
-    plan: {
-      name: 'Claude Pro',
-      price_usd: 20,
-      type: 'subscription',
-    },
-    usage: {
-      tokens: {
-        input: 0,
-        output: 0,
-        cached: 0,
-        by_model: {},
-      },
-      messages: {
-        count: 0,
-        by_day: [],
-      },
-      sessions: {
-        count: 0,
-      },
-    },
+  if (!entry.message.usage) return null;
+
+  const {
+    input_tokens = 0,
+    output_tokens = 0,
+    cache_read_input_tokens = 0,
+    cache_creation_input_tokens = 0,
+  } = entry.message.usage;
+
+  // Claude Code writes one line per content block of a response, each carrying
+  // the full usage, and resumed sessions copy earlier lines into new files
+  const messageId = entry.message.id;
+  const dedupKey = messageId && entry.requestId ? `${messageId}:${entry.requestId}` : undefined;
+
+  return {
+    ...base,
+    kind: 'response',
+    dedupKey,
+    model: entry.message.model || 'unknown',
+    input: input_tokens,
+    output: output_tokens,
+    cache_read: cache_read_input_tokens,
+    cache_write: cache_creation_input_tokens,
+    ...toolEvents(entry.message.content),
   };
+}
 
-  const dayMap: Record<string, { count: number; input: number; output: number }> = {};
-  let minDate = new Date();
-  let maxDate = new Date(0);
-
-  if (!claudeDataExists()) {
-    progress.errors.push(`Claude projects directory not found: ${PROJECTS_DIR}`);
-    return { report: usage, progress };
-  }
+export const claudeSource: TranscriptSource = {
+  provider: 'anthropic',
+  plan: { name: 'Claude Pro', price_usd: 20, type: 'subscription' },
+  roots: getClaudeRoots,
 
-  try {
-    // Find all project directories
-    const projectDirs = fs.readdirSync(PROJECTS_DIR).filter((name) => {
-      const fullPath = path.join(PROJECTS_DIR, name);
+  async listFiles(root) {
+    const projectDirs = fs.readdirSync(root).filter((name) => {
+      const fullPath = path.join(root, name);
       return fs.statSync(fullPath).isDirectory();
     });
 
-    progress.projectsFound = projectDirs.length;
-    onProgress?.(progress);
-
-    // Process each project
+    const files = [];
     for (const project of projectDirs) {
-      const projectPath = path.join(PROJECTS_DIR, project);
-
-      // Find all JSONL files in the project
-      const files = await glob('**/*.jsonl', { cwd: projectPath });
-
-      for (const file of files) {
-        const filePath = path.join(projectPath, file);
-        progress.filesProcessed++;
-        usage.usage.sessions.count++;
-
-        try {
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const lines = content.split('\n');
-
-          for (const line of lines) {
-            const entry = parseJsonlLine(line);
-            if (!entry?.message?.usage) continue;
-
-            const timestamp = entry.timestamp;
-            if (timestamp && !isWithinDateRange(timestamp, startDate, endDate)) {
-              continue;
-            }
-
-            const {
-              input_tokens = 0,
-              output_tokens = 0,
-              cache_read_input_tokens = 0,
-              cache_creation_input_tokens = 0,
-            } = entry.message.usage;
-
-            const model = entry.message.model || 'unknown';
-
-            // Update date range
-            if (timestamp) {
-              const ts = new Date(timestamp);
-              if (ts < minDate) minDate = ts;
-              if (ts > maxDate) maxDate = ts;
-            }
-
-            // Aggregate tokens
-            usage.usage.tokens.input += input_tokens;
-            usage.usage.tokens.output += output_tokens;
-            usage.usage.tokens.cached =
-              (usage.usage.tokens.cached || 0) + cache_read_input_tokens + cache_creation_input_tokens;
-
-            // By model
-            if (!usage.usage.tokens.by_model[model]) {
-              usage.usage.tokens.by_model[model] = { input: 0, output: 0 };
-            }
-            usage.usage.tokens.by_model[model].input += input_tokens;
-            usage.usage.tokens.by_model[model].output += output_tokens;
-
-            // Messages & Days
-            usage.usage.messages.count++;
-            progress.messagesProcessed++;
-
-            if (timestamp) {
-              const dateKey = timestamp.split('T')[0];
-              if (!dayMap[dateKey]) {
-                dayMap[dateKey] = { count: 0, input: 0, output: 0 };
-              }
-              dayMap[dateKey].count++;
-              dayMap[dateKey].input += input_tokens;
-              dayMap[dateKey].output += output_tokens;
-            }
-          }
-        } catch (err) {
-          if (options.verbose) {
-            progress.errors.push(`Error reading ${filePath}: ${err}`);
-          }
-        }
-
-        onProgress?.(progress);
+      const projectPath = path.join(root, project);
+      for (const file of await glob('**/*.jsonl', { cwd: projectPath })) {
+        files.push({
+          project,
+          filePath: path.join(projectPath, file),
+          fileSessionId: path.basename(file, '.jsonl'),
+        });
       }
     }
+    return files;
+  },
 
-    // Finalize period
-    if (minDate.getTime() !== new Date().getTime()) {
-      usage.period.start = minDate.toISOString();
-    }
-    if (maxDate.getTime() !== new Date(0).getTime()) {
-      usage.period.end = maxDate.toISOString();
-    }
-
-    // Convert day map to array
-    usage.usage.messages.by_day = Object.entries(dayMap)
-      .map(([date, data]) => ({ date, ...data }))
-      .sort((a, b) => a.date.localeCompare(b.date));
-
-  } catch (err) {
-    progress.errors.push(`Error scanning projects: ${err}`);
-  }
-
-  return { report: usage, progress };
-}
+  createParser(file) {
+    return { parseLine: (line) => toUsageRecord(parseJsonlLine(line), file.fileSessionId) };
+  },
+};
 
 /**
  * Format token count for display
@@ -243,3 +208,28 @@ export function formatTokens(count: number): string {
   }
   return count.toString();
 }
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  } else if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+}
+
+/**
+ * Format a duration for display, e.g. 45s, 12m or 2h 05m
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  } else if (minutes >= 1) {
+    return `${minutes}m`;
+  }
+  return `${Math.round(ms / 1000)}s`;
+}
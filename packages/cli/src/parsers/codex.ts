@@ -0,0 +1,138 @@
+import * as path from 'path';
+import * as os from 'os';
+import { glob } from 'glob';
+import { localRoot, type TranscriptSource } from './transcripts.js';
+import type {
+  CodexRolloutLine,
+  CodexTokenUsage,
+  UsageRecord,
+} from '../types.js';
+
+const CODEX_DIR = process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
+const SESSIONS_DIR = path.join(CODEX_DIR, 'sessions');
+
+// Rollouts from before turn_context was recorded don't name their model
+const DEFAULT_CODEX_MODEL = 'gpt-5-codex';
+
+// Parser state carried across lines and persisted in the scan cache
+interface CodexParserState {
+  sessionId: string;
+  cwd?: string;
+  model?: string;
+  totals?: Required<CodexTokenUsage>;
+}
+
+function toTotals(usage: CodexTokenUsage = {}): Required<CodexTokenUsage> {
+  return {
+    input_tokens: usage.input_tokens || 0,
+    cached_input_tokens: usage.cached_input_tokens || 0,
+    output_tokens: usage.output_tokens || 0,
+    reasoning_output_tokens: usage.reasoning_output_tokens || 0,
+    total_tokens: usage.total_tokens || 0,
+  };
+}
+
+/**
+ * Create a line parser for one rollout file. Token usage comes from
+ * token_count events; the running total is diffed so repeated events
+ * for the same turn are not counted twice.
+ */
+function createCodexParser(fileSessionId: string, saved?: CodexParserState) {
+  const state: CodexParserState = saved ? { ...saved } : { sessionId: fileSessionId };
+
+  const record = (kind: UsageRecord['kind'], timestamp?: string) => ({
+    kind,
+    timestamp,
+    model: state.model || DEFAULT_CODEX_MODEL,
+    sessionId: state.sessionId,
+    cwd: state.cwd,
+    input: 0,
+    output: 0,
+    cache_read: 0,
+    cache_write: 0,
+  });
+
+  function parseLine(line: string): UsageRecord | null {
+    if (!line.trim()) return null;
+
+    let entry: CodexRolloutLine;
+    try {
+      entry = JSON.parse(line) as CodexRolloutLine;
+    } catch {
+      return null;
+    }
+
+    const payload = entry.payload;
+    if (!payload) return null;
+
+    if (entry.type === 'session_meta') {
+      if (payload.id) state.sessionId = payload.id;
+      if (payload.cwd) state.cwd = payload.cwd;
+      return null;
+    }
+
+    if (entry.type === 'turn_context') {
+      if (payload.model) state.model = payload.model;
+      if (payload.cwd) state.cwd = payload.cwd;
+      return null;
+    }
+
+    if (entry.type === 'response_item' && payload.type === 'function_call_output') {
+      return record('tool_result', entry.timestamp);
+    }
+
+    if (entry.type !== 'event_msg') return null;
+
+    if (payload.type === 'user_message') {
+      return record('prompt', entry.timestamp);
+    }
+
+    if (payload.type !== 'token_count' || !payload.info) return null;
+
+    let usage: Required<CodexTokenUsage>;
+    if (payload.info.total_token_usage) {
+      const totals = toTotals(payload.info.total_token_usage);
+      const previous = state.totals || toTotals();
+      usage = {
+        input_tokens: totals.input_tokens - previous.input_tokens,
+        cached_input_tokens: totals.cached_input_tokens - previous.cached_input_tokens,
+        output_tokens: totals.output_tokens - previous.output_tokens,
+        reasoning_output_tokens: totals.reasoning_output_tokens - previous.reasoning_output_tokens,
+        total_tokens: totals.total_tokens - previous.total_tokens,
+      };
+      state.totals = totals;
+    } else {
+      usage = toTotals(payload.info.last_token_usage);
+    }
+
+    if (usage.input_tokens <= 0 && usage.output_tokens <= 0) return null;
+
+    return {
+      ...record('response', entry.timestamp),
+      input: Math.max(0, usage.input_tokens - usage.cached_input_tokens),
+      output: Math.max(0, usage.output_tokens),
+      cache_read: Math.max(0, usage.cached_input_tokens),
+    };
+  }
+
+  return { parseLine, getState: () => state };
+}
+
+export const codexSource: TranscriptSource = {
+  provider: 'openai',
+  plan: { name: 'ChatGPT Plus', price_usd: 20, type: 'subscription' },
+  roots: () => [localRoot(SESSIONS_DIR)],
+
+  // Rollouts are grouped by date, not project; projects come from each session's cwd
+  async listFiles(root) {
+    const files = await glob('**/*.jsonl', { cwd: root });
+    return files.map((file) => ({
+      filePath: path.join(root, file),
+      fileSessionId: path.basename(file, '.jsonl').replace(/^rollout-/, ''),
+    }));
+  },
+
+  createParser(file, state) {
+    return createCodexParser(file.fileSessionId, state as CodexParserState | undefined);
+  },
+};
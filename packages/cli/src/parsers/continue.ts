@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import { glob } from 'glob';
+import { localRoot, type ScanRoot, type TranscriptFile, type TranscriptSource } from './transcripts.js';
+import { estimateTokens } from './tokens.js';
+import type {
+  ContinueMessageContent,
+  ContinueSession,
+  ContinueSessionInfo,
+  UsageRecord,
+  ScanOptions,
+} from '../types.js';
+
+const CONTINUE_DIR = process.env.CONTINUE_GLOBAL_DIR || path.join(os.homedir(), '.continue');
+const SESSION_INDEX = 'sessions.json';
+
+const UNKNOWN_MODEL = 'unknown';
+
+/**
+ * Continue directories to read: the global one, then any `--root` values
+ */
+export function getContinueRoots(options: ScanOptions = {}): ScanRoot[] {
+  const dirs = new Set([CONTINUE_DIR, ...(options.root || [])].map((root) => path.resolve(root)));
+  return [...dirs].map(localRoot);
+}
+
+/** A root is either a Continue directory or a folder that contains `.continue` */
+function sessionDirs(root: string): string[] {
+  return [path.join(root, 'sessions'), path.join(root, '.continue', 'sessions')];
+}
+
+function hasContinueData(root: string): boolean {
+  return sessionDirs(root).some((dir) => fs.existsSync(dir));
+}
+
+function contentText(content?: ContinueMessageContent): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.map((part) => part.text || '').join('\n');
+}
+
+function workspacePath(uri?: string): string | undefined {
+  const first = uri?.split(',')[0];
+  if (!first) return undefined;
+  try {
+    return first.startsWith('file://') ? fileURLToPath(first) : first;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a session file. Assistant messages that carry `usage` use its counts;
+ * others are estimated from the prompt log Continue kept for that turn, or
+ * from the conversation text when there is none.
+ */
+function parseSession(file: TranscriptFile, content: string): UsageRecord[] {
+  let session: ContinueSession;
+  try {
+    session = JSON.parse(content) as ContinueSession;
+  } catch {
+    return [];
+  }
+
+  const sessionId = session.sessionId || file.fileSessionId;
+  const cwd = workspacePath(session.workspaceDirectory);
+  const records: UsageRecord[] = [];
+  let context = 0; // Estimated tokens of the conversation so far
+
+  const record = (kind: UsageRecord['kind'], model = UNKNOWN_MODEL): UsageRecord => ({
+    kind,
+    model,
+    sessionId,
+    cwd,
+    input: 0,
+    output: 0,
+    cache_read: 0,
+    cache_write: 0,
+  });
+
+  for (const item of session.history || []) {
+    const message = item.message;
+    if (!message) continue;
+    const text = contentText(message.content);
+
+    if (message.role === 'user') {
+      records.push(record('prompt'));
+      context += estimateTokens(text);
+      continue;
+    }
+    if (message.role === 'tool') {
+      records.push(record('tool_result'));
+      context += estimateTokens(text);
+      continue;
+    }
+    if (message.role !== 'assistant') continue;
+
+    const log = item.promptLogs?.[item.promptLogs.length - 1];
+    const model = log?.completionOptions?.model || log?.modelTitle || session.chatModelTitle || UNKNOWN_MODEL;
+
+    if (message.usage) {
+      const cached = message.usage.promptTokensDetails?.cachedTokens || 0;
+      const cacheWrite = message.usage.promptTokensDetails?.cacheWriteTokens || 0;
+      records.push({
+        ...record('response', model),
+        input: Math.max(0, (message.usage.promptTokens || 0) - cached - cacheWrite),
+        output: message.usage.completionTokens || 0,
+        cache_read: cached,
+        cache_write: cacheWrite,
+      });
+      context = (message.usage.promptTokens || 0) + (message.usage.completionTokens || 0);
+      continue;
+    }
+
+    const input = log?.prompt ? estimateTokens(log.prompt) : context;
+    const output = estimateTokens(log?.completion || text);
+    records.push({ ...record('response', model), input, output, estimated: ['input', 'output'] });
+    context = input + output;
+  }
+
+  return records;
+}
+
+export const continueSource: TranscriptSource = {
+  provider: 'other',
+  plan: { name: 'API (Pay-As-You-Go)', price_usd: 0, type: 'payg' },
+  roots: getContinueRoots,
+  hasData: hasContinueData,
+
+  // Session files don't timestamp messages, so each one is dated by its
+  // creation time from the index, or by when it was last written
+  async listFiles(root) {
+    const files: TranscriptFile[] = [];
+
+    for (const dir of sessionDirs(root)) {
+      if (!fs.existsSync(dir)) continue;
+
+      const created: Record<string, string> = {};
+      try {
+        const index = JSON.parse(fs.readFileSync(path.join(dir, SESSION_INDEX), 'utf-8')) as ContinueSessionInfo[];
+        for (const info of index) {
+          const ms = Number(info.dateCreated);
+          if (info.sessionId && Number.isFinite(ms)) created[info.sessionId] = new Date(ms).toISOString();
+        }
+      } catch {
+        // No index; fall back to file times
+      }
+
+      for (const file of await glob('*.json', { cwd: dir, ignore: SESSION_INDEX })) {
+        const filePath = path.join(dir, file);
+        const sessionId = path.basename(file, '.json');
+        files.push({
+          filePath,
+          fileSessionId: sessionId,
+          timestamp: created[sessionId] || fs.statSync(filePath).mtime.toISOString(),
+        });
+      }
+    }
+
+    return files;
+  },
+
+  parseDocument: parseSession,
+};
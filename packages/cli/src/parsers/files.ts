@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+
+const NEWLINE = 0x0a;
+
+/**
+ * Stream a file line by line starting at a byte offset, keeping only the
+ * current line in memory. Returns the offset just past the last consumed line
+ * and the number of bytes read.
+ *
+ * A trailing line without a newline is only consumed if it parses as JSON,
+ * so a line that is still being written is picked up on the next scan.
+ */
+export async function streamLines(
+  filePath: string,
+  start: number,
+  onLine: (line: string) => void
+): Promise<{ offset: number; bytesRead: number }> {
+  const stream = fs.createReadStream(filePath, { start });
+  let offset = start;
+  let bytesRead = 0;
+  let pending: Buffer[] = [];
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    bytesRead += chunk.length;
+    let lineStart = 0;
+    let newline = chunk.indexOf(NEWLINE);
+
+    while (newline !== -1) {
+      pending.push(chunk.subarray(lineStart, newline));
+      const line = Buffer.concat(pending);
+      pending = [];
+      offset += line.length + 1;
+      onLine(line.toString('utf-8'));
+
+      lineStart = newline + 1;
+      newline = chunk.indexOf(NEWLINE, lineStart);
+    }
+
+    if (lineStart < chunk.length) pending.push(chunk.subarray(lineStart));
+  }
+
+  const tail = Buffer.concat(pending);
+  const text = tail.toString('utf-8');
+  if (text.trim()) {
+    try {
+      JSON.parse(text);
+      onLine(text);
+      offset += tail.length;
+    } catch {
+      // Incomplete line, leave it for the next scan
+    }
+  }
+
+  return { offset, bytesRead };
+}
+
+/**
+ * Run an async worker over items with at most `limit` in flight at once
+ */
+export async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+}
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { glob } from 'glob';
+import { localRoot, type TranscriptFile, type TranscriptSource } from './transcripts.js';
+import type {
+  GeminiChatRecording,
+  GeminiTelemetryRecord,
+  GeminiTokens,
+  UsageRecord,
+} from '../types.js';
+
+const GEMINI_DIR = path.join(os.homedir(), '.gemini');
+const TELEMETRY_LOG = 'telemetry.log';
+
+// Recordings and telemetry from before the model was logged
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
+
+function emptyRecord(kind: UsageRecord['kind'], sessionId: string, model?: string, timestamp?: string): UsageRecord {
+  return {
+    kind,
+    timestamp,
+    model: model || DEFAULT_GEMINI_MODEL,
+    sessionId,
+    input: 0,
+    output: 0,
+    cache_read: 0,
+    cache_write: 0,
+  };
+}
+
+/**
+ * Map Gemini token counts onto the report's fields. Cached tokens are part of
+ * `input`, tool-use prompt tokens are billed as input and thinking as output.
+ */
+function toTokenCounts(tokens: GeminiTokens) {
+  const cached = tokens.cached || 0;
+  return {
+    input: Math.max(0, (tokens.input || 0) - cached) + (tokens.tool || 0),
+    output: (tokens.output || 0) + (tokens.thoughts || 0),
+    cache_read: cached,
+  };
+}
+
+/**
+ * Parse a chat recording. Each user message is a prompt, each tool call a
+ * tool-result turn and each Gemini message with token counts a response.
+ */
+function parseChatRecording(file: TranscriptFile, content: string): UsageRecord[] {
+  let recording: GeminiChatRecording;
+  try {
+    recording = JSON.parse(content) as GeminiChatRecording;
+  } catch {
+    return [];
+  }
+
+  const sessionId = recording.sessionId || file.fileSessionId;
+  const records: UsageRecord[] = [];
+
+  for (const message of recording.messages || []) {
+    if (message.type === 'user') {
+      records.push(emptyRecord('prompt', sessionId, message.model, message.timestamp));
+      continue;
+    }
+    if (message.type !== 'gemini') continue;
+
+    for (const call of message.toolCalls || []) {
+      records.push(emptyRecord('tool_result', sessionId, message.model, call.timestamp || message.timestamp));
+    }
+
+    if (!message.tokens) continue;
+    records.push({
+      ...emptyRecord('response', sessionId, message.model, message.timestamp),
+      ...toTokenCounts(message.tokens),
+      dedupKey: message.id ? `${sessionId}:${message.id}` : undefined,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Split concatenated, pretty-printed JSON objects. The OpenTelemetry file
+ * exporter appends one object per record without a delimiter.
+ */
+function splitJsonObjects(content: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) objects.push(content.slice(start, i + 1));
+    }
+  }
+
+  return objects;
+}
+
+function numberAttr(attributes: Record<string, unknown>, key: string): number {
+  const value = Number(attributes[key]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+function stringAttr(attributes: Record<string, unknown>, key: string): string | undefined {
+  const value = attributes[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Parse the telemetry log written with `telemetry.target: local`. Only the
+ * api_response, user_prompt and tool_call log events are used; spans and
+ * metrics in the same file are skipped.
+ */
+function parseTelemetryLog(file: TranscriptFile, content: string): UsageRecord[] {
+  const records: UsageRecord[] = [];
+
+  for (const text of splitJsonObjects(content)) {
+    let entry: GeminiTelemetryRecord;
+    try {
+      entry = JSON.parse(text) as GeminiTelemetryRecord;
+    } catch {
+      continue;
+    }
+
+    const attributes = entry.attributes;
+    if (!attributes) continue;
+
+    const sessionId = stringAttr(attributes, 'session.id') || file.fileSessionId;
+    const timestamp = stringAttr(attributes, 'event.timestamp');
+    const model = stringAttr(attributes, 'model');
+
+    switch (attributes['event.name']) {
+      case 'gemini_cli.user_prompt':
+        records.push(emptyRecord('prompt', sessionId, model, timestamp));
+        break;
+      case 'gemini_cli.tool_call':
+        records.push(emptyRecord('tool_result', sessionId, model, timestamp));
+        break;
+      case 'gemini_cli.api_response':
+        records.push({
+          ...emptyRecord('response', sessionId, model, timestamp),
+          ...toTokenCounts({
+            input: numberAttr(attributes, 'input_token_count'),
+            output: numberAttr(attributes, 'output_token_count'),
+            cached: numberAttr(attributes, 'cached_content_token_count'),
+            thoughts: numberAttr(attributes, 'thoughts_token_count'),
+            tool: numberAttr(attributes, 'tool_token_count'),
+          }),
+        });
+        break;
+    }
+  }
+
+  return records;
+}
+
+export const geminiSource: TranscriptSource = {
+  provider: 'google',
+  plan: { name: 'Gemini Advanced', price_usd: 20, type: 'subscription' },
+  roots: () => [localRoot(GEMINI_DIR)],
+
+  // Chat recordings are grouped by a hash of the project root. The telemetry
+  // log holds the same turns, so it is only read when there are no recordings.
+  async listFiles(root) {
+    const chats = await glob('tmp/*/chats/session-*.json', { cwd: root });
+    if (chats.length > 0) {
+      return chats.map((file) => ({
+        project: file.split(/[\\/]/)[1],
+        filePath: path.join(root, file),
+        fileSessionId: path.basename(file, '.json').replace(/^session-/, ''),
+      }));
+    }
+
+    const telemetryPath = path.join(root, TELEMETRY_LOG);
+    if (!fs.existsSync(telemetryPath)) return [];
+    return [{ filePath: telemetryPath, fileSessionId: 'telemetry' }];
+  },
+
+  parseDocument(file, content) {
+    return path.basename(file.filePath) === TELEMETRY_LOG
+      ? parseTelemetryLog(file, content)
+      : parseChatRecording(file, content);
+  },
+};
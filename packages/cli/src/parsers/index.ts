@@ -1 +1,214 @@
+import * as fs from 'fs';
+import { claudeSource } from './claude.js';
+import { codexSource } from './codex.js';
+import { geminiSource } from './gemini.js';
+import { aiderSource } from './aider.js';
+import { continueSource } from './continue.js';
+import { readTranscripts, scanTranscripts, type TranscriptFile, type TranscriptSource } from './transcripts.js';
+import { mergeReports } from '../merge.js';
+import type { ParseProgress, ScanOptions, UsageRecord, UsageReport } from '../types.js';
+
+export * from './transcripts.js';
 export * from './claude.js';
+export * from './codex.js';
+export * from './gemini.js';
+export * from './aider.js';
+export * from './continue.js';
+export * from './tokens.js';
+
+export const USAGE_SOURCES = ['claude', 'codex', 'gemini', 'aider', 'continue'] as const;
+export type UsageSource = (typeof USAGE_SOURCES)[number];
+
+export interface SourceDescription {
+  id: UsageSource;
+  label: string;
+  provider: UsageReport['provider'];
+  dataPaths: string[];
+  detected: boolean;
+  files: number; // Transcripts a scan would read
+}
+
+export interface SourceScanResult {
+  source: UsageSource;
+  report: UsageReport;
+  progress: ParseProgress;
+}
+
+/**
+ * A local agent whose usage logs can be scanned
+ */
+export interface UsageParser {
+  id: UsageSource;
+  label: string;
+  provider: UsageReport['provider'];
+  /** Directories the parser reads */
+  dataPaths(options?: ScanOptions): string[];
+  /** Whether any of the agent's data directories hold data */
+  detect(options?: ScanOptions): boolean;
+  /** Report where the parser looks and how much it found */
+  describe(options?: ScanOptions): Promise<SourceDescription>;
+  /** Transcripts a scan would read */
+  listFiles(options?: ScanOptions): Promise<TranscriptFile[]>;
+  /** Usage records of the given transcripts, unaggregated */
+  read(files: TranscriptFile[], options?: ScanOptions): Promise<Array<{ file: TranscriptFile; records: UsageRecord[] }>>;
+  scan(
+    options?: ScanOptions,
+    onProgress?: (progress: ParseProgress) => void
+  ): Promise<{ report: UsageReport; progress: ParseProgress }>;
+}
+
+// Shown for sources that only search the directories passed with --root
+const NO_DATA_PATH = 'pass --root <dir> to search';
+
+function transcriptParser(id: UsageSource, label: string, source: TranscriptSource): UsageParser {
+  const hasData = (root: string) => (source.hasData ? source.hasData(root) : fs.existsSync(root));
+  const listFiles = async (options: ScanOptions = {}) => {
+    const roots = source.roots(options).filter((root) => hasData(root.dir));
+    return (await Promise.all(roots.map((root) => source.listFiles(root.dir)))).flat();
+  };
+  return {
+    id,
+    label,
+    provider: source.provider,
+    dataPaths: (options = {}) => source.roots(options).map((root) => root.dir),
+    detect: (options = {}) => source.roots(options).some((root) => hasData(root.dir)),
+    async describe(options = {}) {
+      return {
+        id,
+        label,
+        provider: source.provider,
+        dataPaths: source.roots(options).map((root) => root.dir),
+        detected: source.roots(options).some((root) => hasData(root.dir)),
+        files: (await listFiles(options)).length,
+      };
+    },
+    listFiles,
+    read: (files, options = {}) => readTranscripts(source, files, options),
+    scan: (options = {}, onProgress) => scanTranscripts(source, options, onProgress),
+  };
+}
+
+const PARSERS: Record<UsageSource, UsageParser> = {
+  claude: transcriptParser('claude', 'Claude Code', claudeSource),
+  codex: transcriptParser('codex', 'OpenAI Codex CLI', codexSource),
+  gemini: transcriptParser('gemini', 'Gemini CLI', geminiSource),
+  aider: transcriptParser('aider', 'Aider', aiderSource),
+  continue: transcriptParser('continue', 'Continue', continueSource),
+};
+
+/**
+ * Check whether a string names a supported source
+ */
+export function isUsageSource(name: string): name is UsageSource {
+  return (USAGE_SOURCES as readonly string[]).includes(name);
+}
+
+export function getParser(source: UsageSource): UsageParser {
+  return PARSERS[source];
+}
+
+/**
+ * Sources whose local data exists, in registry order
+ */
+export function detectSources(options: ScanOptions = {}): UsageSource[] {
+  return USAGE_SOURCES.filter((source) => PARSERS[source].detect(options));
+}
+
+/**
+ * Describe every registered source, detected or not
+ */
+export function describeSources(options: ScanOptions = {}): Promise<SourceDescription[]> {
+  return Promise.all(USAGE_SOURCES.map((source) => PARSERS[source].describe(options)));
+}
+
+/**
+ * Resolve `--source`: 'auto' for every detected source, or a comma-separated list of names.
+ * Names that are not registered are returned in `unknown`.
+ */
+export function resolveSources(
+  name = 'auto',
+  options: ScanOptions = {}
+): { sources: UsageSource[]; unknown: string[] } {
+  // Data directories are Claude's, so they narrow 'auto' to Claude
+  if (name === 'auto' && options.dataDir?.length) {
+    return { sources: ['claude'], unknown: [] };
+  }
+  if (name === 'auto') {
+    return { sources: detectSources(options), unknown: [] };
+  }
+  const names = name.split(',').map((n) => n.trim()).filter(Boolean);
+  return {
+    sources: [...new Set(names.filter(isUsageSource))],
+    unknown: names.filter((n) => !isUsageSource(n)),
+  };
+}
+
+export function sourceLabel(source: UsageSource): string {
+  return PARSERS[source].label;
+}
+
+export function sourceDataExists(source: UsageSource, options: ScanOptions = {}): boolean {
+  return PARSERS[source].detect(options);
+}
+
+export function getSourceDataPath(source: UsageSource, options: ScanOptions = {}): string {
+  return PARSERS[source].dataPaths(options).join(', ') || NO_DATA_PATH;
+}
+
+/**
+ * Scan a source's local data and aggregate usage
+ */
+export function scanUsage(
+  source: UsageSource,
+  options: ScanOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<{ report: UsageReport; progress: ParseProgress }> {
+  return PARSERS[source].scan(options, onProgress);
+}
+
+/**
+ * Add up progress counters from several sources
+ */
+export function combineProgress(progresses: ParseProgress[]): ParseProgress {
+  const total = (pick: (p: ParseProgress) => number) => progresses.reduce((sum, p) => sum + pick(p), 0);
+  return {
+    projectsFound: total((p) => p.projectsFound),
+    filesProcessed: total((p) => p.filesProcessed),
+    filesFromCache: total((p) => p.filesFromCache),
+    bytesProcessed: total((p) => p.bytesProcessed),
+    messagesProcessed: total((p) => p.messagesProcessed),
+    duplicatesDropped: total((p) => p.duplicatesDropped),
+    filesSkipped: total((p) => p.filesSkipped),
+    errors: progresses.flatMap((p) => p.errors),
+  };
+}
+
+/**
+ * Scan several sources and merge them into one report. Per-source results
+ * are returned as well for `scan --split`.
+ */
+export async function scanSources(
+  sources: UsageSource[],
+  options: ScanOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<{ report: UsageReport; progress: ParseProgress; results: SourceScanResult[] }> {
+  const results: SourceScanResult[] = [];
+
+  // Sources share the scan cache file, so they run one after another
+  for (const source of sources) {
+    const done = results.map((r) => r.progress);
+    const { report, progress } = await scanUsage(source, options, (p) => {
+      onProgress?.(combineProgress([...done, p]));
+    });
+    results.push({ source, report, progress });
+  }
+
+  // Sources with nothing in range would only add their provider to the mix
+  const withData = results.filter((r) => r.report.usage.messages.count > 0);
+
+  return {
+    report: mergeReports((withData.length > 0 ? withData : results).map((r) => r.report)),
+    progress: combineProgress(results.map((r) => r.progress)),
+    results,
+  };
+}
@@ -0,0 +1,30 @@
+// Token counts for logs that don't record usage, from OpenAI's o200k_base BPE
+// vocabulary. Other providers' tokenizers split text differently, so counts
+// for their models are close but not exact, and are flagged as estimates in
+// reports.
+import { countTokens } from 'gpt-tokenizer/encoding/o200k_base';
+
+/** How estimated token counts are produced, for CLI output */
+export const TOKEN_ESTIMATE_METHOD = 'o200k_base BPE tokenizer';
+
+// Transcripts can quote special tokens such as <|endoftext|>; count them as plain text
+const ENCODE_OPTIONS = { disallowedSpecial: new Set<string>() };
+
+// English text and code average about four characters per o200k_base token
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Count the tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return countTokens(text, ENCODE_OPTIONS);
+}
+
+/**
+ * Approximate a text's tokens from its length. Used for tool output sizes,
+ * which only need to be in the right range and are too many to tokenize.
+ */
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
@@ -0,0 +1,832 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { calculateUsageCost, buildUsageWindows, REPORT_SCHEMA_VERSION, type WindowMessage } from '@llm-usage/core';
+import {
+  loadCachedFile,
+  loadScanCache,
+  removeCachedFile,
+  saveCachedFile,
+  saveScanCache,
+  type CachedFile,
+  type ScanCache,
+} from '../cache.js';
+import { systemTimeZone, zonedBuckets } from '../timezone.js';
+import { streamLines, forEachConcurrent } from './files.js';
+import type {
+  ParseProgress,
+  UsageRecord,
+  UsageReport,
+  ScanOptions,
+  DayUsage,
+  HourUsage,
+  MessageTypeCounts,
+  EstimatedField,
+  ModelTokens,
+  UsageBreakdown,
+  ProjectUsage,
+  SessionUsage,
+  HostUsage,
+  ToolUsage,
+} from '../types.js';
+
+const DEFAULT_CONCURRENCY = 8;
+
+// Gaps between turns longer than this end a stretch of active time
+const DEFAULT_IDLE_MINUTES = 5;
+
+// Tool results at least this many (estimated) tokens long count as large outputs
+const LARGE_TOOL_OUTPUT_TOKENS = 2_000;
+
+// How often followTranscripts() lists directories again to pick up new sessions
+const RELIST_MS = 60_000;
+
+export interface TranscriptFile {
+  filePath: string;
+  fileSessionId: string; // Session id to use when lines don't carry one
+  project?: string;      // Project key; falls back to the record's cwd
+  timestamp?: string;    // For formats that don't timestamp each message
+  host?: string;         // Set from the root the file was found under
+}
+
+// A directory to scan and the machine its data came from
+export interface ScanRoot {
+  dir: string;
+  host: string;
+}
+
+/**
+ * A root on this machine, labelled with its hostname
+ */
+export function localRoot(dir: string): ScanRoot {
+  return { dir, host: os.hostname() };
+}
+
+/**
+ * Turns transcript lines into usage records. Parsers that track state across
+ * lines (current model, running totals) expose it so an incremental scan can
+ * resume from the cached byte offset.
+ */
+export interface LineParser {
+  parseLine(line: string): UsageRecord | null;
+  getState?(): unknown;
+}
+
+export interface TranscriptSource {
+  provider: UsageReport['provider'];
+  plan: UsageReport['plan'];
+  /** Directories to read; cached files under them are pruned when deleted */
+  roots(options: ScanOptions): ScanRoot[];
+  /** Whether a root holds this agent's data; defaults to the root existing */
+  hasData?(root: string): boolean;
+  listFiles(root: string): Promise<TranscriptFile[]>;
+  /** Line-oriented formats (JSONL); later scans only parse appended lines */
+  createParser?(file: TranscriptFile, state?: unknown): LineParser;
+  /** Whole-document formats that are rewritten in place; re-parsed whenever they change */
+  parseDocument?(file: TranscriptFile, content: string): UsageRecord[];
+}
+
+/**
+ * Check if a timestamp falls within the date range
+ */
+function isWithinDateRange(
+  timestamp: string,
+  startDate: Date | null,
+  endDate: Date | null
+): boolean {
+  const date = new Date(timestamp);
+  if (startDate && date < startDate) return false;
+  if (endDate && date > endDate) return false;
+  return true;
+}
+
+/**
+ * Count one turn under its kind; sidechain turns are only counted as sidechain
+ */
+function countTurn(target: Partial<MessageTypeCounts>, record: UsageRecord): void {
+  const key: keyof MessageTypeCounts = record.sidechain
+    ? 'sidechain'
+    : record.kind === 'prompt'
+      ? 'prompts'
+      : record.kind === 'tool_result'
+        ? 'tool_results'
+        : 'responses';
+  target[key] = (target[key] || 0) + 1;
+}
+
+/**
+ * Get a transcript's usage records, reusing the cached copy when the file is
+ * unchanged and only parsing appended lines when it has grown
+ */
+async function readFileRecords(
+  source: TranscriptSource,
+  file: TranscriptFile,
+  cached?: CachedFile
+): Promise<{ file: CachedFile; fromCache: boolean; bytesRead: number }> {
+  const stat = await fs.promises.stat(file.filePath);
+
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return { file: cached, fromCache: true, bytesRead: 0 };
+  }
+
+  if (source.parseDocument) {
+    const content = await fs.promises.readFile(file.filePath, 'utf-8');
+    return {
+      file: { size: stat.size, mtimeMs: stat.mtimeMs, offset: stat.size, records: source.parseDocument(file, content) },
+      fromCache: false,
+      bytesRead: stat.size,
+    };
+  }
+
+  if (!source.createParser) {
+    throw new Error(`No parser for ${file.filePath}`);
+  }
+
+  // Files that shrank were rewritten, so start over
+  const base: Partial<CachedFile> = cached && stat.size >= cached.size ? cached : {};
+  const records = [...(base.records || [])];
+  const parser = source.createParser(file, base.state);
+
+  const { offset, bytesRead } = await streamLines(file.filePath, base.offset || 0, (line) => {
+    const record = parser.parseLine(line);
+    if (record) records.push(record);
+  });
+
+  return {
+    file: { size: stat.size, mtimeMs: stat.mtimeMs, offset, records, state: parser.getState?.() },
+    fromCache: false,
+    bytesRead,
+  };
+}
+
+function addCount(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Read the usage records of some transcripts without aggregating them,
+ * reusing the scan cache where it is current
+ */
+export async function readTranscripts(
+  source: TranscriptSource,
+  files: TranscriptFile[],
+  options: Pick<ScanOptions, 'cache' | 'concurrency'> = {}
+): Promise<Array<{ file: TranscriptFile; records: UsageRecord[] }>> {
+  const results = new Map<TranscriptFile, UsageRecord[]>();
+
+  await forEachConcurrent(files, options.concurrency || DEFAULT_CONCURRENCY, async (file) => {
+    const cached = options.cache === false ? undefined : loadCachedFile(file.filePath);
+    const { file: parsed } = await readFileRecords(source, file, cached);
+    results.set(file, parsed.records);
+  });
+
+  return files.map((file) => ({ file, records: results.get(file) || [] }));
+}
+
+/**
+ * Share of a session's prompt tokens served from cache
+ */
+export function cacheHitRatio(tokens: Pick<ModelTokens, 'input' | 'cache_read' | 'cache_write'>): number {
+  const prompt = tokens.input + (tokens.cache_read || 0) + (tokens.cache_write || 0);
+  return prompt > 0 ? (tokens.cache_read || 0) / prompt : 0;
+}
+
+/**
+ * Wall-clock span of a session's turns, and how much of it had no gap longer than the idle threshold
+ */
+function sessionTimes(timestamps: string[], idleMs: number): { duration: number; active: number } {
+  const times = timestamps
+    .map((t) => Date.parse(t))
+    .filter((t) => !Number.isNaN(t))
+    .sort((a, b) => a - b);
+  let active = 0;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap <= idleMs) active += gap;
+  }
+  return { duration: times.length > 1 ? times[times.length - 1] - times[0] : 0, active };
+}
+
+/**
+ * Mark token fields that now include estimated counts
+ */
+function flagEstimated(target: Pick<ModelTokens, 'estimated'>, fields?: EstimatedField[]): void {
+  if (!fields || fields.length === 0) return;
+  target.estimated = [...new Set([...(target.estimated || []), ...fields])];
+}
+
+// Running totals for one project or session while scanning
+type TokenCounts = Required<Omit<ModelTokens, 'estimated'>>;
+
+interface BreakdownAccumulator {
+  tokens: TokenCounts & Pick<ModelTokens, 'estimated'> & { by_model: Record<string, TokenCounts & Pick<ModelTokens, 'estimated'>> };
+  messages: number;
+  first: string;
+  last: string;
+}
+
+function createAccumulator(): BreakdownAccumulator {
+  return {
+    tokens: { input: 0, output: 0, cache_read: 0, cache_write: 0, by_model: {} },
+    messages: 0,
+    first: '',
+    last: '',
+  };
+}
+
+/**
+ * Add one message's tokens to a project or session accumulator
+ */
+function accumulate(
+  acc: BreakdownAccumulator,
+  model: string,
+  counts: TokenCounts,
+  timestamp?: string,
+  estimated?: EstimatedField[]
+): void {
+  if (!acc.tokens.by_model[model]) {
+    acc.tokens.by_model[model] = { input: 0, output: 0, cache_read: 0, cache_write: 0 };
+  }
+  for (const target of [acc.tokens, acc.tokens.by_model[model]]) {
+    target.input += counts.input;
+    target.output += counts.output;
+    target.cache_read += counts.cache_read;
+    target.cache_write += counts.cache_write;
+    flagEstimated(target, estimated);
+  }
+  acc.messages++;
+
+  if (timestamp) {
+    if (!acc.first || timestamp < acc.first) acc.first = timestamp;
+    if (!acc.last || timestamp > acc.last) acc.last = timestamp;
+  }
+}
+
+/**
+ * Convert an accumulator to its report shape, pricing it from the catalog
+ */
+function finalizeBreakdown(acc: BreakdownAccumulator): UsageBreakdown {
+  const { by_model, ...tokens } = acc.tokens;
+  return {
+    tokens,
+    messages: acc.messages,
+    models: Object.keys(by_model),
+    first_timestamp: acc.first,
+    last_timestamp: acc.last,
+    cost: calculateUsageCost(acc.tokens, { at: acc.last || undefined }),
+  };
+}
+
+function emptyProgress(): ParseProgress {
+  return {
+    projectsFound: 0,
+    filesProcessed: 0,
+    filesFromCache: 0,
+    bytesProcessed: 0,
+    messagesProcessed: 0,
+    duplicatesDropped: 0,
+    filesSkipped: 0,
+    errors: [],
+  };
+}
+
+/**
+ * The date range selected by `--days`, `--start-date` and `--end-date`
+ */
+function dateRange(options: ScanOptions): { startDate: Date | null; endDate: Date | null } {
+  let startDate: Date | null = null;
+  let endDate: Date | null = null;
+
+  if (options.days) {
+    endDate = new Date();
+    startDate = new Date();
+    startDate.setDate(startDate.getDate() - options.days);
+  } else if (options.startDate) {
+    startDate = new Date(options.startDate);
+  }
+
+  if (options.endDate) {
+    endDate = new Date(options.endDate);
+  }
+
+  return { startDate, endDate };
+}
+
+/**
+ * Running totals for one usage report. Records are folded in a transcript at
+ * a time by a scan, or a few appended lines at a time by followTranscripts().
+ */
+interface UsageAggregator {
+  add(file: TranscriptFile, records: UsageRecord[]): void;
+  /** Build the report from the totals so far; more records can be added afterwards */
+  report(): UsageReport;
+}
+
+function createAggregator(
+  source: TranscriptSource,
+  options: ScanOptions,
+  roots: ScanRoot[],
+  progress: ParseProgress
+): UsageAggregator {
+  const { startDate, endDate } = dateRange(options);
+  const timeZone = options.tz || systemTimeZone();
+  const idleMinutes = options.idleMinutes ?? DEFAULT_IDLE_MINUTES;
+
+  // Initialize usage data
+  const usage: UsageReport = {
+    schema_version: REPORT_SCHEMA_VERSION,
+    provider: source.provider,
+    source: 'local_agent',
+    period: {
+      start: new Date().toISOString(),
+      end: new Date().toISOString(),
+    },
+    plan: { ...source.plan },
+    usage: {
+      tokens: {
+        input: 0,
+        output: 0,
+        cached: 0,
+        cache_read: 0,
+        cache_write: 0,
+        by_model: {},
+      },
+      messages: {
+        count: 0,
+        timezone: timeZone,
+        by_day: [],
+        by_hour: [],
+        by_type: { prompts: 0, responses: 0, tool_results: 0, sidechain: 0 },
+      },
+      sessions: {
+        count: 0,
+        idle_minutes: idleMinutes,
+      },
+    },
+  };
+
+  const dayMap: Record<string, Omit<DayUsage, 'date'>> = {};
+  const hourMap: Record<string, Omit<HourUsage, 'hour'>> = {};
+  const projectMap: Record<string, BreakdownAccumulator & { path?: string; sessions: Set<string> }> = {};
+  const sessionMap: Record<string, BreakdownAccumulator & { project: string; host?: string; peak: number }> = {};
+  const sessionTurns: Record<string, { count: number; times: string[] }> = {};
+  const hostMap: Record<string, BreakdownAccumulator & { sessions: Set<string> }> = {};
+  const windowMessages: WindowMessage[] = [];
+  const seenRecords = new Set<string>();
+
+  const getDay = (dateKey: string): Omit<DayUsage, 'date'> => {
+    if (!dayMap[dateKey]) {
+      dayMap[dateKey] = {
+        count: 0,
+        prompts: 0,
+        responses: 0,
+        tool_results: 0,
+        sidechain: 0,
+        turns: 0,
+        input: 0,
+        output: 0,
+        cache_read: 0,
+        cache_write: 0,
+      };
+    }
+    return dayMap[dateKey];
+  };
+  const getHour = (hourKey: string): Omit<HourUsage, 'hour'> => {
+    if (!hourMap[hourKey]) {
+      hourMap[hourKey] = { count: 0, turns: 0, input: 0, output: 0, cache_read: 0, cache_write: 0 };
+    }
+    return hourMap[hourKey];
+  };
+  const toolMap: Record<string, ToolUsage> = {};
+  const projectTools: Record<string, Record<string, number>> = {};
+  const toolNames = new Map<string, string>(); // tool_use id -> tool name
+  const seenToolEvents = new Set<string>();
+
+  const getTool = (name: string): ToolUsage => {
+    if (!toolMap[name]) {
+      toolMap[name] = { calls: 0, errors: 0, output_tokens: 0, large_outputs: 0, large_output_tokens: 0 };
+    }
+    return toolMap[name];
+  };
+
+  // Resumed sessions copy earlier lines into new files, so calls and results are matched by id
+  const countTools = (record: UsageRecord, project: string, day: Omit<DayUsage, 'date'> | null) => {
+    for (const use of record.tool_uses || []) {
+      if (seenToolEvents.has(`use:${use.id}`)) continue;
+      seenToolEvents.add(`use:${use.id}`);
+      toolNames.set(use.id, use.name);
+
+      getTool(use.name).calls++;
+      addCount((projectTools[project] = projectTools[project] || {}), use.name);
+      if (day) addCount((day.tool_calls = day.tool_calls || {}), use.name);
+    }
+
+    for (const result of record.tool_results || []) {
+      if (seenToolEvents.has(`result:${result.id}`)) continue;
+      seenToolEvents.add(`result:${result.id}`);
+
+      const tool = getTool(toolNames.get(result.id) || 'unknown');
+      tool.output_tokens += result.tokens;
+      if (result.tokens >= LARGE_TOOL_OUTPUT_TOKENS) {
+        tool.large_outputs++;
+        tool.large_output_tokens += result.tokens;
+      }
+      if (result.error) {
+        tool.errors++;
+        if (day) day.tool_errors = (day.tool_errors || 0) + 1;
+      }
+    }
+  };
+  let minDate: Date | null = null;
+  let maxDate: Date | null = null;
+
+  const add = (file: TranscriptFile, records: UsageRecord[]) => {
+    for (const record of records) {
+      const timestamp = record.timestamp || file.timestamp;
+      if (timestamp && !isWithinDateRange(timestamp, startDate, endDate)) {
+        continue;
+      }
+
+      // Days and hours are bucketed in the report's time zone
+      const buckets = timestamp ? zonedBuckets(timestamp, timeZone) : null;
+      const project = file.project || record.cwd || 'unknown';
+
+      // Each line of a response carries its own tool calls, so these are
+      // counted before repeated lines are dropped
+      countTools(record, project, buckets ? getDay(buckets.date) : null);
+
+      if (record.dedupKey) {
+        if (seenRecords.has(record.dedupKey)) {
+          progress.duplicatesDropped++;
+          continue;
+        }
+        seenRecords.add(record.dedupKey);
+      }
+
+      const { model } = record;
+
+      // Update date range
+      if (timestamp) {
+        if (record.estimatedTime || !record.timestamp) usage.usage.messages.estimated_times = true;
+        const ts = new Date(timestamp);
+        if (!minDate || ts < minDate) minDate = ts;
+        if (!maxDate || ts > maxDate) maxDate = ts;
+      }
+
+      const counts = {
+        input: record.input,
+        output: record.output,
+        cache_read: record.cache_read,
+        cache_write: record.cache_write,
+      };
+
+      // Turns by kind, per report, per day and per session
+      countTurn(usage.usage.messages.by_type!, record);
+
+      const turns = (sessionTurns[record.sessionId] = sessionTurns[record.sessionId] || { count: 0, times: [] });
+      turns.count++;
+      if (timestamp) turns.times.push(timestamp);
+
+      const day = buckets ? getDay(buckets.date) : null;
+      const hour = buckets ? getHour(buckets.hour) : null;
+      if (day && hour) {
+        countTurn(day, record);
+        day.turns = (day.turns || 0) + 1;
+        hour.turns = (hour.turns || 0) + 1;
+        windowMessages.push({ timestamp: timestamp!, kind: record.kind, ...counts });
+      }
+
+      // Only responses carry tokens
+      if (record.kind !== 'response') continue;
+
+      // Aggregate tokens
+      const tokens = usage.usage.tokens;
+      tokens.input += counts.input;
+      tokens.output += counts.output;
+      tokens.cache_read = (tokens.cache_read || 0) + counts.cache_read;
+      tokens.cache_write = (tokens.cache_write || 0) + counts.cache_write;
+      tokens.cached = (tokens.cached || 0) + counts.cache_read + counts.cache_write;
+      flagEstimated(tokens, record.estimated);
+
+      // By model
+      if (!tokens.by_model[model]) {
+        tokens.by_model[model] = { input: 0, output: 0, cache_read: 0, cache_write: 0 };
+      }
+      const modelTokens = tokens.by_model[model];
+      modelTokens.input += counts.input;
+      modelTokens.output += counts.output;
+      modelTokens.cache_read = (modelTokens.cache_read || 0) + counts.cache_read;
+      modelTokens.cache_write = (modelTokens.cache_write || 0) + counts.cache_write;
+      flagEstimated(modelTokens, record.estimated);
+
+      // By project & session
+      const { sessionId } = record;
+
+      if (!projectMap[project]) {
+        projectMap[project] = { ...createAccumulator(), sessions: new Set() };
+      }
+      if (record.cwd) projectMap[project].path = record.cwd;
+      projectMap[project].sessions.add(sessionId);
+      accumulate(projectMap[project], model, counts, timestamp, record.estimated);
+
+      if (!sessionMap[sessionId]) {
+        sessionMap[sessionId] = { ...createAccumulator(), project, host: file.host, peak: 0 };
+      }
+      const session = sessionMap[sessionId];
+      accumulate(session, model, counts, timestamp, record.estimated);
+      session.peak = Math.max(session.peak, counts.input + counts.cache_read + counts.cache_write);
+
+      // By host
+      if (file.host) {
+        if (!hostMap[file.host]) {
+          hostMap[file.host] = { ...createAccumulator(), sessions: new Set() };
+        }
+        hostMap[file.host].sessions.add(sessionId);
+        accumulate(hostMap[file.host], model, counts, timestamp, record.estimated);
+      }
+
+      // Messages & Days
+      usage.usage.messages.count++;
+      progress.messagesProcessed++;
+
+      for (const bucket of [day, hour]) {
+        if (!bucket) continue;
+        bucket.count++;
+        bucket.input += counts.input;
+        bucket.output += counts.output;
+        bucket.cache_read = (bucket.cache_read || 0) + counts.cache_read;
+        bucket.cache_write = (bucket.cache_write || 0) + counts.cache_write;
+      }
+    }
+  };
+
+  const report = (): UsageReport => {
+    // Finalize period
+    if (minDate) usage.period.start = minDate.toISOString();
+    if (maxDate) usage.period.end = maxDate.toISOString();
+
+    // Convert day map to array
+    usage.usage.messages.by_day = Object.entries(dayMap)
+      .map(([date, data]) => ({ date, ...data }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    usage.usage.messages.by_hour = Object.entries(hourMap)
+      .map(([hour, data]) => ({ hour, ...data }))
+      .sort((a, b) => a.hour.localeCompare(b.hour));
+
+    // Sessions with at least one turn in the date range
+    usage.usage.sessions.count = Object.keys(sessionTurns).length;
+
+    // Group messages into 5-hour limit windows
+    usage.usage.messages.by_window = buildUsageWindows(windowMessages);
+
+    // Convert project & session maps
+    const byProject: Record<string, ProjectUsage> = {};
+    for (const [key, acc] of Object.entries(projectMap)) {
+      byProject[key] = {
+        ...finalizeBreakdown(acc),
+        name: acc.path ? path.basename(acc.path) : key,
+        path: acc.path,
+        sessions: acc.sessions.size,
+        tool_calls: projectTools[key],
+      };
+    }
+    const bySession: Record<string, SessionUsage> = {};
+    for (const [key, acc] of Object.entries(sessionMap)) {
+      const turns = sessionTurns[key] || { count: 0, times: [] };
+      const { duration, active } = sessionTimes(turns.times, idleMinutes * 60_000);
+      bySession[key] = {
+        ...finalizeBreakdown(acc),
+        project: acc.project,
+        host: acc.host,
+        turns: turns.count,
+        duration_ms: duration,
+        active_ms: active,
+        cache_hit_ratio: cacheHitRatio(acc.tokens),
+        peak_context: acc.peak,
+      };
+    }
+    const byHost: Record<string, HostUsage> = {};
+    for (const [host, acc] of Object.entries(hostMap)) {
+      const dirs = roots.filter((root) => root.host === host).map((root) => root.dir);
+      byHost[host] = { ...finalizeBreakdown(acc), sessions: acc.sessions.size, data_dirs: dirs };
+    }
+    usage.usage.by_project = byProject;
+    progress.projectsFound = Math.max(progress.projectsFound, Object.keys(byProject).length);
+    usage.usage.by_session = bySession;
+    usage.usage.by_host = byHost;
+    if (Object.keys(toolMap).length > 0) {
+      usage.usage.tools = { large_output_threshold: LARGE_TOOL_OUTPUT_TOKENS, by_tool: toolMap };
+    }
+
+    return usage;
+  };
+
+  return { add, report };
+}
+
+/**
+ * List the transcripts under a source's roots, tagging each with its root's host
+ */
+async function listTranscripts(source: TranscriptSource, roots: ScanRoot[]): Promise<TranscriptFile[]> {
+  const listed = await Promise.all(
+    roots.map(async (root) =>
+      (await source.listFiles(root.dir)).map((file) => ({ ...file, host: file.host || root.host }))
+    )
+  );
+  return listed.flat();
+}
+
+/**
+ * Read a transcript through the scan cache, writing its shard when it changed
+ */
+async function readCachedRecords(
+  source: TranscriptSource,
+  file: TranscriptFile,
+  cache: ScanCache | null,
+  progress: ParseProgress
+): Promise<CachedFile> {
+  const { filePath } = file;
+  const { file: parsed, fromCache, bytesRead } = await readFileRecords(
+    source,
+    file,
+    cache ? loadCachedFile(filePath) : undefined
+  );
+  if (fromCache) progress.filesFromCache++;
+  if (cache) {
+    cache.files[filePath] = { size: parsed.size, mtimeMs: parsed.mtimeMs, records: parsed.records.length };
+    if (!fromCache) {
+      try {
+        saveCachedFile(filePath, parsed);
+      } catch (err) {
+        progress.errors.push(`Error writing scan cache: ${err}`);
+      }
+    }
+  }
+  progress.bytesProcessed += bytesRead;
+  return parsed;
+}
+
+/**
+ * Scan a source's transcripts and aggregate them into a usage report
+ */
+export async function scanTranscripts(
+  source: TranscriptSource,
+  options: ScanOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<{ report: UsageReport; progress: ParseProgress }> {
+  const progress = emptyProgress();
+  const roots = source.roots(options).filter((root) => fs.existsSync(root.dir));
+  const aggregator = createAggregator(source, options, roots, progress);
+
+  if (roots.length === 0) {
+    progress.errors.push(`Data directory not found: ${source.roots(options).map((r) => r.dir).join(', ')}`);
+    return { report: aggregator.report(), progress };
+  }
+
+  try {
+    const files = await listTranscripts(source, roots);
+    progress.projectsFound = new Set(files.map((f) => f.project).filter(Boolean)).size;
+    onProgress?.(progress);
+
+    const cache = options.cache === false ? null : loadScanCache();
+    const seenFiles = new Set<string>();
+
+    // Stream files concurrently; each file's records are aggregated as soon as it finishes
+    await forEachConcurrent(
+      files,
+      options.concurrency || DEFAULT_CONCURRENCY,
+      async (file) => {
+        const { filePath } = file;
+        seenFiles.add(filePath);
+        progress.filesProcessed++;
+
+        try {
+          const parsed = await readCachedRecords(source, file, cache, progress);
+          aggregator.add(file, parsed.records);
+        } catch (err) {
+          progress.filesSkipped++;
+          progress.errors.push(`Error reading ${filePath}: ${err}`);
+        }
+
+        onProgress?.(progress);
+      }
+    );
+
+    // Drop deleted transcripts from the cache and persist it
+    if (cache) {
+      for (const cachedPath of Object.keys(cache.files)) {
+        const underRoot = roots.some((root) => cachedPath.startsWith(path.resolve(root.dir) + path.sep));
+        if (underRoot && !seenFiles.has(cachedPath)) {
+          removeCachedFile(cache, cachedPath);
+        }
+      }
+      try {
+        saveScanCache(cache);
+      } catch (err) {
+        progress.errors.push(`Error writing scan cache: ${err}`);
+      }
+    }
+  } catch (err) {
+    progress.errors.push(`Error scanning projects: ${err}`);
+  }
+
+  return { report: aggregator.report(), progress };
+}
+
+export interface TranscriptFollower {
+  /** Fold in what changed since the last update and return the report so far */
+  update(): Promise<UsageReport>;
+}
+
+/**
+ * Keep a usage report current for live views. The first update reads every
+ * transcript through the scan cache. Later updates stat the transcripts they
+ * know and fold in only the lines appended to files whose size or mtime
+ * changed. Directories are listed again every RELIST_MS to find new sessions.
+ *
+ * With a start date, files last modified before it are never read. A file
+ * that shrank, or a whole-document transcript that changed, can't be folded
+ * in and starts the totals over.
+ */
+export function followTranscripts(source: TranscriptSource, options: ScanOptions = {}): TranscriptFollower {
+  const roots = source.roots(options).filter((root) => fs.existsSync(root.dir));
+  const { startDate } = dateRange(options);
+  const cache = options.cache === false ? null : loadScanCache();
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+
+  let progress = emptyProgress();
+  let aggregator = createAggregator(source, options, roots, progress);
+  // Where each known transcript was read up to; records are already in the totals
+  let known = new Map<string, { file: TranscriptFile; read: CachedFile }>();
+  let listedAt = 0;
+
+  const remember = (file: TranscriptFile, parsed: CachedFile) => {
+    known.set(file.filePath, { file, read: { ...parsed, records: [] } });
+  };
+
+  const readNewFiles = async () => {
+    const files = (await listTranscripts(source, roots)).filter((file) => !known.has(file.filePath));
+    await forEachConcurrent(files, concurrency, async (file) => {
+      try {
+        if (startDate && (await fs.promises.stat(file.filePath)).mtime < startDate) return;
+        const parsed = await readCachedRecords(source, file, cache, progress);
+        aggregator.add(file, parsed.records);
+        remember(file, parsed);
+      } catch (err) {
+        progress.filesSkipped++;
+        progress.errors.push(`Error reading ${file.filePath}: ${err}`);
+      }
+    });
+    if (cache && files.length > 0) {
+      try {
+        saveScanCache(cache);
+      } catch (err) {
+        progress.errors.push(`Error writing scan cache: ${err}`);
+      }
+    }
+  };
+
+  // Returns false when a change can't be folded in
+  const readAppended = async (): Promise<boolean> => {
+    let foldable = true;
+    await forEachConcurrent([...known.values()], concurrency, async ({ file, read }) => {
+      let stat: fs.Stats;
+      try {
+        stat = await fs.promises.stat(file.filePath);
+      } catch {
+        known.delete(file.filePath); // Deleted; what it held stays counted
+        return;
+      }
+      if (stat.size === read.size && stat.mtimeMs === read.mtimeMs) return;
+      if (stat.size < read.size || source.parseDocument) {
+        foldable = false;
+        return;
+      }
+      try {
+        const { file: parsed, bytesRead } = await readFileRecords(source, file, read);
+        progress.bytesProcessed += bytesRead;
+        aggregator.add(file, parsed.records);
+        remember(file, parsed);
+      } catch (err) {
+        progress.errors.push(`Error reading ${file.filePath}: ${err}`);
+      }
+    });
+    return foldable;
+  };
+
+  const update = async (): Promise<UsageReport> => {
+    if (!(await readAppended())) {
+      progress = emptyProgress();
+      aggregator = createAggregator(source, options, roots, progress);
+      known = new Map();
+      listedAt = 0;
+    }
+    if (Date.now() - listedAt >= RELIST_MS) {
+      listedAt = Date.now();
+      await readNewFiles();
+    }
+    return aggregator.report();
+  };
+
+  return { update };
+}
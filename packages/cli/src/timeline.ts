@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { calculateTokenCost } from '@llm-usage/core';
+import { getParser, resolveSources, USAGE_SOURCES, type UsageSource } from './parsers/index.js';
+import type { TranscriptFile } from './parsers/transcripts.js';
+import type { ScanOptions, SessionTimeline, TimelineTurn, UsageRecord } from './types.js';
+
+// A response whose context is at most this share of the previous one follows a compaction
+const COMPACTION_RATIO = 0.5;
+
+export interface SessionMatch {
+  source: UsageSource;
+  sessionId: string;
+  files: string[];
+  records: UsageRecord[];
+}
+
+/**
+ * Whether a transcript's name or folder names the session, e.g. <id>.jsonl,
+ * rollout-<date>-<id>.jsonl or <id>/subagents/agent-1.jsonl
+ */
+function namesSession(file: TranscriptFile, target: string): boolean {
+  const parts = file.filePath.split(path.sep).slice(-3);
+  return parts.some((part) => part.replace(/\.jsonl?$/, '').includes(target));
+}
+
+function groupBySession(source: UsageSource, results: Array<{ file: TranscriptFile; records: UsageRecord[] }>): SessionMatch[] {
+  const sessions = new Map<string, SessionMatch>();
+  for (const { file, records } of results) {
+    for (const record of records) {
+      let match = sessions.get(record.sessionId);
+      if (!match) {
+        match = { source, sessionId: record.sessionId, files: [], records: [] };
+        sessions.set(record.sessionId, match);
+      }
+      if (!match.files.includes(file.filePath)) match.files.push(file.filePath);
+      match.records.push(record);
+    }
+  }
+  return [...sessions.values()];
+}
+
+/**
+ * The source whose data directories hold a transcript, falling back to `--source` or Claude
+ */
+function sourceForPath(filePath: string, options: ScanOptions): UsageSource {
+  const owner = USAGE_SOURCES.find((source) =>
+    getParser(source).dataPaths(options).some((dir) => filePath.startsWith(path.resolve(dir) + path.sep))
+  );
+  if (owner) return owner;
+  const { sources } = resolveSources(options.source || 'claude', options);
+  return sources[0] || 'claude';
+}
+
+/**
+ * Find the sessions a `sessions <target>` argument refers to. The target is a
+ * transcript path, or a session id or prefix looked up in every source's data.
+ * With `allowPaths: false` the target is only ever treated as an id, so a
+ * caller taking ids from the network cannot point it at arbitrary files.
+ */
+export async function findSessions(
+  target: string,
+  options: ScanOptions = {},
+  { allowPaths = true }: { allowPaths?: boolean } = {}
+): Promise<SessionMatch[]> {
+  if (allowPaths && fs.existsSync(target) && fs.statSync(target).isFile()) {
+    const filePath = path.resolve(target);
+    const source = sourceForPath(filePath, options);
+    const parser = getParser(source);
+    const listed = (await parser.listFiles(options)).find((file) => file.filePath === filePath);
+    const file = listed || { filePath, fileSessionId: path.basename(filePath).replace(/\.[^.]+$/, '') };
+    return groupBySession(source, await parser.read([file], options));
+  }
+
+  const matches: SessionMatch[] = [];
+  for (const source of resolveSources(options.source, options).sources) {
+    const parser = getParser(source);
+    const files = await parser.listFiles(options);
+    const named = files.filter((file) => namesSession(file, target));
+
+    // Without a transcript named after the session, every transcript is searched
+    const sessions = groupBySession(source, await parser.read(named.length > 0 ? named : files, options));
+    const byId = sessions.filter((session) => session.sessionId.startsWith(target));
+    matches.push(...(byId.length > 0 || named.length === 0 ? byId : sessions));
+  }
+  return matches;
+}
+
+/**
+ * Turn-by-turn costs of one session. Repeated lines of a response are dropped;
+ * model switches and compactions are only flagged in the main conversation,
+ * since subagents keep their own context.
+ */
+export function buildSessionTimeline(match: SessionMatch): SessionTimeline {
+  const records = match.records
+    .map((record, order) => ({ record, order }))
+    .sort((a, b) => (a.record.timestamp || '').localeCompare(b.record.timestamp || '') || a.order - b.order)
+    .map(({ record }) => record);
+
+  const timestamps = records.map((r) => r.timestamp).filter((t): t is string => !!t);
+  const start = timestamps[0];
+  const startMs = start ? Date.parse(start) : NaN;
+
+  const seen = new Set<string>();
+  const turns: TimelineTurn[] = [];
+  let prompts = 0;
+  let toolResults = 0;
+  let cumulative = 0;
+  let previous: TimelineTurn | undefined;
+  let cwd: string | undefined;
+
+  for (const record of records) {
+    cwd = cwd || record.cwd;
+    if (record.dedupKey) {
+      if (seen.has(record.dedupKey)) continue;
+      seen.add(record.dedupKey);
+    }
+
+    if (record.kind === 'prompt') prompts++;
+    if (record.kind === 'tool_result') toolResults++;
+    if (record.kind !== 'response') continue;
+
+    const tokens = {
+      input: record.input,
+      output: record.output,
+      cache_read: record.cache_read,
+      cache_write: record.cache_write,
+    };
+    const cost = calculateTokenCost(record.model, tokens, { at: record.timestamp });
+    cumulative += cost;
+
+    const turn: TimelineTurn = {
+      index: turns.length + 1,
+      timestamp: record.timestamp,
+      elapsed_ms: record.timestamp && !Number.isNaN(startMs) ? Date.parse(record.timestamp) - startMs : 0,
+      model: record.model,
+      ...tokens,
+      context: record.input + record.cache_read + record.cache_write,
+      cost,
+      cumulative_cost: cumulative,
+      sidechain: record.sidechain,
+      estimated: record.estimated,
+    };
+
+    if (!record.sidechain) {
+      if (previous && previous.model !== turn.model) turn.model_switch = true;
+      if (previous && previous.context > 0 && turn.context <= previous.context * COMPACTION_RATIO) {
+        turn.compaction = true;
+      }
+      previous = turn;
+    }
+    turns.push(turn);
+  }
+
+  return {
+    session_id: match.sessionId,
+    source: match.source,
+    files: match.files,
+    cwd,
+    start,
+    end: timestamps[timestamps.length - 1],
+    prompts,
+    tool_results: toolResults,
+    total_cost: cumulative,
+    turns,
+  };
+}
@@ -0,0 +1,52 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The system's IANA time zone, e.g. Europe/Berlin
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Check that a string names a time zone Intl understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Day and hour bucket keys for a timestamp in a time zone:
+ * `{ date: '2025-10-04', hour: '2025-10-04T09' }`
+ */
+export function zonedBuckets(timestamp: string, timeZone: string): { date: string; hour: string } | null {
+  const time = new Date(timestamp);
+  if (Number.isNaN(time.getTime())) return null;
+
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return { date, hour: `${date}T${parts.hour}` };
+}
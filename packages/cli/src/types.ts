@@ -1,42 +1,52 @@
-// Shared types for CLI - mirrors main app types
+// Shared types for CLI. Report types come from @llm-usage/core, so reports
+// written here match the web app's and the extension's.
+import type { CustomPlan, EstimatedField, MessageUnit } from '@llm-usage/core';
 
-export interface TokenUsage {
-  input: number;
-  output: number;
-  cached?: number;
-  by_model: Record<string, { input: number; output: number }>;
-}
+export type {
+  EstimatedField,
+  ModelTokens,
+  TokenUsage,
+  MessageTypeCounts,
+  DayUsage,
+  HourUsage,
+  WindowUsage,
+  UsageBreakdown,
+  ProjectUsage,
+  SessionUsage,
+  HostUsage,
+  OriginUsage,
+  ToolUsage,
+  ToolStats,
+  UsageReport,
+  TimelineTurn,
+  SessionTimeline,
+} from '@llm-usage/core';
 
-export interface UsageReport {
-  provider: 'anthropic' | 'openai' | 'google' | 'other';
-  source: 'local_agent' | 'browser_extension' | 'api' | 'manual_upload' | 'demo';
-  period: {
-    start: string; // ISO Date string
-    end: string;   // ISO Date string
-  };
-  plan: {
-    name: string;
-    price_usd: number;
-    type: 'subscription' | 'payg';
-  };
-  usage: {
-    tokens: TokenUsage;
-    messages: {
-      count: number;
-      by_day: Array<{ date: string; count: number; input: number; output: number }>;
-    };
-    sessions: {
-      count: number;
-    };
-  };
+// One block of message.content; which fields are set depends on type
+export interface ClaudeContentBlock {
+  type: string;         // text, thinking, tool_use, tool_result, image...
+  text?: string;
+  id?: string;          // tool_use
+  name?: string;        // tool_use: Bash, Edit, mcp__server__tool...
+  tool_use_id?: string; // tool_result
+  content?: string | ClaudeContentBlock[]; // tool_result
+  is_error?: boolean;   // tool_result
 }
 
 export interface ClaudeMessage {
+  type?: 'user' | 'assistant' | 'summary' | 'system';
+  uuid?: string; // Line id, kept when a resumed session copies the line
   parentUuid?: string;
   sessionId?: string;
+  isSidechain?: boolean; // Turn belongs to a subagent (Task tool) conversation
+  isMeta?: boolean;      // Injected by Claude Code rather than typed by the user
+  requestId?: string; // API request that produced an assistant message
+  cwd?: string;
   message?: {
+    id?: string; // API message id, repeated on every line written for one response
     model?: string;
     role?: string;
+    content?: string | ClaudeContentBlock[];
     usage?: {
       input_tokens?: number;
       output_tokens?: number;
@@ -48,17 +58,190 @@ export interface ClaudeMessage {
   timestamp?: string;
 }
 
+// Token usage as reported by the OpenAI Responses API. input_tokens includes cached_input_tokens.
+export interface CodexTokenUsage {
+  input_tokens?: number;
+  cached_input_tokens?: number;
+  output_tokens?: number;
+  reasoning_output_tokens?: number;
+  total_tokens?: number;
+}
+
+// One line of a Codex CLI rollout file (~/.codex/sessions/YYYY/MM/DD/rollout-*.jsonl)
+export interface CodexRolloutLine {
+  timestamp?: string;
+  type?: 'session_meta' | 'turn_context' | 'event_msg' | 'response_item' | string;
+  payload?: {
+    type?: string;
+    id?: string;    // session_meta
+    cwd?: string;   // session_meta, turn_context
+    model?: string; // turn_context
+    info?: {
+      total_token_usage?: CodexTokenUsage;
+      last_token_usage?: CodexTokenUsage;
+    } | null;       // event_msg token_count
+  };
+}
+
+// Token counts on a Gemini CLI response. `input` includes `cached`.
+export interface GeminiTokens {
+  input?: number;
+  output?: number;
+  cached?: number;
+  thoughts?: number;
+  tool?: number;
+  total?: number;
+}
+
+// A Gemini CLI chat recording (~/.gemini/tmp/<projectHash>/chats/session-*.json)
+export interface GeminiChatRecording {
+  sessionId?: string;
+  projectHash?: string;
+  startTime?: string;
+  lastUpdated?: string;
+  messages?: Array<{
+    id?: string;
+    timestamp?: string;
+    type?: 'user' | 'gemini' | 'info' | 'error' | 'warning' | string;
+    model?: string;
+    tokens?: GeminiTokens | null;
+    toolCalls?: Array<{ id?: string; name?: string; status?: string; timestamp?: string }>;
+  }>;
+}
+
+// One OpenTelemetry log record from ~/.gemini/telemetry.log
+export interface GeminiTelemetryRecord {
+  attributes?: Record<string, unknown>;
+}
+
+// One line of an Aider analytics log (--analytics-log)
+export interface AiderAnalyticsLine {
+  event?: string; // 'launched', 'message_send', ...
+  time?: number;  // Unix seconds
+  properties?: {
+    main_model?: string;
+    edit_format?: string;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    cost?: number;
+  };
+}
+
+// Message content as Continue stores it: plain text or typed parts
+export type ContinueMessageContent = string | Array<{ type?: string; text?: string }>;
+
+// A Continue chat session (~/.continue/sessions/<sessionId>.json)
+export interface ContinueSession {
+  sessionId?: string;
+  title?: string;
+  workspaceDirectory?: string; // file:// URI
+  chatModelTitle?: string;
+  history?: Array<{
+    message?: {
+      role?: 'user' | 'assistant' | 'tool' | 'thinking' | 'system' | string;
+      content?: ContinueMessageContent;
+      usage?: {
+        promptTokens?: number; // Includes cached tokens
+        completionTokens?: number;
+        promptTokensDetails?: { cachedTokens?: number; cacheWriteTokens?: number };
+      };
+    };
+    promptLogs?: Array<{
+      modelTitle?: string;
+      completionOptions?: { model?: string };
+      prompt?: string;
+      completion?: string;
+    }>;
+  }>;
+}
+
+// An entry in ~/.continue/sessions/sessions.json
+export interface ContinueSessionInfo {
+  sessionId: string;
+  title?: string;
+  dateCreated?: string; // Epoch milliseconds, as a string
+  workspaceDirectory?: string;
+}
+
+// One transcript turn, as stored in the scan cache. Only responses carry tokens.
+export interface UsageRecord {
+  kind: 'prompt' | 'response' | 'tool_result';
+  sidechain?: boolean;
+  dedupKey?: string; // message.id:requestId for responses, the line's uuid for prompts and tool results
+  timestamp?: string;
+  estimatedTime?: boolean; // timestamp is when the session started, not when this turn happened
+  model: string;
+  sessionId: string;
+  cwd?: string;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write: number;
+  estimated?: EstimatedField[];
+  tool_uses?: Array<{ id: string; name: string }>;
+  tool_results?: Array<{ id: string; tokens: number; error?: boolean }>; // tokens are approximated from the text's length
+}
+
+// Counters reported while a parser scans local data
+export interface ParseProgress {
+  projectsFound: number;
+  filesProcessed: number;
+  filesFromCache: number;
+  bytesProcessed: number; // Bytes read from disk; unchanged cached files add nothing
+  messagesProcessed: number;
+  duplicatesDropped: number; // Repeated lines for the same API response, and lines a resumed session copied
+  filesSkipped: number; // Unreadable or corrupt transcripts
+  errors: string[];
+}
+
 export interface ScanOptions {
+  source?: string; // 'auto' or comma-separated parser names from parsers/index.ts
   days?: number;
   startDate?: string;
   endDate?: string;
   output?: string;
   json?: boolean;
   verbose?: boolean;
+  byProject?: boolean;
+  split?: boolean; // One report per source instead of a merged report
+  root?: string[]; // --root: extra directories to search for per-repository logs (Aider, Continue)
+  dataDir?: string[]; // --data-dir: Claude data directories, each optionally 'label=path'
+  tz?: string; // IANA time zone for day and hour buckets; defaults to the system zone
+  idleMinutes?: number; // Gaps longer than this don't count towards a session's active time
+  cache?: boolean; // false with --no-cache
+  concurrency?: number; // Max transcripts read at once
 }
 
 export interface AnalyzeOptions {
   plan?: string;
   price?: number;
   verbose?: boolean;
+  byProject?: boolean;
+  windows?: boolean;
+  unit?: MessageUnit;
+  dataDir?: string[]; // Scan these Claude data directories instead of reading a report
+  tz?: string;
+  format?: string; // 'text' or 'json'
+}
+
+// Monthly spending limits kept by `llm-usage budget` in ~/.config/llm-usage/budgets.json
+export type BudgetScope = 'total' | 'project' | 'host';
+
+export interface Budget {
+  scope: BudgetScope;
+  name?: string;  // Project name or host label; unset for 'total'
+  amount: number; // API-equivalent USD per calendar month
+  alert: number;  // Percent of amount at which `budget check` fails
+}
+
+export interface BudgetConfig {
+  version: number;
+  budgets: Budget[];
+}
+
+// Plan overrides and custom plans read from ~/.config/llm-usage/plans.json
+export interface PlansConfig {
+  version: number;
+  plans: CustomPlan[];
 }
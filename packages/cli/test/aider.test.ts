@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { aiderSource } from '../src/parsers/aider.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture } from './helpers.js';
+
+test('reads Tokens lines and estimates replies without one', async () => {
+  const { report } = await scanTranscripts(aiderSource, { root: [fixture('aider', 'app')], tz: 'UTC', cache: false });
+  const { tokens, messages } = report.usage;
+
+  // /add never reaches the model, so it is not a prompt
+  assert.deepEqual(messages.by_type, { prompts: 2, responses: 2, tool_results: 0, sidechain: 0 });
+  assert.deepEqual(Object.keys(tokens.by_model), ['claude-sonnet-4-20250514']);
+  assert.equal(tokens.cache_read, 1500);
+  assert.equal(tokens.cache_write, 1100);
+  assert.ok(tokens.output > 210);
+  assert.deepEqual(tokens.estimated, ['input', 'output']);
+  assert.equal(report.usage.sessions.count, 1);
+});
+
+test('dates chat history turns by their session start and says so', async () => {
+  const { report } = await scanTranscripts(aiderSource, { root: [fixture('aider', 'app')], tz: 'UTC', cache: false });
+
+  // The header is written in local time
+  const started = new Date('2026-10-01T09:00:00').toISOString();
+  assert.equal(report.period.start, started);
+  assert.equal(report.period.end, started);
+  assert.equal(report.usage.messages.estimated_times, true);
+});
+
+test('reads exact counts and times from an analytics log', async () => {
+  const { report } = await scanTranscripts(aiderSource, { root: [fixture('aider', 'api')], tz: 'UTC', cache: false });
+  const { tokens, messages } = report.usage;
+
+  assert.equal(tokens.input, 3000);
+  assert.equal(tokens.output, 420);
+  assert.equal(tokens.estimated, undefined);
+  assert.deepEqual(Object.keys(tokens.by_model), ['gpt-4o']);
+  assert.equal(report.period.start, '2026-10-01T10:01:00.000Z');
+  assert.equal(report.period.end, '2026-10-01T10:05:00.000Z');
+  assert.equal(messages.estimated_times, undefined);
+});
+
+test('skips analytics logs in repositories that keep a chat history', async () => {
+  const files = await aiderSource.listFiles(fixture('aider'));
+
+  assert.deepEqual(files.map((file) => file.filePath).sort(), [
+    fixture('aider', 'api', '.aider.analytics.jsonl'),
+    fixture('aider', 'app', '.aider.chat.history.md'),
+  ]);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claudeSource } from '../src/parsers/claude.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, runCli, tempDir } from './helpers.js';
+import type { AnalyzeResult } from '../src/commands/analyze.js';
+
+async function reportFile(): Promise<string> {
+  const { report } = await scanTranscripts(claudeSource, { dataDir: [fixture('claude')], tz: 'UTC', cache: false });
+  const file = path.join(tempDir(), 'usage_report.json');
+  fs.writeFileSync(file, JSON.stringify(report));
+  return file;
+}
+
+test('plan fit measures savings from the --price paid', async () => {
+  const file = await reportFile();
+  const listed = JSON.parse(runCli('analyze', file, '--plan', 'Claude Max 20x', '--format', 'json')) as AnalyzeResult;
+  const paid = JSON.parse(runCli('analyze', file, '--plan', 'Claude Max 20x', '--price', '30', '--format', 'json')) as AnalyzeResult;
+
+  assert.equal(listed.plan_fit?.currentPrice, 200);
+  assert.equal(listed.plan_fit?.savings, 180);
+  assert.equal(paid.plan.price_usd, 30);
+  assert.equal(paid.plan_fit?.currentPrice, 30);
+  assert.equal(paid.plan_fit?.savings, 10);
+});
+
+test('spreads the API cost of the report period over a month', async () => {
+  const result = JSON.parse(runCli('analyze', await reportFile(), '--format', 'json')) as AnalyzeResult;
+
+  // The fixture's turns are seconds apart, so the report covers one day
+  assert.equal(result.cost.period_days, 1);
+  assert.ok(result.cost.api_equivalent > 0);
+  assert.ok(Math.abs(result.cost.api_equivalent_monthly - result.cost.api_equivalent * (365.25 / 12)) < 1e-9);
+  assert.equal(result.cost.difference, result.cost.plan_price - result.cost.api_equivalent_monthly);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { claudeSource } from '../src/parsers/claude.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { checkBudgets } from '../src/commands/budget.js';
+import { fixture } from './helpers.js';
+
+// The fixture's usage costs $0.00471 at API rates
+async function laptopReport() {
+  return (await scanTranscripts(claudeSource, { dataDir: [`laptop=${fixture('claude')}`], tz: 'UTC', cache: false })).report;
+}
+
+test('ranks a budget over, alerting, projected over or ok', async () => {
+  const results = checkBudgets(await laptopReport(), [
+    { scope: 'total', amount: 0.004, alert: 80 },
+    { scope: 'total', amount: 0.005, alert: 90 },
+    { scope: 'total', amount: 0.01, alert: 80 },
+    { scope: 'total', amount: 1, alert: 80 },
+  ], 10, 30);
+
+  assert.deepEqual(results.map((result) => result.status), ['over', 'alert', 'projected', 'ok']);
+  assert.ok(Math.abs(results[0].spent - 0.00471) < 1e-9);
+  assert.ok(Math.abs(results[1].used_percent - 94.2) < 1e-9);
+});
+
+test('projects the daily average so far over the whole month', async () => {
+  const report = await laptopReport();
+  const budgets = [{ scope: 'total' as const, amount: 0.1, alert: 80 }];
+  const [firstDay, lastDay] = [1, 30].map((day) => checkBudgets(report, budgets, day, 30)[0]);
+
+  assert.ok(Math.abs(firstDay.projected - 0.1413) < 1e-9);
+  assert.equal(firstDay.status, 'projected');
+  assert.ok(Math.abs(lastDay.projected - 0.00471) < 1e-9);
+  assert.equal(lastDay.status, 'ok');
+});
+
+test('spends a project budget by name or key, and a host budget by label', async () => {
+  const spent = checkBudgets(await laptopReport(), [
+    { scope: 'project', name: 'app', amount: 1, alert: 80 },
+    { scope: 'project', name: '-home-dev-app', amount: 1, alert: 80 },
+    { scope: 'project', name: 'web', amount: 1, alert: 80 },
+    { scope: 'host', name: 'laptop', amount: 1, alert: 80 },
+    { scope: 'host', name: 'desktop', amount: 1, alert: 80 },
+  ], 10, 30).map((result) => Math.round(result.spent * 1e5));
+
+  assert.deepEqual(spent, [471, 471, 0, 471, 0]);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claudeSource } from '../src/parsers/claude.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { clearScanCache, getCachePath, getCacheSize } from '../src/cache.js';
+import { fixture, tempDir } from './helpers.js';
+
+process.env.XDG_CACHE_HOME = tempDir();
+
+function assistantLine(n: number): string {
+  return `${JSON.stringify({
+    type: 'assistant',
+    uuid: `extra-${n}`,
+    sessionId: 'claude-session-2',
+    cwd: '/home/dev/app',
+    timestamp: `2026-10-02T09:00:0${n}.000Z`,
+    requestId: `req_extra_${n}`,
+    message: { id: `msg_extra_${n}`, model: 'claude-sonnet-4-20250514', content: [], usage: { input_tokens: 10, output_tokens: 5 } },
+  })}\n`;
+}
+
+// A copy of the Claude fixture with a second session, so tests can change it
+function dataDir(): { dir: string; session: string } {
+  const dir = tempDir();
+  fs.cpSync(fixture('claude'), dir, { recursive: true });
+  const session = path.join(dir, 'projects', '-home-dev-app', 'session-2.jsonl');
+  fs.writeFileSync(session, assistantLine(1));
+  return { dir, session };
+}
+
+test('reads unchanged transcripts from the cache', async (t) => {
+  t.after(() => clearScanCache());
+  const { dir } = dataDir();
+
+  const first = await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+  const second = await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+
+  assert.equal(first.progress.filesFromCache, 0);
+  assert.equal(second.progress.filesFromCache, 2);
+  assert.equal(second.progress.bytesProcessed, 0);
+  assert.deepEqual(second.report.usage, first.report.usage);
+});
+
+test('only parses the lines appended since the last scan', async (t) => {
+  t.after(() => clearScanCache());
+  const { dir, session } = dataDir();
+  await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+
+  const appended = assistantLine(2);
+  fs.appendFileSync(session, appended);
+  const { report, progress } = await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+  const uncached = await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC', cache: false });
+
+  assert.equal(progress.filesFromCache, 1);
+  assert.equal(progress.bytesProcessed, Buffer.byteLength(appended));
+  assert.deepEqual(report.usage, uncached.report.usage);
+});
+
+test('keeps a shard per transcript and drops those of deleted ones', async () => {
+  const { dir, session } = dataDir();
+  const shards = path.join(getCachePath(), 'files');
+
+  await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+  assert.equal(fs.readdirSync(shards).length, 2);
+  assert.ok(getCacheSize() > 0);
+
+  fs.rmSync(session);
+  await scanTranscripts(claudeSource, { dataDir: [dir], tz: 'UTC' });
+  assert.equal(fs.readdirSync(shards).length, 1);
+
+  assert.equal(clearScanCache(), true);
+  assert.equal(getCacheSize(), 0);
+  assert.equal(clearScanCache(), false);
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claudeSource } from '../src/parsers/claude.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, tempDir } from './helpers.js';
+
+const SESSION = path.join('projects', '-home-dev-app', 'session-1.jsonl');
+const options = { dataDir: [fixture('claude')], tz: 'UTC', cache: false };
+
+test('drops repeated lines of the same response', async () => {
+  const { report, progress } = await scanTranscripts(claudeSource, options);
+
+  assert.equal(progress.duplicatesDropped, 1);
+  assert.equal(report.usage.messages.count, 2);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 1, responses: 2, tool_results: 1, sidechain: 0 });
+  assert.equal(report.usage.tokens.input, 120);
+  assert.equal(report.usage.tokens.output, 50);
+  assert.equal(report.usage.tokens.cache_read, 4600);
+  assert.equal(report.usage.tokens.cache_write, 500);
+  assert.equal(report.usage.by_session?.['claude-session-1'].turns, 4);
+});
+
+test('drops prompts and tool results a resumed session copied', async () => {
+  const dir = tempDir();
+  const original = path.join(dir, SESSION);
+  fs.mkdirSync(path.dirname(original), { recursive: true });
+  fs.copyFileSync(fixture('claude', SESSION), original);
+
+  // Resuming copies the earlier lines, uuids included, into the new session's file
+  const copied = fs.readFileSync(original, 'utf-8').replaceAll('claude-session-1', 'claude-session-2');
+  const prompt = JSON.stringify({
+    type: 'user',
+    uuid: 'line-6',
+    sessionId: 'claude-session-2',
+    cwd: '/home/dev/app',
+    timestamp: '2026-10-01T10:00:00.000Z',
+    message: { role: 'user', content: 'Now the tests' },
+  });
+  fs.writeFileSync(path.join(path.dirname(original), 'session-2.jsonl'), `${copied}${prompt}\n`);
+
+  const { report, progress } = await scanTranscripts(claudeSource, { ...options, dataDir: [dir] });
+
+  assert.equal(progress.duplicatesDropped, 6);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 2, responses: 2, tool_results: 1, sidechain: 0 });
+  assert.equal(report.usage.tokens.output, 50);
+});
+
+test('counts tool calls from every line of a response', async () => {
+  const { report } = await scanTranscripts(claudeSource, options);
+  const bash = report.usage.tools?.by_tool.Bash;
+
+  assert.equal(bash?.calls, 1);
+  // 'README.md\npackage.json' is 22 characters
+  assert.equal(bash?.output_tokens, 6);
+  assert.deepEqual(report.usage.messages.by_day[0].tool_calls, { Bash: 1 });
+});
+
+test('buckets days in the requested time zone', async () => {
+  const { report } = await scanTranscripts(claudeSource, { ...options, tz: 'Pacific/Kiritimati' });
+
+  assert.equal(report.usage.messages.timezone, 'Pacific/Kiritimati');
+  assert.equal(report.usage.messages.by_day[0].date, '2026-10-01');
+  assert.equal(report.usage.messages.by_hour?.[0].hour, '2026-10-01T23');
+});
+
+test('counts only sessions with turns in the date range', async () => {
+  const dir = tempDir();
+  const first = path.join(dir, SESSION);
+  fs.mkdirSync(path.dirname(first), { recursive: true });
+  fs.copyFileSync(fixture('claude', SESSION), first);
+  const later = {
+    type: 'user',
+    uuid: 'line-10',
+    sessionId: 'claude-session-2',
+    cwd: '/home/dev/app',
+    timestamp: '2026-10-05T09:00:00.000Z',
+    message: { role: 'user', content: 'Run the tests' },
+  };
+  fs.writeFileSync(path.join(path.dirname(first), 'session-2.jsonl'), JSON.stringify(later) + '\n');
+
+  const all = await scanTranscripts(claudeSource, { ...options, dataDir: [dir] });
+  assert.equal(all.report.usage.sessions.count, 2);
+
+  const { report } = await scanTranscripts(claudeSource, { ...options, dataDir: [dir], startDate: '2026-10-03' });
+  assert.equal(report.usage.sessions.count, 1);
+  assert.equal(report.usage.messages.by_type?.prompts, 1);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { codexSource } from '../src/parsers/codex.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, fromDir, tempDir } from './helpers.js';
+
+const ROLLOUT = path.join('2026', '10', '01', 'rollout-2026-10-01T10-00-00-codex-session-1.jsonl');
+
+test('diffs token_count totals so repeated events count once', async () => {
+  const source = fromDir(codexSource, fixture('codex'));
+  const { report } = await scanTranscripts(source, { tz: 'UTC', cache: false });
+
+  // Cached input is reported inside input_tokens
+  assert.equal(report.usage.tokens.input, 1300);
+  assert.equal(report.usage.tokens.cache_read, 1200);
+  assert.equal(report.usage.tokens.output, 250);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 1, responses: 2, tool_results: 1, sidechain: 0 });
+  assert.deepEqual(Object.keys(report.usage.tokens.by_model), ['gpt-5-codex']);
+  assert.equal(report.usage.by_session?.['codex-session-1'].project, '/home/dev/api');
+});
+
+test('resumes the running totals from the scan cache', async (t) => {
+  const dir = tempDir();
+  const rollout = path.join(dir, 'sessions', ROLLOUT);
+  fs.mkdirSync(path.dirname(rollout), { recursive: true });
+  fs.copyFileSync(fixture('codex', ROLLOUT), rollout);
+
+  const previousCache = process.env.XDG_CACHE_HOME;
+  process.env.XDG_CACHE_HOME = path.join(dir, 'cache');
+  t.after(() => {
+    if (previousCache === undefined) delete process.env.XDG_CACHE_HOME;
+    else process.env.XDG_CACHE_HOME = previousCache;
+  });
+
+  const source = fromDir(codexSource, path.join(dir, 'sessions'));
+  await scanTranscripts(source, { tz: 'UTC' });
+
+  const appended = JSON.stringify({
+    timestamp: '2026-10-01T10:01:00.000Z',
+    type: 'event_msg',
+    payload: {
+      type: 'token_count',
+      info: { total_token_usage: { input_tokens: 3000, cached_input_tokens: 1200, output_tokens: 300, total_tokens: 3300 } },
+    },
+  }) + '\n';
+  fs.appendFileSync(rollout, appended);
+
+  const { report, progress } = await scanTranscripts(source, { tz: 'UTC' });
+  assert.equal(progress.filesFromCache, 0);
+  assert.equal(progress.bytesProcessed, Buffer.byteLength(appended));
+  assert.equal(report.usage.tokens.input, 1800);
+  assert.equal(report.usage.tokens.output, 300);
+
+  const again = await scanTranscripts(source, { tz: 'UTC' });
+  assert.equal(again.progress.filesFromCache, 1);
+  assert.equal(again.report.usage.tokens.input, 1800);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { continueSource } from '../src/parsers/continue.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, fromDir } from './helpers.js';
+
+const source = fromDir(continueSource, fixture('continue'));
+const options = { tz: 'UTC', cache: false };
+
+test('reads usage Continue recorded and estimates the rest', async () => {
+  const { report } = await scanTranscripts(source, options);
+  const { by_model } = report.usage.tokens;
+
+  // promptTokens include cached tokens
+  assert.deepEqual(by_model['claude-sonnet-4-20250514'], { input: 2000, output: 600, cache_read: 8000, cache_write: 1000 });
+  assert.deepEqual(by_model['gpt-4o'].estimated, ['input', 'output']);
+  assert.ok(by_model['gpt-4o'].input > 0 && by_model['gpt-4o'].output > 0);
+  assert.deepEqual(report.usage.tokens.estimated, ['input', 'output']);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 2, responses: 3, tool_results: 1, sidechain: 0 });
+});
+
+test('dates sessions from the index and keys them by workspace', async () => {
+  const { report } = await scanTranscripts(source, options);
+
+  assert.equal(report.usage.sessions.count, 2);
+  assert.deepEqual(report.usage.messages.by_day.map((day) => day.date), ['2026-10-01', '2026-10-02']);
+  assert.equal(report.usage.messages.estimated_times, true);
+  assert.equal(report.usage.by_session?.['continue-session-1'].project, '/home/dev/api');
+  assert.equal(report.usage.by_session?.['continue-session-2'].project, '/home/dev/web');
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { claudeSource } from '../src/parsers/claude.js';
+import { codexSource } from '../src/parsers/codex.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { diffReports } from '../src/commands/diff.js';
+import { fixture, fromDir } from './helpers.js';
+
+const claudeOptions = { dataDir: [fixture('claude')], tz: 'UTC', cache: false };
+
+test('compares totals and the days both reports cover', async () => {
+  const before = (await scanTranscripts(claudeSource, { ...claudeOptions, endDate: '2026-10-01T09:00:07.000Z' })).report;
+  const after = (await scanTranscripts(claudeSource, claudeOptions)).report;
+  const diff = diffReports(before, after, ['september.json', 'october.json']);
+
+  assert.deepEqual(diff.tokens.input, { before: 100, after: 120, change: 20, percent: 20 });
+  assert.deepEqual(diff.messages, { before: 1, after: 2, change: 1, percent: 100 });
+  assert.equal(diff.sessions.change, 0);
+  assert.ok(diff.cost.change > 0);
+  assert.deepEqual(diff.days, {
+    shared: 1,
+    overlap_start: '2026-10-01',
+    overlap_end: '2026-10-01',
+    only_before: 0,
+    only_after: 0,
+    changed: [{ date: '2026-10-01', before: 1, after: 2 }],
+  });
+});
+
+test('lists models either report used, with no percent change from zero', async () => {
+  const claude = (await scanTranscripts(claudeSource, claudeOptions)).report;
+  const codex = (await scanTranscripts(fromDir(codexSource, fixture('codex')), { tz: 'UTC', cache: false })).report;
+  const diff = diffReports(claude, codex, ['claude.json', 'codex.json']);
+  const sonnet = diff.models.find((model) => model.model === 'claude-sonnet-4-20250514');
+
+  assert.equal(diff.models.length, 1 + Object.keys(codex.usage.tokens.by_model).length);
+  assert.deepEqual(sonnet && [sonnet.before_share, sonnet.after_share, sonnet.after_cost], [1, 0, 0]);
+  // Models only in the later report come first
+  assert.equal(diff.models[diff.models.length - 1].model, 'claude-sonnet-4-20250514');
+  assert.equal(diffReports(codex, claude, ['a', 'b']).models[0].model, 'claude-sonnet-4-20250514');
+  assert.equal(diff.after.file, 'codex.json');
+  assert.equal(diffReports({ ...claude, usage: { ...claude.usage, sessions: { count: 0 } } }, claude, ['a', 'b']).sessions.percent, null);
+});
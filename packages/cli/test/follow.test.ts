@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claudeSource } from '../src/parsers/claude.js';
+import { followTranscripts, scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, tempDir } from './helpers.js';
+
+const SESSION = path.join('projects', '-home-dev-app', 'session-1.jsonl');
+
+function response(id: string, output: number): string {
+  return JSON.stringify({
+    type: 'assistant',
+    sessionId: 'claude-session-1',
+    cwd: '/home/dev/app',
+    timestamp: '2026-10-01T09:05:00.000Z',
+    requestId: `req_${id}`,
+    message: { id: `msg_${id}`, model: 'claude-sonnet-4-20250514', content: [], usage: { input_tokens: 5, output_tokens: output } },
+  }) + '\n';
+}
+
+test('folds appended lines into the report it keeps', async () => {
+  const dir = tempDir();
+  const transcript = path.join(dir, SESSION);
+  fs.mkdirSync(path.dirname(transcript), { recursive: true });
+  fs.copyFileSync(fixture('claude', SESSION), transcript);
+
+  const options = { dataDir: [dir], tz: 'UTC', cache: false };
+  const follower = followTranscripts(claudeSource, options);
+  assert.equal((await follower.update()).usage.tokens.output, 50);
+
+  fs.appendFileSync(transcript, response('3', 7) + response('3', 7));
+  const report = await follower.update();
+  assert.equal(report.usage.tokens.output, 57);
+  assert.equal(report.usage.messages.count, 3);
+  assert.deepEqual(report, (await scanTranscripts(claudeSource, options)).report);
+});
+
+test('starts over when a transcript is rewritten shorter', async () => {
+  const dir = tempDir();
+  const transcript = path.join(dir, SESSION);
+  fs.mkdirSync(path.dirname(transcript), { recursive: true });
+  fs.copyFileSync(fixture('claude', SESSION), transcript);
+
+  const options = { dataDir: [dir], tz: 'UTC', cache: false };
+  const follower = followTranscripts(claudeSource, options);
+  await follower.update();
+
+  fs.writeFileSync(transcript, response('4', 9));
+  const report = await follower.update();
+  assert.equal(report.usage.tokens.output, 9);
+  assert.equal(report.usage.messages.count, 1);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { geminiSource } from '../src/parsers/gemini.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { fixture, fromDir } from './helpers.js';
+
+test('reads chat recordings and ignores the telemetry log next to them', async () => {
+  const source = fromDir(geminiSource, fixture('gemini', 'recording'));
+  const { report } = await scanTranscripts(source, { tz: 'UTC', cache: false });
+
+  assert.equal(report.usage.sessions.count, 1);
+  // Cached tokens are taken out of input; tool prompts count as input, thoughts as output
+  assert.equal(report.usage.tokens.input, 1110);
+  assert.equal(report.usage.tokens.output, 350);
+  assert.equal(report.usage.tokens.cache_read, 1400);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 1, responses: 2, tool_results: 1, sidechain: 0 });
+  assert.equal(report.usage.by_session?.['gemini-session-1'].project, '3f9a2c');
+});
+
+test('falls back to the telemetry log without recordings', async () => {
+  const source = fromDir(geminiSource, fixture('gemini', 'telemetry'));
+  const { report } = await scanTranscripts(source, { tz: 'UTC', cache: false });
+
+  assert.equal(report.usage.tokens.input, 200);
+  assert.equal(report.usage.tokens.output, 52);
+  assert.equal(report.usage.tokens.cache_read, 100);
+  assert.deepEqual(report.usage.messages.by_type, { prompts: 1, responses: 1, tool_results: 1, sidechain: 0 });
+  assert.deepEqual(Object.keys(report.usage.tokens.by_model), ['gemini-2.5-flash']);
+});
@@ -0,0 +1,43 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { localRoot, type TranscriptSource } from '../src/parsers/transcripts.js';
+
+const TEST_DIR = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES = path.join(TEST_DIR, 'fixtures');
+const CLI = path.join(TEST_DIR, '..', 'src', 'index.ts');
+
+/**
+ * Path to a committed fixture
+ */
+export function fixture(...parts: string[]): string {
+  return path.join(FIXTURES, ...parts);
+}
+
+/**
+ * A source that reads `dir` instead of the agent's directory in the home folder
+ */
+export function fromDir(source: TranscriptSource, dir: string): TranscriptSource {
+  return { ...source, roots: () => [localRoot(dir)] };
+}
+
+/**
+ * A fresh temporary directory, removed when the test process exits
+ */
+export function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-usage-test-'));
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Run the CLI from source and return what it printed to stdout. Throws if it exits non-zero.
+ * It gets config and cache directories of its own, so the user's plans and budgets don't apply.
+ */
+export function runCli(...args: string[]): string {
+  const home = tempDir();
+  const env = { ...process.env, XDG_CONFIG_HOME: path.join(home, 'config'), XDG_CACHE_HOME: path.join(home, 'cache') };
+  return execFileSync(process.execPath, ['--import', 'tsx', CLI, ...args], { encoding: 'utf-8', env, stdio: ['ignore', 'pipe', 'pipe'] });
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { claudeSource } from '../src/parsers/claude.js';
+import { codexSource } from '../src/parsers/codex.js';
+import { scanTranscripts } from '../src/parsers/transcripts.js';
+import { findOverlaps, mergeReports } from '../src/merge.js';
+import { fixture, fromDir, runCli, tempDir } from './helpers.js';
+
+const claudeOptions = { dataDir: [fixture('claude')], tz: 'UTC', cache: false };
+
+async function claudeReport(endDate?: string) {
+  return (await scanTranscripts(claudeSource, { ...claudeOptions, endDate })).report;
+}
+
+async function codexReport() {
+  return (await scanTranscripts(fromDir(codexSource, fixture('codex')), { tz: 'UTC', cache: false })).report;
+}
+
+test('flags the same report given twice', async () => {
+  const overlaps = findOverlaps([
+    { label: 'a.json', report: await claudeReport() },
+    { label: 'b.json', report: await claudeReport() },
+  ]);
+
+  assert.deepEqual(overlaps, [
+    { first: 'a.json', second: 'b.json', indexes: [0, 1], identical: true, shared_sessions: ['claude-session-1'] },
+  ]);
+});
+
+test('flags reports scanned from the same transcripts', async () => {
+  const overlaps = findOverlaps([
+    { label: 'full.json', report: await claudeReport() },
+    { label: 'partial.json', report: await claudeReport('2026-10-01T09:00:07.000Z') },
+    { label: 'codex.json', report: await codexReport() },
+  ]);
+
+  assert.deepEqual(overlaps, [
+    { first: 'full.json', second: 'partial.json', indexes: [0, 1], identical: false, shared_sessions: ['claude-session-1'] },
+  ]);
+});
+
+test('sums tokens and messages of separate agents', async () => {
+  const claude = await claudeReport();
+  const codex = await codexReport();
+  const merged = mergeReports([claude, codex]);
+
+  assert.equal(merged.usage.tokens.input, claude.usage.tokens.input + codex.usage.tokens.input);
+  assert.equal(merged.usage.tokens.output, claude.usage.tokens.output + codex.usage.tokens.output);
+  assert.equal(merged.usage.messages.count, 4);
+  assert.deepEqual(Object.keys(merged.usage.by_session || {}).sort(), ['claude-session-1', 'codex-session-1']);
+});
+
+test('merges a report given twice once, even under the same label', async () => {
+  const file = path.join(tempDir(), 'r.json');
+  fs.writeFileSync(file, JSON.stringify(await claudeReport()));
+
+  for (const args of [[file, file], [`alice=${file}`, `alice=${file}`]]) {
+    const merged = JSON.parse(runCli('merge', ...args, '--json'));
+    assert.equal(merged.usage.messages.count, 2);
+    assert.equal(merged.usage.tokens.output, 50);
+  }
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import { createUsageServer } from '../src/commands/serve.js';
+import { fixture } from './helpers.js';
+
+test('answers a malformed session id with 400 and keeps serving', async (t) => {
+  const server = createUsageServer(['claude'], { dataDir: [fixture('claude')], tz: 'UTC', cache: false });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => server.close());
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const malformed = await fetch(`${base}/api/sessions/%E0`);
+  assert.equal(malformed.status, 400);
+  assert.deepEqual(await malformed.json(), { error: 'Malformed session id' });
+
+  const session = await fetch(`${base}/api/sessions/claude-session-1`);
+  assert.equal(session.status, 200);
+  assert.equal(((await session.json()) as { session_id: string }).session_id, 'claude-session-1');
+});
@@ -0,0 +1,7 @@
+export * from './pricing.js';
+export * from './units.js';
+export * from './windows.js';
+export * from './schema.js';
+export * from './types.js';
+export * from './plans.js';
+export * from './planFit.js';
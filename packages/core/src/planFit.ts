@@ -0,0 +1,250 @@
+import { countInUnit, MESSAGE_UNITS, type MessageUnit } from './units.js';
+import { analyzeWindowFit, type WindowFitResult } from './windows.js';
+import { DEFAULT_PLANS, getPlan, missingModels, monthlyPrice, type PlanDefinition } from './plans.js';
+import type { UsageReport, WindowUsage } from './types.js';
+
+// A peak above this share of a plan's limit leaves too little headroom
+const HEADROOM = 0.8;
+
+export interface PlanFitEntry {
+  name: string;
+  price: number;          // Per month
+  dailyLimit?: number;
+  weeklyLimit?: number;
+  daysOver: number;
+  weeksOver: number;
+  missingModels: string[]; // Models in the report the plan doesn't include
+  fits: boolean;           // No day or week over its limits, and every model included
+}
+
+export interface DailyPlanUsage {
+  date: string;
+  count: number;
+  plansOver: string[]; // Plans whose daily limit this day exceeds
+}
+
+export interface WeeklyUsage {
+  week: string; // Monday, 'YYYY-MM-DD'
+  count: number;
+}
+
+export interface PlanFitResult {
+  unit: MessageUnit;
+  peakMessages: number;
+  peakDate: string;
+  avgMessages: number;
+  totalMessages: number;
+  totalDays: number;
+  peakWeek: WeeklyUsage | null;
+  plans: PlanFitEntry[];    // Cheapest first
+  dailyUsage: DailyPlanUsage[];
+  recommendation: string;   // Plan name
+  recommendationReason: string;
+  currentPlan: string;
+  currentPrice: number;
+  recommendedPrice: number;
+  savings: number;          // Monthly savings if downgrade possible
+  confidence: 'high' | 'medium' | 'low'; // Based on data completeness
+}
+
+/**
+ * Monday of the calendar week a 'YYYY-MM-DD' date falls in
+ */
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Why a plan doesn't fit, e.g. "You exceeded Claude Pro's 100 messages/day on 3 days"
+ */
+function describeOverage(entry: PlanFitEntry, unitLabel: string): string {
+  const reasons: string[] = [];
+  if (entry.daysOver > 0) reasons.push(`${entry.dailyLimit} ${unitLabel}/day on ${plural(entry.daysOver, 'day')}`);
+  if (entry.weeksOver > 0) reasons.push(`${entry.weeklyLimit} ${unitLabel}/week in ${plural(entry.weeksOver, 'week')}`);
+  const exceeded = reasons.length > 0 ? `You exceeded ${entry.name}'s ${reasons.join(' and ')}` : '';
+  const models = entry.missingModels.length > 0 ? `${entry.name} doesn't include ${entry.missingModels.join(', ')}` : '';
+  return [exceeded, models].filter(Boolean).join('; ');
+}
+
+/**
+ * Analyze usage data to determine the best plan fit
+ * Key insight: Claude plans limit by MESSAGE COUNT per day, not tokens
+ *
+ * `plans` are the plans to choose from, e.g. resolvePlans() filtered with
+ * plansForReport(). The cheapest plan that covers every day and week is
+ * recommended; if the peak is close to its limit and nothing cheaper was
+ * exceeded, the next plan up is recommended instead for safety.
+ *
+ * `pricePaid` is what the user pays per month for their current plan when it
+ * differs from the listed price; plans are compared and savings measured at it.
+ */
+export function analyzePlanFit(
+  data: UsageReport,
+  currentPlan?: string,
+  unit: MessageUnit = 'messages',
+  plans: PlanDefinition[] = DEFAULT_PLANS,
+  pricePaid?: number
+): PlanFitResult {
+  const byDay = data.usage.messages.by_day;
+  const unitLabel = MESSAGE_UNITS[unit].label.toLowerCase();
+  const named = (currentPlan && getPlan(plans, currentPlan)) || getPlan(plans, data.plan.name);
+  const priceOf = (plan: PlanDefinition) => (plan === named && pricePaid !== undefined ? pricePaid : monthlyPrice(plan));
+  const sorted = [...plans].sort((a, b) => priceOf(a) - priceOf(b));
+
+  // Calculate daily counts in the chosen unit
+  const dailyUsage = byDay.map(day => {
+    const count = countInUnit(day, unit);
+    return {
+      date: day.date,
+      count,
+      plansOver: sorted.filter(plan => plan.limits.daily !== undefined && count > plan.limits.daily).map(plan => plan.name),
+    };
+  });
+
+  // Calendar weeks, for plans with weekly caps
+  const weeks = new Map<string, number>();
+  for (const day of dailyUsage) {
+    const week = weekStart(day.date);
+    weeks.set(week, (weeks.get(week) || 0) + day.count);
+  }
+  const weeklyUsage = [...weeks].map(([week, count]) => ({ week, count }));
+  const peakWeek = weeklyUsage.reduce<WeeklyUsage | null>((max, week) => (!max || week.count > max.count ? week : max), null);
+
+  // Find peak usage
+  const peakDay = dailyUsage.reduce((max, day) =>
+    day.count > max.count ? day : max,
+    { date: '', count: 0, plansOver: [] as string[] }
+  );
+
+  // Calculate averages
+  const totalMessages = dailyUsage.reduce((sum, d) => sum + d.count, 0);
+  const totalDays = dailyUsage.length;
+  const avgMessages = totalDays > 0 ? Math.round(totalMessages / totalDays) : 0;
+
+  // Check each plan's limits and models
+  const models = Object.keys(data.usage.tokens.by_model);
+  const entries: PlanFitEntry[] = sorted.map(plan => {
+    const daysOver = plan.limits.daily !== undefined ? dailyUsage.filter(d => d.count > plan.limits.daily!).length : 0;
+    const weeksOver = plan.limits.weekly !== undefined ? weeklyUsage.filter(w => w.count > plan.limits.weekly!).length : 0;
+    const missing = missingModels(plan, models);
+    return {
+      name: plan.name,
+      price: priceOf(plan),
+      dailyLimit: plan.limits.daily,
+      weeklyLimit: plan.limits.weekly,
+      daysOver,
+      weeksOver,
+      missingModels: missing,
+      fits: daysOver === 0 && weeksOver === 0 && missing.length === 0,
+    };
+  });
+
+  const nearLimit = (entry: PlanFitEntry) =>
+    (entry.dailyLimit !== undefined && peakDay.count >= entry.dailyLimit * HEADROOM) ||
+    (entry.weeklyLimit !== undefined && !!peakWeek && peakWeek.count >= entry.weeklyLimit * HEADROOM);
+  const limitText = (entry: PlanFitEntry) =>
+    entry.dailyLimit !== undefined ? `${entry.dailyLimit}/day limit` : `${entry.weeklyLimit}/week limit`;
+
+  // Determine recommendation
+  let recommended: PlanFitEntry;
+  let recommendationReason: string;
+
+  const fitIndex = entries.findIndex(e => e.fits);
+  const exceeded = entries.slice(0, fitIndex >= 0 ? fitIndex : entries.length).filter(e => !e.fits);
+  const largestExceeded = exceeded[exceeded.length - 1];
+
+  if (entries.length === 0) {
+    recommended = { name: currentPlan || data.plan.name, price: pricePaid ?? data.plan.price_usd, daysOver: 0, weeksOver: 0, missingModels: [], fits: true };
+    recommendationReason = 'No plans are defined for this provider.';
+  } else if (fitIndex < 0) {
+    // Nothing covers the usage; the plan with the highest limits comes closest
+    recommended = entries.reduce((best, e) => ((e.dailyLimit ?? Infinity) > (best.dailyLimit ?? Infinity) ? e : best));
+    recommendationReason = `${describeOverage(recommended, unitLabel)}. No plan covers your usage; ${recommended.name} comes closest.`;
+  } else {
+    const fit = entries[fitIndex];
+    const next = entries.slice(fitIndex + 1).find(e => e.fits && e.price > fit.price);
+
+    if (nearLimit(fit) && exceeded.length === 0 && next) {
+      // Close to the cheapest plan's limit
+      recommended = next;
+      recommendationReason = `Your peak (${peakDay.count} ${unitLabel}) is approaching ${fit.name}'s ${limitText(fit)}. ${next.name} recommended for safety.`;
+    } else if (nearLimit(fit)) {
+      recommended = fit;
+      recommendationReason = `Your peak (${peakDay.count} ${unitLabel}) is close to ${fit.name}'s ${limitText(fit)}. ${fit.name} is safe, but watch your usage.`;
+    } else if (largestExceeded) {
+      recommended = fit;
+      recommendationReason = `${describeOverage(largestExceeded, unitLabel)}. ${fit.name} gives you comfortable headroom.`;
+    } else {
+      // Under all limits comfortably
+      recommended = fit;
+      recommendationReason = fit.dailyLimit !== undefined
+        ? `Your usage (peak: ${peakDay.count} ${unitLabel}/day) fits comfortably within ${fit.name}'s ${fit.dailyLimit}/day limit.`
+        : `Your usage (peak: ${peakDay.count} ${unitLabel}/day) fits comfortably within ${fit.name}'s limits.`;
+    }
+  }
+
+  // Calculate savings based on current plan
+  const mostExpensive = sorted[sorted.length - 1];
+  const detected = named || mostExpensive;
+  const currentPrice = pricePaid ?? (detected ? priceOf(detected) : data.plan.price_usd);
+  const recommendedPrice = recommended.price;
+  const savings = currentPrice - recommendedPrice;
+
+  // Confidence level based on data completeness
+  let confidence: 'high' | 'medium' | 'low';
+  if (totalDays >= 30) {
+    confidence = 'high';
+  } else if (totalDays >= 14) {
+    confidence = 'medium';
+  } else {
+    confidence = 'low';
+  }
+
+  return {
+    unit,
+    peakMessages: peakDay.count,
+    peakDate: peakDay.date,
+    avgMessages,
+    totalMessages,
+    totalDays,
+    peakWeek,
+    plans: entries,
+    dailyUsage,
+    recommendation: recommended.name,
+    recommendationReason,
+    currentPlan: detected ? detected.name : data.plan.name,
+    currentPrice,
+    recommendedPrice,
+    savings: Math.max(0, savings), // Only show positive savings
+    confidence,
+  };
+}
+
+/**
+ * Analyze 5-hour window usage against each plan's per-window message limit.
+ * Returns null when the report predates window tracking or no plan has a
+ * window limit.
+ */
+export function analyzeWindowPlanFit(
+  data: UsageReport,
+  unit: MessageUnit = 'messages',
+  top = 5,
+  plans: PlanDefinition[] = DEFAULT_PLANS
+): WindowFitResult<WindowUsage> | null {
+  const windows = data.usage.messages.by_window;
+  if (!windows || windows.length === 0) return null;
+
+  const limits: Record<string, number> = {};
+  for (const plan of plans) {
+    if (plan.limits.window !== undefined) limits[plan.name] = plan.limits.window;
+  }
+  if (Object.keys(limits).length === 0) return null;
+
+  return analyzeWindowFit(windows, { limits, top, unit });
+}
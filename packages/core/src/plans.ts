@@ -0,0 +1,140 @@
+import { validateSchema, type JsonSchema, type SchemaError } from './schema.js';
+import { CLAUDE_DAILY_LIMITS, CLAUDE_WINDOW_LIMITS } from './windows.js';
+import type { UsageReport } from './types.js';
+
+// Subscription plans that plan fit compares usage against. The built-in Claude
+// plans use approximate limits; users can override them or add their own
+// (team seats, regional pricing) in the web settings or the CLI's plans.json.
+
+export const PLANS_FILE_VERSION = 1;
+
+export type BillingCycle = 'monthly' | 'annual';
+
+export interface PlanLimits {
+  daily?: number;  // Messages per calendar day
+  window?: number; // Messages per rolling 5-hour window
+  weekly?: number; // Messages per calendar week, Monday to Sunday
+}
+
+export interface PlanDefinition {
+  name: string;
+  provider?: UsageReport['provider']; // Defaults to anthropic
+  price_usd: number;                  // Per billing cycle
+  billing?: BillingCycle;             // Defaults to monthly
+  limits: PlanLimits;                 // Unset limits are unlimited
+  models?: string[];                  // Included models, matched as substrings of model ids; unset includes every model
+}
+
+// A user's plan: a new plan, or changes to the built-in plan of the same name
+export type CustomPlan = Partial<PlanDefinition> & { name: string };
+
+export const DEFAULT_PLANS: PlanDefinition[] = [
+  { name: 'Claude Pro', price_usd: 20 },
+  { name: 'Claude Max 5x', price_usd: 100 },
+  { name: 'Claude Max 20x', price_usd: 200 },
+].map((plan): PlanDefinition => ({
+  ...plan,
+  provider: 'anthropic',
+  billing: 'monthly',
+  limits: { daily: CLAUDE_DAILY_LIMITS[plan.name], window: CLAUDE_WINDOW_LIMITS[plan.name] },
+}));
+
+const limit: JsonSchema = { type: 'integer', minimum: 1 };
+
+export const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', pattern: '\\S' },
+    provider: { enum: ['anthropic', 'openai', 'google', 'xai', 'other'] },
+    price_usd: { type: 'number', minimum: 0 },
+    billing: { enum: ['monthly', 'annual'] },
+    limits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: { daily: limit, window: limit, weekly: limit },
+    },
+    models: { type: 'array', items: { type: 'string', pattern: '\\S' } },
+  },
+};
+
+function findPlan<P extends { name: string }>(plans: P[], name: string): P | undefined {
+  const key = name.trim().toLowerCase();
+  return plans.find((plan) => plan.name.trim().toLowerCase() === key);
+}
+
+/**
+ * Check a list of custom plans, e.g. the `plans` array of plans.json. Plans
+ * that don't override a built-in one need a price.
+ */
+export function validatePlans(value: unknown): SchemaError[] {
+  const errors = validateSchema({ type: 'array', items: PLAN_SCHEMA }, value);
+  if (errors.length > 0 || !Array.isArray(value)) return errors;
+
+  const seen = new Set<string>();
+  value.forEach((plan: CustomPlan, index) => {
+    const key = plan.name.trim().toLowerCase();
+    if (seen.has(key)) errors.push({ path: `[${index}].name`, message: `duplicates plan "${plan.name}"` });
+    seen.add(key);
+    if (plan.price_usd === undefined && !findPlan(DEFAULT_PLANS, plan.name)) {
+      errors.push({ path: `[${index}].price_usd`, message: 'is required for a new plan' });
+    }
+  });
+  return errors;
+}
+
+/**
+ * The built-in plans with the user's overrides applied, followed by their own
+ * plans. An override only changes the fields and limits it sets.
+ */
+export function resolvePlans(custom: CustomPlan[] = []): PlanDefinition[] {
+  const plans = DEFAULT_PLANS.map((plan) => {
+    const override = findPlan(custom, plan.name);
+    if (!override) return plan;
+    return { ...plan, ...override, name: plan.name, limits: { ...plan.limits, ...override.limits } };
+  });
+
+  for (const plan of custom) {
+    if (findPlan(DEFAULT_PLANS, plan.name)) continue;
+    plans.push({ ...plan, price_usd: plan.price_usd ?? 0, limits: plan.limits || {} });
+  }
+  return plans;
+}
+
+/**
+ * Whether a plan is a user's addition or override rather than built in unchanged
+ */
+export function isCustomPlan(plan: PlanDefinition, custom: CustomPlan[] = []): boolean {
+  return !!findPlan(custom, plan.name);
+}
+
+export function getPlan(plans: PlanDefinition[], name: string): PlanDefinition | undefined {
+  return findPlan(plans, name);
+}
+
+/**
+ * Price per month, spreading annual billing over twelve months
+ */
+export function monthlyPrice(plan: PlanDefinition): number {
+  return plan.billing === 'annual' ? plan.price_usd / 12 : plan.price_usd;
+}
+
+/**
+ * Plans for any of the report's providers, cheapest first
+ */
+export function plansForReport(report: UsageReport, plans: PlanDefinition[]): PlanDefinition[] {
+  const providers = report.providers || [report.provider];
+  return plans
+    .filter((plan) => providers.includes(plan.provider || 'anthropic'))
+    .sort((a, b) => monthlyPrice(a) - monthlyPrice(b));
+}
+
+/**
+ * Models used in the report that the plan does not include
+ */
+export function missingModels(plan: PlanDefinition, models: string[]): string[] {
+  if (!plan.models || plan.models.length === 0) return [];
+  const included = plan.models.map((m) => m.toLowerCase());
+  return models.filter((model) => !included.some((m) => model.toLowerCase().includes(m)));
+}
@@ -0,0 +1,309 @@
+// Versioned pricing catalog shared by the web app, CLI and extension.
+// All rates are USD per 1M tokens.
+
+export const PRICING_CATALOG_VERSION = '2025-11-28';
+
+export interface ModelRates {
+  input: number;
+  output: number;
+  cache_write: number;
+  cache_read: number;
+}
+
+export interface PricingEntry extends ModelRates {
+  effective_from: string; // ISO Date string
+  batch_discount: number; // Fraction taken off when billed through a batch API
+}
+
+/**
+ * Token counts for a single model. Cache fields are optional so reports
+ * that predate cache tracking still price correctly.
+ */
+export interface TokenCounts {
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+export interface PricingOptions {
+  at?: string | Date; // Price as of this date (default: now)
+  batch?: boolean;
+}
+
+const ANTHROPIC_BATCH = 0.5;
+const OPENAI_BATCH = 0.5;
+const GOOGLE_BATCH = 0.5;
+
+/**
+ * Price history per model, oldest entry first. Add a new entry with a later
+ * effective_from when a provider changes its rates instead of editing old ones.
+ */
+export const PRICING_CATALOG: Record<string, PricingEntry[]> = {
+  // Anthropic
+  'claude-opus-4-5-20251101': [
+    { effective_from: '2025-11-01', input: 15.0, output: 75.0, cache_write: 18.75, cache_read: 1.875, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-sonnet-4-5-20250929': [
+    { effective_from: '2025-09-29', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-sonnet-4-20250514': [
+    { effective_from: '2025-05-14', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-opus-4-20250514': [
+    { effective_from: '2025-05-14', input: 15.0, output: 75.0, cache_write: 18.75, cache_read: 1.875, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-5-sonnet-20241022': [
+    { effective_from: '2024-10-22', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-5-sonnet-20240620': [
+    { effective_from: '2024-06-20', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-opus-20240229': [
+    { effective_from: '2024-02-29', input: 15.0, output: 75.0, cache_write: 18.75, cache_read: 1.875, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-sonnet-20240229': [
+    { effective_from: '2024-02-29', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-5-haiku-20241022': [
+    { effective_from: '2024-10-22', input: 0.80, output: 4.0, cache_write: 1.0, cache_read: 0.10, batch_discount: ANTHROPIC_BATCH },
+  ],
+  'claude-3-haiku-20240307': [
+    { effective_from: '2024-03-07', input: 0.25, output: 1.25, cache_write: 0.30, cache_read: 0.03, batch_discount: ANTHROPIC_BATCH },
+  ],
+  // Claude estimated (from web export) - assume Sonnet pricing
+  'Claude (estimated)': [
+    { effective_from: '2024-01-01', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: 0 },
+  ],
+
+  // OpenAI - cached input is billed at a discount, cache writes at the normal input rate
+  'gpt-4o': [
+    { effective_from: '2024-05-13', input: 2.5, output: 10.0, cache_write: 2.5, cache_read: 1.25, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-4o-2024-11-20': [
+    { effective_from: '2024-11-20', input: 2.5, output: 10.0, cache_write: 2.5, cache_read: 1.25, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-4o-mini': [
+    { effective_from: '2024-07-18', input: 0.15, output: 0.60, cache_write: 0.15, cache_read: 0.075, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-4-turbo': [
+    { effective_from: '2024-04-09', input: 10.0, output: 30.0, cache_write: 10.0, cache_read: 10.0, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-4-turbo-2024-04-09': [
+    { effective_from: '2024-04-09', input: 10.0, output: 30.0, cache_write: 10.0, cache_read: 10.0, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-4': [
+    { effective_from: '2023-03-14', input: 30.0, output: 60.0, cache_write: 30.0, cache_read: 30.0, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-3.5-turbo': [
+    { effective_from: '2024-01-25', input: 0.50, output: 1.50, cache_write: 0.50, cache_read: 0.50, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-5': [
+    { effective_from: '2025-08-07', input: 1.25, output: 10.0, cache_write: 1.25, cache_read: 0.125, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-5-codex': [
+    { effective_from: '2025-09-15', input: 1.25, output: 10.0, cache_write: 1.25, cache_read: 0.125, batch_discount: OPENAI_BATCH },
+  ],
+  'gpt-5-mini': [
+    { effective_from: '2025-08-07', input: 0.25, output: 2.0, cache_write: 0.25, cache_read: 0.025, batch_discount: OPENAI_BATCH },
+  ],
+  'codex-mini': [
+    { effective_from: '2025-05-16', input: 1.5, output: 6.0, cache_write: 1.5, cache_read: 0.375, batch_discount: 0 },
+  ],
+  'o4-mini': [
+    { effective_from: '2025-04-16', input: 1.10, output: 4.40, cache_write: 1.10, cache_read: 0.275, batch_discount: OPENAI_BATCH },
+  ],
+  'o1': [
+    { effective_from: '2024-12-17', input: 15.0, output: 60.0, cache_write: 15.0, cache_read: 7.5, batch_discount: OPENAI_BATCH },
+  ],
+  'o1-mini': [
+    { effective_from: '2024-09-12', input: 3.0, output: 12.0, cache_write: 3.0, cache_read: 1.5, batch_discount: OPENAI_BATCH },
+  ],
+  'o1-preview': [
+    { effective_from: '2024-09-12', input: 15.0, output: 60.0, cache_write: 15.0, cache_read: 7.5, batch_discount: OPENAI_BATCH },
+  ],
+
+  // Google Gemini - context cache reads at 25% of input
+  'gemini-2.5-pro': [
+    { effective_from: '2025-06-17', input: 1.25, output: 10.0, cache_write: 1.25, cache_read: 0.3125, batch_discount: GOOGLE_BATCH },
+  ],
+  'gemini-2.5-flash': [
+    { effective_from: '2025-06-17', input: 0.15, output: 0.60, cache_write: 0.15, cache_read: 0.0375, batch_discount: GOOGLE_BATCH },
+  ],
+  'gemini-2.0-flash': [
+    { effective_from: '2025-02-05', input: 0.10, output: 0.40, cache_write: 0.10, cache_read: 0.025, batch_discount: GOOGLE_BATCH },
+  ],
+  'gemini-1.5-pro': [
+    { effective_from: '2024-10-01', input: 1.25, output: 5.0, cache_write: 1.25, cache_read: 0.3125, batch_discount: GOOGLE_BATCH },
+  ],
+  'gemini-1.5-flash': [
+    { effective_from: '2024-08-12', input: 0.075, output: 0.30, cache_write: 0.075, cache_read: 0.01875, batch_discount: GOOGLE_BATCH },
+  ],
+  'Gemini (estimated)': [
+    { effective_from: '2024-01-01', input: 1.25, output: 10.0, cache_write: 1.25, cache_read: 0.3125, batch_discount: 0 },
+  ],
+
+  // xAI Grok - no batch or cache discounts
+  'grok-3': [
+    { effective_from: '2025-04-09', input: 5.0, output: 15.0, cache_write: 5.0, cache_read: 5.0, batch_discount: 0 },
+  ],
+  'grok-3-mini': [
+    { effective_from: '2025-04-09', input: 0.30, output: 0.50, cache_write: 0.30, cache_read: 0.30, batch_discount: 0 },
+  ],
+  'grok-2': [
+    { effective_from: '2024-12-12', input: 2.0, output: 10.0, cache_write: 2.0, cache_read: 2.0, batch_discount: 0 },
+  ],
+  'Grok (estimated)': [
+    { effective_from: '2024-01-01', input: 5.0, output: 15.0, cache_write: 5.0, cache_read: 5.0, batch_discount: 0 },
+  ],
+
+  // Default/Fallback - use Sonnet pricing as reasonable default
+  'default': [
+    { effective_from: '2024-01-01', input: 3.0, output: 15.0, cache_write: 3.75, cache_read: 0.375, batch_discount: 0 },
+  ],
+};
+
+/**
+ * Strip a trailing release date (e.g. "-20250929") so dated and undated
+ * model ids resolve to the same catalog entry
+ */
+function baseModelName(model: string): string {
+  return model.replace(/-\d{8}$/, '').replace(/-latest$/, '');
+}
+
+/**
+ * Pick the entry in effect at a given date. Usage older than the first
+ * entry falls back to the earliest known rates.
+ */
+function entryAt(history: PricingEntry[], at?: string | Date): PricingEntry {
+  const time = at ? new Date(at).getTime() : Date.now();
+  let current = history[0];
+  for (const entry of history) {
+    if (new Date(entry.effective_from).getTime() <= time) {
+      current = entry;
+    }
+  }
+  return current;
+}
+
+/**
+ * Look up the catalog entry for a model, or undefined if the model is unknown
+ */
+export function findModelPricing(model: string, at?: string | Date): PricingEntry | undefined {
+  const exact = PRICING_CATALOG[model];
+  if (exact) return entryAt(exact, at);
+
+  const base = baseModelName(model);
+  const key = Object.keys(PRICING_CATALOG).find((name) => baseModelName(name) === base);
+  return key ? entryAt(PRICING_CATALOG[key], at) : undefined;
+}
+
+/**
+ * Look up the catalog entry for a model, falling back to the default rates
+ */
+export function getModelPricing(model: string, at?: string | Date): PricingEntry {
+  return findModelPricing(model, at) || entryAt(PRICING_CATALOG['default'], at);
+}
+
+/**
+ * Price a set of token counts at the given rates
+ */
+export function priceTokens(tokens: TokenCounts, rates: ModelRates): number {
+  return (
+    (tokens.input / 1_000_000) * rates.input +
+    (tokens.output / 1_000_000) * rates.output +
+    ((tokens.cache_write || 0) / 1_000_000) * rates.cache_write +
+    ((tokens.cache_read || 0) / 1_000_000) * rates.cache_read
+  );
+}
+
+/**
+ * Calculate the API-equivalent cost of one model's tokens
+ */
+export function calculateTokenCost(model: string, tokens: TokenCounts, options: PricingOptions = {}): number {
+  const pricing = getModelPricing(model, options.at);
+  const cost = priceTokens(tokens, pricing);
+  return options.batch ? cost * (1 - pricing.batch_discount) : cost;
+}
+
+/**
+ * Calculate the API-equivalent cost of a token breakdown. Reports without
+ * per-model data are priced at the default rates.
+ */
+export function calculateUsageCost(
+  tokens: TokenCounts & { by_model: Record<string, TokenCounts> },
+  options: PricingOptions = {}
+): number {
+  const models = Object.entries(tokens.by_model);
+  if (models.length === 0) {
+    return calculateTokenCost('default', tokens, options);
+  }
+
+  return models.reduce((sum, [model, counts]) => sum + calculateTokenCost(model, counts, options), 0);
+}
+
+/**
+ * Calculate the API-equivalent cost of a usage report, priced as of the
+ * end of its period
+ */
+export function calculateReportCost(
+  report: {
+    period: { end: string };
+    usage: { tokens: TokenCounts & { by_model: Record<string, TokenCounts> } };
+  },
+  options: Omit<PricingOptions, 'at'> = {}
+): number {
+  return calculateUsageCost(report.usage.tokens, { ...options, at: report.period.end });
+}
+
+/**
+ * Effective per-category rates of a token breakdown, weighted by each
+ * model's share of that category. Used to price buckets (like days) that
+ * carry token counts but no per-model split.
+ */
+export function blendedRates(
+  tokens: { by_model: Record<string, TokenCounts> },
+  options: PricingOptions = {}
+): ModelRates {
+  const fallback = getModelPricing('default', options.at);
+  const totals = { input: 0, output: 0, cache_write: 0, cache_read: 0 };
+  const costs = { input: 0, output: 0, cache_write: 0, cache_read: 0 };
+
+  for (const [model, counts] of Object.entries(tokens.by_model)) {
+    const pricing = getModelPricing(model, options.at);
+    const multiplier = options.batch ? 1 - pricing.batch_discount : 1;
+    const byCategory = {
+      input: counts.input,
+      output: counts.output,
+      cache_write: counts.cache_write || 0,
+      cache_read: counts.cache_read || 0,
+    };
+    for (const category of Object.keys(totals) as Array<keyof ModelRates>) {
+      totals[category] += byCategory[category];
+      costs[category] += byCategory[category] * pricing[category] * multiplier;
+    }
+  }
+
+  const rate = (category: keyof ModelRates) =>
+    totals[category] > 0 ? costs[category] / totals[category] : fallback[category];
+
+  return {
+    input: rate('input'),
+    output: rate('output'),
+    cache_write: rate('cache_write'),
+    cache_read: rate('cache_read'),
+  };
+}
+
+/**
+ * Estimate the cost of one day of a report at the report's blended rates
+ */
+export function calculateDayCost(
+  day: TokenCounts,
+  report: {
+    period: { end: string };
+    usage: { tokens: { by_model: Record<string, TokenCounts> } };
+  }
+): number {
+  return priceTokens(day, blendedRates(report.usage.tokens, { at: report.period.end }));
+}
@@ -0,0 +1,374 @@
+// Versioned JSON Schema for usage reports, with a small validator for the
+// subset of JSON Schema it uses and migrations that upgrade older reports.
+// Bump REPORT_SCHEMA_VERSION when a change would make older readers misread
+// a report, and add a migration from the previous version.
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly unknown[];
+  format?: 'date-time';
+  pattern?: string;
+  minimum?: number;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+  allOf?: JsonSchema[];
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaError {
+  path: string; // e.g. usage.messages.by_day[3].date
+  message: string;
+}
+
+export interface ReportValidation {
+  valid: boolean;
+  errors: SchemaError[];
+  report: unknown; // The migrated report; only trust it when valid
+}
+
+const MAX_ERRORS = 50;
+
+const count: JsonSchema = { type: 'number', minimum: 0 };
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+const counts: JsonSchema = { type: 'object', additionalProperties: count };
+
+export const USAGE_REPORT_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `usage-report.v${REPORT_SCHEMA_VERSION}.json`,
+  title: 'UsageReport',
+  description: 'LLM usage report written by the llm-usage CLI, the browser extension or the web app',
+  type: 'object',
+  required: ['schema_version', 'provider', 'source', 'period', 'plan', 'usage'],
+  properties: {
+    schema_version: { type: 'integer', enum: [REPORT_SCHEMA_VERSION] },
+    provider: { enum: ['anthropic', 'openai', 'google', 'xai', 'other'] },
+    providers: { type: 'array', items: { enum: ['anthropic', 'openai', 'google', 'xai', 'other'] } },
+    source: { enum: ['local_agent', 'browser_extension', 'api', 'manual_upload', 'demo', 'manual_entry'] },
+    period: {
+      type: 'object',
+      required: ['start', 'end'],
+      properties: { start: timestamp, end: timestamp },
+    },
+    plan: {
+      type: 'object',
+      required: ['name', 'price_usd', 'type'],
+      properties: {
+        name: { type: 'string' },
+        price_usd: count,
+        type: { enum: ['subscription', 'payg'] },
+      },
+    },
+    usage: {
+      type: 'object',
+      required: ['tokens', 'messages', 'sessions'],
+      properties: {
+        tokens: {
+          allOf: [{ $ref: '#/$defs/modelTokens' }],
+          required: ['by_model'],
+          properties: {
+            cached: count,
+            by_model: { type: 'object', additionalProperties: { $ref: '#/$defs/modelTokens' } },
+          },
+        },
+        messages: {
+          type: 'object',
+          required: ['count', 'by_day'],
+          properties: {
+            count,
+            timezone: { type: 'string' },
+            estimated_times: { type: 'boolean' },
+            by_day: { type: 'array', items: { $ref: '#/$defs/dayUsage' } },
+            by_hour: { type: 'array', items: { $ref: '#/$defs/hourUsage' } },
+            by_type: {
+              type: 'object',
+              required: ['prompts', 'responses', 'tool_results', 'sidechain'],
+              additionalProperties: count,
+            },
+            by_window: { type: 'array', items: { $ref: '#/$defs/windowUsage' } },
+          },
+        },
+        sessions: {
+          type: 'object',
+          required: ['count'],
+          properties: { count, idle_minutes: count },
+        },
+        by_project: {
+          type: 'object',
+          additionalProperties: {
+            allOf: [{ $ref: '#/$defs/breakdown' }],
+            required: ['name', 'sessions'],
+            properties: { name: { type: 'string' }, path: { type: 'string' }, sessions: count, tool_calls: counts },
+          },
+        },
+        by_session: {
+          type: 'object',
+          additionalProperties: {
+            allOf: [{ $ref: '#/$defs/breakdown' }],
+            required: ['project'],
+            properties: { project: { type: 'string' }, host: { type: 'string' } },
+          },
+        },
+        by_host: {
+          type: 'object',
+          additionalProperties: {
+            allOf: [{ $ref: '#/$defs/breakdown' }],
+            required: ['sessions', 'data_dirs'],
+            properties: { sessions: count, data_dirs: { type: 'array', items: { type: 'string' } } },
+          },
+        },
+        by_origin: {
+          type: 'object',
+          additionalProperties: {
+            allOf: [{ $ref: '#/$defs/breakdown' }],
+            required: ['sessions', 'files'],
+            properties: { sessions: count, files: { type: 'array', items: { type: 'string' } } },
+          },
+        },
+        tools: {
+          type: 'object',
+          required: ['large_output_threshold', 'by_tool'],
+          properties: {
+            large_output_threshold: count,
+            by_tool: {
+              type: 'object',
+              additionalProperties: {
+                type: 'object',
+                required: ['calls', 'errors', 'output_tokens', 'large_outputs', 'large_output_tokens'],
+                additionalProperties: count,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  $defs: {
+    modelTokens: {
+      type: 'object',
+      required: ['input', 'output'],
+      properties: {
+        input: count,
+        output: count,
+        cache_read: count,
+        cache_write: count,
+        estimated: { type: 'array', items: { enum: ['input', 'output', 'cache_read', 'cache_write'] } },
+      },
+    },
+    dayUsage: {
+      type: 'object',
+      required: ['date', 'count', 'input', 'output'],
+      properties: {
+        date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+        count,
+        input: count,
+        output: count,
+        cache_read: count,
+        cache_write: count,
+        tool_calls: counts,
+      },
+    },
+    hourUsage: {
+      type: 'object',
+      required: ['hour', 'count', 'input', 'output'],
+      properties: {
+        hour: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}$' },
+        count,
+        input: count,
+        output: count,
+      },
+    },
+    windowUsage: {
+      type: 'object',
+      required: ['start', 'end', 'count', 'input', 'output'],
+      properties: { start: timestamp, end: timestamp, count, input: count, output: count },
+    },
+    breakdown: {
+      type: 'object',
+      required: ['tokens', 'messages', 'models', 'cost'],
+      properties: {
+        tokens: { $ref: '#/$defs/modelTokens' },
+        messages: count,
+        models: { type: 'array', items: { type: 'string' } },
+        first_timestamp: { type: 'string' },
+        last_timestamp: { type: 'string' },
+        cost: count,
+      },
+    },
+  },
+};
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === 'object';
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(value: unknown): string {
+  const type = typeOf(value);
+  return type === 'string' || type === 'number' || type === 'integer' ? `${type} ${JSON.stringify(value)}` : type;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.replace('#/$defs/', '');
+  const schema = root.$defs?.[name];
+  if (!schema) throw new Error(`Unknown schema reference ${ref}`);
+  return schema;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, root: JsonSchema, errors: SchemaError[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+  const fail = (message: string) => errors.push({ path: path || '(root)', message });
+
+  if (schema.$ref) check(resolveRef(schema.$ref, root), value, path, root, errors);
+  for (const part of schema.allOf || []) check(part, value, path, root, errors);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${describe(value)}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}, got ${describe(value)}`);
+    return;
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}, got ${value}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`does not match ${schema.pattern}: ${JSON.stringify(value)}`);
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      fail(`expected an ISO date, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => check(schema.items!, item, joinPath(path, index), root, errors));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) errors.push({ path: joinPath(path, key), message: 'is required' });
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) {
+        check(property, item, joinPath(path, key), root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        check(schema.additionalProperties, item, joinPath(path, key), root, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Check a value against a schema, returning every violation with its field path
+ */
+export function validateSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  check(schema, value, '', schema, errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+type ReportMigration = (report: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version a migration upgrades from
+const REPORT_MIGRATIONS: Record<number, ReportMigration> = {
+  // Reports written before schema_version existed
+  0: (report) => {
+    const usage = isObject(report.usage) ? { ...report.usage } : report.usage;
+    if (isObject(usage)) {
+      if (isObject(usage.tokens) && !usage.tokens.by_model) {
+        usage.tokens = { ...usage.tokens, by_model: {} };
+      }
+      if (isObject(usage.messages) && !usage.messages.by_day) {
+        usage.messages = { ...usage.messages, by_day: [] };
+      }
+      if (!usage.sessions) usage.sessions = { count: 0 };
+    }
+    return {
+      ...report,
+      // The browser extension used to label its reports 'extension'
+      source: report.source === 'extension' ? 'browser_extension' : report.source,
+      usage,
+      schema_version: 1,
+    };
+  },
+};
+
+/**
+ * Upgrade a report to the current schema version. Values that are not
+ * objects, or that come from a newer version, are returned unchanged.
+ */
+export function migrateUsageReport(value: unknown): unknown {
+  if (!isObject(value)) return value;
+  let report = value;
+  let version = typeof report.schema_version === 'number' ? report.schema_version : 0;
+  while (version < REPORT_SCHEMA_VERSION && REPORT_MIGRATIONS[version]) {
+    report = REPORT_MIGRATIONS[version](report);
+    // Every migration stamps the version it upgrades to
+    version = report.schema_version as number;
+  }
+  return report;
+}
+
+/**
+ * Migrate a parsed report and validate it against the current schema
+ */
+export function validateUsageReport(value: unknown): ReportValidation {
+  const version = isObject(value) ? value.schema_version : undefined;
+  if (typeof version === 'number' && version > REPORT_SCHEMA_VERSION) {
+    return {
+      valid: false,
+      errors: [{ path: 'schema_version', message: `version ${version} is newer than this version supports (${REPORT_SCHEMA_VERSION}); update the app` }],
+      report: value,
+    };
+  }
+
+  const report = migrateUsageReport(value);
+  const errors = validateSchema(USAGE_REPORT_SCHEMA, report);
+  return { valid: errors.length === 0, errors, report };
+}
+
+/**
+ * One line per error, e.g. "usage.tokens.input: expected number, got string"
+ */
+export function formatSchemaErrors(errors: SchemaError[], max = 5): string[] {
+  const lines = errors.slice(0, max).map((error) => `${error.path}: ${error.message}`);
+  if (errors.length > max) lines.push(`...and ${errors.length - max} more`);
+  return lines;
+}
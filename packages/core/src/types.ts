@@ -0,0 +1,191 @@
+// Usage report types shared by the web app, CLI and browser extension. A report
+// written by any of them must type-check in the others, so extend these here
+// rather than in a package's own types.
+
+// Token fields that include tokenizer estimates rather than counts read from the logs
+export type EstimatedField = 'input' | 'output' | 'cache_read' | 'cache_write';
+
+export interface ModelTokens {
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+  estimated?: EstimatedField[];
+}
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cached?: number; // cache_read + cache_write, kept for older reports
+  cache_read?: number;
+  cache_write?: number;
+  estimated?: EstimatedField[];
+  by_model: Record<string, ModelTokens>;
+}
+
+// Transcript turns by kind. Sidechain (subagent) turns are counted only under `sidechain`.
+export interface MessageTypeCounts {
+  prompts: number;      // Prompts typed by the user
+  responses: number;    // Assistant responses
+  tool_results: number; // User turns that only return tool output
+  sidechain: number;    // Any turn inside a subagent
+}
+
+export interface DayUsage extends Partial<MessageTypeCounts> {
+  date: string;
+  count: number; // Assistant responses with usage, including sidechain
+  turns?: number; // Sum of all MessageTypeCounts
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+  tool_calls?: Record<string, number>; // Tool invocations by tool name
+  tool_errors?: number;                // Tool results flagged as errors
+}
+
+// Usage in one clock hour
+export interface HourUsage {
+  hour: string; // 'YYYY-MM-DDTHH' in the report's time zone
+  count: number; // Assistant responses with usage
+  turns?: number;
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+// Messages in one rolling 5-hour limit window
+export interface WindowUsage {
+  start: string; // ISO Date string of the message that opened the window
+  end: string;   // ISO Date string
+  count: number;
+  prompts?: number;
+  turns?: number;
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+// Usage attributed to one project or session
+export interface UsageBreakdown {
+  tokens: ModelTokens;
+  messages: number;
+  models: string[];
+  first_timestamp: string; // ISO Date string
+  last_timestamp: string;  // ISO Date string
+  cost: number;            // API-equivalent USD
+}
+
+export interface ProjectUsage extends UsageBreakdown {
+  name: string;
+  path?: string; // Working directory recorded in the transcripts
+  sessions: number;
+  tool_calls?: Record<string, number>; // Tool invocations by tool name
+}
+
+export interface SessionUsage extends UsageBreakdown {
+  project: string; // Key into usage.by_project
+  host?: string;   // Key into usage.by_host
+  turns?: number;           // Prompts, responses and tool results
+  duration_ms?: number;     // First to last turn
+  active_ms?: number;       // Gaps between turns shorter than usage.sessions.idle_minutes
+  cache_hit_ratio?: number; // cache_read / (input + cache_read + cache_write)
+  peak_context?: number;    // Largest input + cache of a single response
+}
+
+// Usage read from one machine's data directories
+export interface HostUsage extends UsageBreakdown {
+  sessions: number;
+  data_dirs: string[];
+}
+
+// One teammate's or machine's reports in a `llm-usage merge` team report
+export interface OriginUsage extends UsageBreakdown {
+  sessions: number;
+  files: string[];  // Report files merged under this origin
+  hosts?: string[]; // Machine labels from those reports' by_host
+}
+
+// Calls to one tool and how much its results added to the context
+export interface ToolUsage {
+  calls: number;
+  errors: number;              // Results flagged is_error
+  output_tokens: number;       // Estimated tokens in its results
+  large_outputs: number;       // Results of at least large_output_threshold tokens
+  large_output_tokens: number;
+}
+
+export interface ToolStats {
+  large_output_threshold: number; // Estimated tokens
+  by_tool: Record<string, ToolUsage>;
+}
+
+export interface UsageReport {
+  schema_version?: number; // REPORT_SCHEMA_VERSION from schema.ts; absent in reports written before it existed
+  provider: 'anthropic' | 'openai' | 'google' | 'xai' | 'other';
+  providers?: Array<UsageReport['provider']>; // Every provider in a merged report; provider is 'other' when they differ
+  source: 'local_agent' | 'browser_extension' | 'api' | 'manual_upload' | 'demo' | 'manual_entry';
+  period: {
+    start: string; // ISO Date string
+    end: string;   // ISO Date string
+  };
+  plan: {
+    name: string;
+    price_usd: number;
+    type: 'subscription' | 'payg';
+  };
+  usage: {
+    tokens: TokenUsage;
+    messages: {
+      count: number;
+      timezone?: string; // IANA zone by_day and by_hour are bucketed in; UTC when absent
+      estimated_times?: boolean; // Some turns are dated by when their session started, so by_hour and by_window are approximate
+      by_day: DayUsage[];
+      by_hour?: HourUsage[];
+      by_type?: MessageTypeCounts;
+      by_window?: WindowUsage[];
+    };
+    sessions: {
+      count: number;
+      idle_minutes?: number; // Gap that ends a stretch of active time in by_session
+    };
+    by_project?: Record<string, ProjectUsage>;
+    by_session?: Record<string, SessionUsage>;
+    by_host?: Record<string, HostUsage>; // Keyed by machine label
+    by_origin?: Record<string, OriginUsage>; // Keyed by user or host label in merged team reports
+    tools?: ToolStats; // Tool calls from transcripts that record them
+  };
+}
+
+// One response in a session's turn-by-turn timeline (`llm-usage sessions <id> --json`)
+export interface TimelineTurn {
+  index: number;
+  timestamp?: string;
+  elapsed_ms: number; // Since the session's first turn
+  model: string;
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write: number;
+  context: number; // input + cache_read + cache_write
+  cost: number;
+  cumulative_cost: number;
+  sidechain?: boolean;
+  model_switch?: boolean; // Model differs from the previous main-conversation response
+  compaction?: boolean;   // Context shrank to half or less of the previous response's
+  estimated?: EstimatedField[];
+}
+
+export interface SessionTimeline {
+  session_id: string;
+  source: string; // Parser id: claude, codex, gemini, aider, continue
+  files: string[];
+  cwd?: string;
+  start?: string; // ISO Date string
+  end?: string;   // ISO Date string
+  prompts: number;
+  tool_results: number;
+  total_cost: number;
+  turns: TimelineTurn[];
+}
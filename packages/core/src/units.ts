@@ -0,0 +1,42 @@
+// Units that plan limits can be measured in. Older reports only carry `count`
+// (assistant responses with usage), so the other units fall back to it.
+
+export type MessageUnit = 'messages' | 'prompts' | 'turns';
+
+export const MESSAGE_UNITS: Record<MessageUnit, { label: string; description: string }> = {
+  messages: {
+    label: 'Messages',
+    description: 'Assistant responses that reported token usage',
+  },
+  prompts: {
+    label: 'Prompts',
+    description: 'Prompts you typed, excluding tool results and subagent turns',
+  },
+  turns: {
+    label: 'All turns',
+    description: 'Prompts, responses, tool results and subagent (sidechain) turns',
+  },
+};
+
+export interface UnitCounts {
+  count: number;
+  prompts?: number;
+  turns?: number;
+}
+
+/**
+ * Get a day's or window's size in the given unit
+ */
+export function countInUnit(entry: UnitCounts, unit: MessageUnit): number {
+  if (unit === 'prompts') return entry.prompts ?? entry.count;
+  if (unit === 'turns') return entry.turns ?? entry.count;
+  return entry.count;
+}
+
+/**
+ * Check whether a report's days or windows were recorded with the given unit
+ */
+export function hasUnit(entries: UnitCounts[], unit: MessageUnit): boolean {
+  if (unit === 'messages') return true;
+  return entries.some((e) => (unit === 'prompts' ? e.prompts : e.turns) !== undefined);
+}
@@ -0,0 +1,143 @@
+import { countInUnit, type MessageUnit } from './units.js';
+
+// Claude subscriptions throttle usage in rolling 5-hour windows rather than per
+// calendar day. A window opens with the first message sent after the previous
+// window expired and stays open for WINDOW_HOURS from that message.
+
+export const WINDOW_HOURS = 5;
+
+const WINDOW_MS = WINDOW_HOURS * 60 * 60 * 1000;
+
+/** Approximate messages allowed per 5-hour window for each Claude plan */
+export const CLAUDE_WINDOW_LIMITS: Record<string, number> = {
+  'Claude Pro': 45,
+  'Claude Max 5x': 225,
+  'Claude Max 20x': 900,
+};
+
+/** Approximate messages allowed per day for each Claude plan */
+export const CLAUDE_DAILY_LIMITS: Record<string, number> = {
+  'Claude Pro': 100,
+  'Claude Max 5x': 500,
+  'Claude Max 20x': 2000,
+};
+
+export interface WindowMessage {
+  timestamp: string;
+  kind?: 'response' | 'prompt' | 'tool_result'; // Defaults to 'response'
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+export interface UsageWindow {
+  start: string; // ISO Date string of the message that opened the window
+  end: string;   // ISO Date string, start + WINDOW_HOURS
+  count: number; // Assistant responses
+  prompts?: number;
+  turns?: number; // Every transcript turn, including tool results
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+export interface WindowPlanFit {
+  plan: string;
+  limit: number;
+  windowsOver: number;
+}
+
+export interface WindowFitResult<W extends UsageWindow = UsageWindow> {
+  unit: MessageUnit;
+  totalWindows: number;
+  totalMessages: number;
+  avgMessages: number;
+  peak: W | null;
+  plans: WindowPlanFit[];
+  worstWindows: W[];
+  /** Cheapest plan (in limit order) with no rate-limited windows, or null if none fits */
+  recommendedPlan: string | null;
+}
+
+/**
+ * Group timestamped messages into 5-hour usage windows
+ */
+export function buildUsageWindows(messages: WindowMessage[]): UsageWindow[] {
+  const sorted = messages
+    .filter((m) => !Number.isNaN(Date.parse(m.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const windows: UsageWindow[] = [];
+  let current: UsageWindow | null = null;
+  let currentEnd = 0;
+
+  for (const message of sorted) {
+    const ts = Date.parse(message.timestamp);
+    if (!current || ts >= currentEnd) {
+      currentEnd = ts + WINDOW_MS;
+      current = {
+        start: new Date(ts).toISOString(),
+        end: new Date(currentEnd).toISOString(),
+        count: 0,
+        prompts: 0,
+        turns: 0,
+        input: 0,
+        output: 0,
+        cache_read: 0,
+        cache_write: 0,
+      };
+      windows.push(current);
+    }
+
+    current.turns = (current.turns || 0) + 1;
+    if (message.kind === 'prompt') {
+      current.prompts = (current.prompts || 0) + 1;
+    }
+    if (message.kind && message.kind !== 'response') continue;
+
+    current.count++;
+    current.input += message.input;
+    current.output += message.output;
+    current.cache_read = (current.cache_read || 0) + (message.cache_read || 0);
+    current.cache_write = (current.cache_write || 0) + (message.cache_write || 0);
+  }
+
+  return windows;
+}
+
+/**
+ * Compare window message counts against each plan's per-window limit
+ */
+export function analyzeWindowFit<W extends UsageWindow>(
+  windows: W[],
+  options: { limits?: Record<string, number>; top?: number; unit?: MessageUnit } = {}
+): WindowFitResult<W> {
+  const limits = options.limits || CLAUDE_WINDOW_LIMITS;
+  const top = options.top ?? 5;
+  const unit = options.unit || 'messages';
+  const size = (w: W) => countInUnit(w, unit);
+
+  const totalMessages = windows.reduce((sum, w) => sum + size(w), 0);
+  const worstWindows = [...windows].sort((a, b) => size(b) - size(a)).slice(0, top);
+
+  const plans = Object.entries(limits)
+    .sort(([, a], [, b]) => a - b)
+    .map(([plan, limit]) => ({
+      plan,
+      limit,
+      windowsOver: windows.filter((w) => size(w) > limit).length,
+    }));
+
+  return {
+    unit,
+    totalWindows: windows.length,
+    totalMessages,
+    avgMessages: windows.length > 0 ? Math.round(totalMessages / windows.length) : 0,
+    peak: worstWindows[0] || null,
+    plans,
+    worstWindows,
+    recommendedPlan: plans.find((p) => p.windowsOver === 0)?.plan ?? null,
+  };
+}
@@ -0,0 +1,25 @@
+import type { DayUsage, UsageReport } from '../src/index.js';
+
+/**
+ * A Claude report with `count` responses on each of `days` consecutive days from 2026-09-01
+ */
+export function dailyReport(days: number, count: number, plan = 'Claude Pro'): UsageReport {
+  const byDay: DayUsage[] = Array.from({ length: days }, (_, i) => ({
+    date: `2026-09-${String(i + 1).padStart(2, '0')}`,
+    count,
+    input: count * 1000,
+    output: count * 200,
+  }));
+
+  return {
+    provider: 'anthropic',
+    source: 'local_agent',
+    period: { start: '2026-09-01T00:00:00.000Z', end: `${byDay[byDay.length - 1].date}T23:59:59.000Z` },
+    plan: { name: plan, price_usd: 20, type: 'subscription' },
+    usage: {
+      tokens: { input: days * count * 1000, output: days * count * 200, by_model: {} },
+      messages: { count: days * count, by_day: byDay },
+      sessions: { count: days },
+    },
+  };
+}
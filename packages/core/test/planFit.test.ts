@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzePlanFit, DEFAULT_PLANS } from '../src/index.js';
+import { dailyReport } from './helpers.js';
+
+test('recommends the cheapest plan whose limits cover every day', () => {
+  const fit = analyzePlanFit(dailyReport(30, 300), 'Claude Max 20x');
+
+  assert.equal(fit.recommendation, 'Claude Max 5x');
+  assert.equal(fit.peakMessages, 300);
+  assert.equal(fit.plans.find((plan) => plan.name === 'Claude Pro')?.daysOver, 30);
+  assert.equal(fit.currentPrice, 200);
+  assert.equal(fit.savings, 100);
+  assert.equal(fit.confidence, 'high');
+});
+
+test('steps up a plan when the peak nears the cheapest fit', () => {
+  const fit = analyzePlanFit(dailyReport(10, 90), 'Claude Pro');
+
+  assert.equal(fit.recommendation, 'Claude Max 5x');
+  assert.match(fit.recommendationReason, /approaching Claude Pro's 100\/day limit/);
+  assert.equal(fit.savings, 0);
+  assert.equal(fit.confidence, 'low');
+});
+
+test('compares the current plan at the price paid for it', () => {
+  const fit = analyzePlanFit(dailyReport(30, 300), 'Claude Max 20x', 'messages', DEFAULT_PLANS, 60);
+
+  // At $60, Max 20x is cheaper than Max 5x and covers the usage
+  assert.equal(fit.recommendation, 'Claude Max 20x');
+  assert.equal(fit.currentPrice, 60);
+  assert.equal(fit.recommendedPrice, 60);
+  assert.equal(fit.savings, 0);
+});
+
+test('measures savings from the price paid for a plan it does not know', () => {
+  const fit = analyzePlanFit(dailyReport(30, 300), 'Team seat', 'messages', DEFAULT_PLANS, 150);
+
+  assert.equal(fit.recommendation, 'Claude Max 5x');
+  assert.equal(fit.recommendedPrice, 100);
+  assert.equal(fit.currentPrice, 150);
+  assert.equal(fit.savings, 50);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPlan, monthlyPrice, resolvePlans, validatePlans } from '../src/index.js';
+
+test('accepts overrides of built-in plans without a price', () => {
+  assert.deepEqual(validatePlans([{ name: 'claude pro', limits: { daily: 120 } }]), []);
+});
+
+test('requires a price for new plans', () => {
+  assert.deepEqual(validatePlans([{ name: 'Team Standard', limits: { window: 60 } }]), [
+    { path: '[0].price_usd', message: 'is required for a new plan' },
+  ]);
+});
+
+test('rejects duplicate names, bad limits and unknown fields', () => {
+  const errors = validatePlans([
+    { name: 'Team', price_usd: 30, limits: { daily: 0 } },
+    { name: 'team ', price_usd: 30, limit: { daily: 10 } },
+  ]);
+  const paths = errors.map((error) => error.path);
+
+  assert.ok(paths.includes('[0].limits.daily'));
+  assert.ok(paths.includes('[1].limit'));
+});
+
+test('flags a name used twice', () => {
+  const errors = validatePlans([
+    { name: 'Team', price_usd: 30 },
+    { name: 'team ', price_usd: 40 },
+  ]);
+  assert.deepEqual(errors, [{ path: '[1].name', message: 'duplicates plan "team "' }]);
+});
+
+test('applies overrides on top of the built-in plan', () => {
+  const plans = resolvePlans([
+    { name: 'Claude Pro', limits: { daily: 120 } },
+    { name: 'Team Standard', price_usd: 300, billing: 'annual', limits: { weekly: 1500 } },
+  ]);
+  const pro = getPlan(plans, 'Claude Pro');
+  const team = getPlan(plans, 'Team Standard');
+
+  assert.equal(pro?.limits.daily, 120);
+  assert.equal(pro?.price_usd, 20);
+  assert.equal(team && monthlyPrice(team), 25);
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateReportCost, calculateTokenCost, getModelPricing, PRICING_CATALOG } from '../src/index.js';
+
+const MILLION = { input: 1_000_000, output: 1_000_000 };
+
+test('prices usage at the rates in effect on its date', (t) => {
+  const history = PRICING_CATALOG['claude-sonnet-4-20250514'];
+  PRICING_CATALOG['claude-sonnet-4-20250514'] = [
+    ...history,
+    { ...history[0], effective_from: '2026-01-01', input: 2.0, output: 10.0 },
+  ];
+  t.after(() => { PRICING_CATALOG['claude-sonnet-4-20250514'] = history; });
+
+  assert.equal(calculateTokenCost('claude-sonnet-4-20250514', MILLION, { at: '2025-12-31' }), 18);
+  assert.equal(calculateTokenCost('claude-sonnet-4-20250514', MILLION, { at: '2026-01-01' }), 12);
+  // Undated ids share the history of their dated entry
+  assert.equal(calculateTokenCost('claude-sonnet-4', MILLION, { at: '2026-06-01' }), 12);
+  // A report is priced as of the end of its period
+  const report = { period: { end: '2025-12-31T23:00:00Z' }, usage: { tokens: { ...MILLION, by_model: { 'claude-sonnet-4-20250514': MILLION } } } };
+  assert.equal(calculateReportCost(report), 18);
+});
+
+test('uses the earliest rates for usage older than the catalog', () => {
+  assert.equal(getModelPricing('gpt-4o', '2020-01-01').effective_from, '2024-05-13');
+});
+
+test('takes the batch discount off and falls back to default rates', () => {
+  assert.equal(calculateTokenCost('gpt-4o', MILLION, { batch: true }), 6.25);
+  assert.equal(calculateTokenCost('some-new-model', { ...MILLION, cache_read: 1_000_000 }), 18.375);
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrateUsageReport, REPORT_SCHEMA_VERSION, validateUsageReport } from '../src/index.js';
+
+// A browser extension report from before schema_version existed
+const V0_REPORT = {
+  provider: 'anthropic',
+  source: 'extension',
+  period: { start: '2026-09-01T00:00:00.000Z', end: '2026-09-30T23:59:59.000Z' },
+  plan: { name: 'Claude Pro', price_usd: 20, type: 'subscription' },
+  usage: {
+    tokens: { input: 1200, output: 300 },
+    messages: { count: 14 },
+  },
+};
+
+test('migrates unversioned reports to the current schema', () => {
+  const migrated = migrateUsageReport(V0_REPORT) as Record<string, any>;
+
+  assert.equal(migrated.schema_version, REPORT_SCHEMA_VERSION);
+  assert.equal(migrated.source, 'browser_extension');
+  assert.deepEqual(migrated.usage.tokens.by_model, {});
+  assert.deepEqual(migrated.usage.messages.by_day, []);
+  assert.deepEqual(migrated.usage.sessions, { count: 0 });
+  assert.equal(migrated.usage.tokens.input, 1200);
+  // The input is left untouched
+  assert.equal(V0_REPORT.source, 'extension');
+});
+
+test('accepts a migrated report', () => {
+  const result = validateUsageReport(V0_REPORT);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.valid, true);
+});
+
+test('rejects reports from a newer version', () => {
+  const result = validateUsageReport({ ...V0_REPORT, schema_version: REPORT_SCHEMA_VERSION + 1 });
+  assert.equal(result.valid, false);
+  assert.equal(result.errors[0].path, 'schema_version');
+});
+
+test('reports where a value has the wrong type', () => {
+  const result = validateUsageReport({ ...V0_REPORT, usage: { ...V0_REPORT.usage, tokens: { input: '1200', output: 300 } } });
+  assert.equal(result.valid, false);
+  assert.ok(result.errors.some((error) => error.path === 'usage.tokens.input'));
+});
+
+test('leaves values that are not reports unchanged', () => {
+  assert.equal(migrateUsageReport(null), null);
+  assert.deepEqual(migrateUsageReport([1, 2]), [1, 2]);
+});
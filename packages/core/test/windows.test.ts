@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeWindowFit, buildUsageWindows, type WindowMessage } from '../src/index.js';
+
+function response(timestamp: string): WindowMessage {
+  return { timestamp, input: 100, output: 20 };
+}
+
+test('opens a window with the first message after the last one expired', () => {
+  const windows = buildUsageWindows([
+    response('2026-10-01T13:59:59Z'),
+    response('2026-10-01T09:00:00Z'),
+    response('2026-10-01T14:00:00Z'),
+    { timestamp: 'not a date', input: 1, output: 1 },
+  ]);
+
+  assert.deepEqual(windows.map((w) => [w.start, w.end, w.count]), [
+    ['2026-10-01T09:00:00.000Z', '2026-10-01T14:00:00.000Z', 2],
+    ['2026-10-01T14:00:00.000Z', '2026-10-01T19:00:00.000Z', 1],
+  ]);
+  assert.equal(windows[0].input, 200);
+});
+
+test('counts prompts and tool results as turns, not responses', () => {
+  const [window] = buildUsageWindows([
+    { timestamp: '2026-10-01T09:00:00Z', kind: 'prompt', input: 0, output: 0 },
+    response('2026-10-01T09:00:05Z'),
+    { timestamp: '2026-10-01T09:00:10Z', kind: 'tool_result', input: 50, output: 0 },
+    response('2026-10-01T09:00:15Z'),
+  ]);
+
+  assert.equal(window.count, 2);
+  assert.equal(window.prompts, 1);
+  assert.equal(window.turns, 4);
+  assert.equal(window.input, 200);
+});
+
+test('recommends the cheapest plan no window goes over', () => {
+  const busy = Array.from({ length: 50 }, (_, i) => response(`2026-10-01T09:${String(i).padStart(2, '0')}:00Z`));
+  const windows = buildUsageWindows([...busy, response('2026-10-02T09:00:00Z')]);
+  const fit = analyzeWindowFit(windows, { top: 1 });
+
+  assert.equal(fit.totalWindows, 2);
+  assert.equal(fit.totalMessages, 51);
+  assert.equal(fit.peak?.count, 50);
+  assert.equal(fit.worstWindows.length, 1);
+  assert.deepEqual(fit.plans.map((p) => [p.plan, p.windowsOver]), [['Claude Pro', 1], ['Claude Max 5x', 0], ['Claude Max 20x', 0]]);
+  assert.equal(fit.recommendedPlan, 'Claude Max 5x');
+  assert.equal(analyzeWindowFit(windows, { limits: { Tiny: 1 } }).recommendedPlan, null);
+});
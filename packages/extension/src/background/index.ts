@@ -1,6 +1,6 @@
 // Background service worker for LLM Usage Analyzer extension
 
-export {}
+import { formatSchemaErrors, REPORT_SCHEMA_VERSION, validateUsageReport, type ReportValidation, type UsageReport } from "@llm-usage/core"
 
 // Handle installation
 chrome.runtime.onInstalled.addListener(() => {
@@ -52,9 +52,12 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.action === 'exportData') {
     chrome.storage.local.get(['scrapes'], (result) => {
       const scrapes = result.scrapes || []
-      // Transform to UsageReport format
-      const reports = scrapes.map((s: { data: unknown }) => transformToUsageReport(s.data))
-      sendResponse({ reports })
+      // Transform to UsageReport format, leaving out scrapes that fail validation
+      const checked: ReportValidation[] = scrapes.map((s: { data: unknown }) => validateUsageReport(transformToUsageReport(s.data)))
+      sendResponse({
+        reports: checked.filter(c => c.valid).map(c => c.report),
+        skipped: checked.filter(c => !c.valid).map(c => formatSchemaErrors(c.errors, 1)[0])
+      })
     })
     return true
   }
@@ -140,7 +143,7 @@ function formatNumber(num: number): string {
 }
 
 interface ScrapedData {
-  provider: string
+  provider: UsageReport['provider']
   usage: {
     tokens: {
       input: number
@@ -151,11 +154,12 @@ interface ScrapedData {
   period?: { start: string; end: string }
 }
 
-function transformToUsageReport(data: unknown) {
+function transformToUsageReport(data: unknown): UsageReport {
   const scraped = data as ScrapedData
   return {
+    schema_version: REPORT_SCHEMA_VERSION,
     provider: scraped.provider,
-    source: 'extension',
+    source: 'browser_extension',
     period: scraped.period || {
       start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       end: new Date().toISOString()
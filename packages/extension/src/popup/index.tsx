@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react"
+import { calculateUsageCost, formatSchemaErrors, REPORT_SCHEMA_VERSION, validateUsageReport, type UsageReport } from "@llm-usage/core"
 
 interface ScrapedData {
-  provider: string
+  provider: UsageReport['provider']
   source: string
   scrapedAt: string
   url: string
@@ -41,7 +42,7 @@ function IndexPopup() {
     // Load saved scrapes
     chrome.storage.local.get(['scrapes'], (result) => {
       if (result.scrapes) {
-        setScrapes(result.scrapes)
+        setScrapes(result.scrapes.map((scrape: StoredScrape) => ({ ...scrape, data: withModels(scrape.data) })))
       }
     })
   }, [])
@@ -70,12 +71,13 @@ function IndexPopup() {
 
       if (response?.usage) {
         setStatus('success')
-        setLastScrape(response as ScrapedData)
+        const scraped = withModels(response as ScrapedData)
+        setLastScrape(scraped)
 
         // Save to storage
         const newScrape: StoredScrape = {
           id: `scrape-${Date.now()}`,
-          data: response,
+          data: scraped,
           scrapedAt: new Date().toISOString()
         }
 
@@ -101,8 +103,18 @@ function IndexPopup() {
       return
     }
 
-    // Convert scrapes to UsageReport format for the dashboard
-    const reports = scrapes.map(s => transformToUsageReport(s.data))
+    // Convert scrapes to UsageReport format for the dashboard, leaving out any
+    // the dashboard would reject
+    const checked = scrapes.map(s => validateUsageReport(transformToUsageReport(s.data)))
+    const reports = checked.filter(c => c.valid).map(c => c.report)
+    const invalid = checked.filter(c => !c.valid)
+    if (invalid.length > 0) {
+      console.error('Invalid scrapes left out of export:', invalid.map(c => formatSchemaErrors(c.errors)))
+    }
+    if (reports.length === 0) {
+      setMessage(`No valid data to export (${formatSchemaErrors(invalid[0].errors, 1)[0]})`)
+      return
+    }
 
     const blob = new Blob([JSON.stringify(reports, null, 2)], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
@@ -113,7 +125,7 @@ function IndexPopup() {
     a.click()
 
     URL.revokeObjectURL(url)
-    setMessage('Exported to file!')
+    setMessage(invalid.length > 0 ? `Exported ${reports.length}, skipped ${invalid.length} invalid` : 'Exported to file!')
   }
 
   const handleClear = () => {
@@ -239,6 +251,10 @@ function IndexPopup() {
               <div style={{ color: '#64748b' }}>Provider</div>
               <div style={{ fontWeight: 600, textTransform: 'capitalize' }}>{lastScrape.provider}</div>
             </div>
+            <div>
+              <div style={{ color: '#64748b' }}>API Equivalent</div>
+              <div style={{ fontWeight: 600 }}>${calculateUsageCost(lastScrape.usage.tokens).toFixed(2)}</div>
+            </div>
           </div>
         </div>
       )}
@@ -343,11 +359,18 @@ function formatNumber(num: number): string {
   return num.toString()
 }
 
-function transformToUsageReport(data: ScrapedData) {
+// Scrapes saved by older versions, or from pages without a model table, have no by_model
+function withModels(data: ScrapedData): ScrapedData {
+  const { tokens } = data.usage
+  return { ...data, usage: { ...data.usage, tokens: { ...tokens, by_model: tokens.by_model ?? {} } } }
+}
+
+function transformToUsageReport(data: ScrapedData): UsageReport {
   // Transform scraped data to match the dashboard's UsageReport format
   return {
+    schema_version: REPORT_SCHEMA_VERSION,
     provider: data.provider,
-    source: 'extension',
+    source: 'browser_extension',
     period: data.period || {
       start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       end: new Date().toISOString()
@@ -355,7 +378,7 @@ function transformToUsageReport(data: ScrapedData) {
     plan: {
       name: data.provider === 'anthropic' ? 'Claude Pro' : 'OpenAI API',
       price_usd: 0,
-      type: 'subscription' as const
+      type: 'subscription'
     },
     usage: {
       tokens: {
@@ -1,5 +1,5 @@
 import { UsageReport, StoredReport } from '../types';
-import { MODEL_PRICING } from '../constants';
+import { calculateReportCost, calculateTokenCost, calculateDayCost, getModelPricing } from '@llm-usage/core';
 
 /**
  * Export a single report to JSON
@@ -29,15 +29,17 @@ export function exportToCSV(report: UsageReport, filename?: string): void {
  * Export daily breakdown to CSV
  */
 export function exportDailyToCSV(report: UsageReport, filename?: string): void {
-  const headers = ['Date', 'Messages', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Estimated Cost'];
+  const headers = ['Date', 'Messages', 'Input Tokens', 'Output Tokens', 'Cache Read Tokens', 'Cache Write Tokens', 'Total Tokens', 'Estimated Cost'];
   const rows = report.usage.messages.by_day.map(day => {
     const totalTokens = day.input + day.output;
-    const cost = estimateDayCost(day.input, day.output, report);
+    const cost = calculateDayCost(day, report);
     return [
       day.date,
       day.count.toString(),
       day.input.toString(),
       day.output.toString(),
+      (day.cache_read || 0).toString(),
+      (day.cache_write || 0).toString(),
       totalTokens.toString(),
       `$${cost.toFixed(4)}`,
     ];
@@ -51,19 +53,25 @@ export function exportDailyToCSV(report: UsageReport, filename?: string): void {
  * Export model breakdown to CSV
  */
 export function exportModelBreakdownToCSV(report: UsageReport, filename?: string): void {
-  const headers = ['Model', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Input Cost', 'Output Cost', 'Total Cost'];
+  const headers = ['Model', 'Input Tokens', 'Output Tokens', 'Cache Read Tokens', 'Cache Write Tokens', 'Total Tokens', 'Input Cost', 'Output Cost', 'Cache Cost', 'Total Cost'];
   const rows = Object.entries(report.usage.tokens.by_model).map(([model, tokens]) => {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
+    const pricing = getModelPricing(model, report.period.end);
     const inputCost = (tokens.input / 1_000_000) * pricing.input;
     const outputCost = (tokens.output / 1_000_000) * pricing.output;
+    const cacheCost =
+      ((tokens.cache_read || 0) / 1_000_000) * pricing.cache_read +
+      ((tokens.cache_write || 0) / 1_000_000) * pricing.cache_write;
     return [
       model,
       tokens.input.toString(),
       tokens.output.toString(),
+      (tokens.cache_read || 0).toString(),
+      (tokens.cache_write || 0).toString(),
       (tokens.input + tokens.output).toString(),
       `$${inputCost.toFixed(4)}`,
       `$${outputCost.toFixed(4)}`,
-      `$${(inputCost + outputCost).toFixed(4)}`,
+      `$${cacheCost.toFixed(4)}`,
+      `$${(inputCost + outputCost + cacheCost).toFixed(4)}`,
     ];
   });
 
@@ -92,37 +100,32 @@ function generateCSV(report: UsageReport): string {
   lines.push(`Total Input Tokens,${report.usage.tokens.input}`);
   lines.push(`Total Output Tokens,${report.usage.tokens.output}`);
   lines.push(`Total Tokens,${report.usage.tokens.input + report.usage.tokens.output}`);
-  lines.push(`Cached Tokens,${report.usage.tokens.cached || 0}`);
+  lines.push(`Cache Read Tokens,${report.usage.tokens.cache_read || 0}`);
+  lines.push(`Cache Write Tokens,${report.usage.tokens.cache_write || 0}`);
   lines.push(`Message Count,${report.usage.messages.count}`);
   lines.push(`Session Count,${report.usage.sessions.count}`);
   lines.push('');
 
   // Calculate total cost
-  let totalCost = 0;
-  for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    totalCost += (tokens.input / 1_000_000) * pricing.input;
-    totalCost += (tokens.output / 1_000_000) * pricing.output;
-  }
+  const totalCost = calculateReportCost(report);
   lines.push(`Estimated API Cost,$${totalCost.toFixed(2)}`);
   lines.push('');
 
   // Model breakdown
   lines.push('MODEL BREAKDOWN');
-  lines.push('Model,Input Tokens,Output Tokens,Total Tokens,Estimated Cost');
+  lines.push('Model,Input Tokens,Output Tokens,Cache Read Tokens,Cache Write Tokens,Total Tokens,Estimated Cost');
   for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    const cost = (tokens.input / 1_000_000) * pricing.input + (tokens.output / 1_000_000) * pricing.output;
-    lines.push(`${model},${tokens.input},${tokens.output},${tokens.input + tokens.output},$${cost.toFixed(4)}`);
+    const cost = calculateTokenCost(model, tokens, { at: report.period.end });
+    lines.push(`${model},${tokens.input},${tokens.output},${tokens.cache_read || 0},${tokens.cache_write || 0},${tokens.input + tokens.output},$${cost.toFixed(4)}`);
   }
   lines.push('');
 
   // Daily breakdown
   if (report.usage.messages.by_day.length > 0) {
     lines.push('DAILY BREAKDOWN');
-    lines.push('Date,Messages,Input Tokens,Output Tokens');
+    lines.push('Date,Messages,Input Tokens,Output Tokens,Cache Read Tokens,Cache Write Tokens');
     for (const day of report.usage.messages.by_day) {
-      lines.push(`${day.date},${day.count},${day.input},${day.output}`);
+      lines.push(`${day.date},${day.count},${day.input},${day.output},${day.cache_read || 0},${day.cache_write || 0}`);
     }
   }
 
@@ -153,15 +156,11 @@ export function exportToPDF(report: UsageReport): void {
  */
 function generatePDFHTML(report: UsageReport): string {
   // Calculate costs
-  let totalCost = 0;
-  const modelCosts: Record<string, { input: number; output: number; total: number }> = {};
+  const totalCost = calculateReportCost(report);
+  const modelCosts: Record<string, { total: number }> = {};
 
   for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    const inputCost = (tokens.input / 1_000_000) * pricing.input;
-    const outputCost = (tokens.output / 1_000_000) * pricing.output;
-    modelCosts[model] = { input: inputCost, output: outputCost, total: inputCost + outputCost };
-    totalCost += inputCost + outputCost;
+    modelCosts[model] = { total: calculateTokenCost(model, tokens, { at: report.period.end }) };
   }
 
   const totalTokens = report.usage.tokens.input + report.usage.tokens.output;
@@ -343,13 +342,7 @@ export async function copyToClipboard(report: UsageReport): Promise<boolean> {
 
 function generateClipboardText(report: UsageReport): string {
   const totalTokens = report.usage.tokens.input + report.usage.tokens.output;
-  let totalCost = 0;
-
-  for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    totalCost += (tokens.input / 1_000_000) * pricing.input;
-    totalCost += (tokens.output / 1_000_000) * pricing.output;
-  }
+  const totalCost = calculateReportCost(report);
 
   return `LLM Usage Report
 Provider: ${report.provider}
@@ -394,11 +387,3 @@ function formatDate(date: Date): string {
 function formatNumberWithCommas(num: number): string {
   return num.toLocaleString();
 }
-
-function estimateDayCost(input: number, output: number, report: UsageReport): number {
-  // Use first model's pricing as estimate, or default
-  const firstModel = Object.keys(report.usage.tokens.by_model)[0];
-  const pricing = firstModel ? MODEL_PRICING[firstModel] : MODEL_PRICING['default'];
-
-  return (input / 1_000_000) * pricing.input + (output / 1_000_000) * pricing.output;
-}
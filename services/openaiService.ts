@@ -1,4 +1,5 @@
 import { UsageReport } from '../types';
+import { REPORT_SCHEMA_VERSION } from '@llm-usage/core';
 
 interface OpenAIUsageBucket {
   object: string;
@@ -73,6 +74,7 @@ function transformOpenAIResponse(
   endDate: Date
 ): UsageReport {
   const report: UsageReport = {
+    schema_version: REPORT_SCHEMA_VERSION,
     provider: 'openai',
     source: 'api',
     period: {
@@ -1,4 +1,5 @@
 import { UsageReport, StoredReport, UserSettings } from '../types';
+import { formatSchemaErrors, migrateUsageReport, validatePlans, validateUsageReport, type CustomPlan } from '@llm-usage/core';
 
 const STORAGE_KEYS = {
   USAGE_HISTORY: 'llm_usage_history',
@@ -6,7 +7,7 @@ const STORAGE_KEYS = {
   STORAGE_VERSION: 'llm_storage_version',
 } as const;
 
-const CURRENT_VERSION = 1;
+const CURRENT_VERSION = 2;
 const MAX_HISTORY_ITEMS = 50;
 
 // Generate a unique ID
@@ -18,7 +19,14 @@ function generateId(): string {
 function migrateStorageIfNeeded(): void {
   const version = localStorage.getItem(STORAGE_KEYS.STORAGE_VERSION);
   if (!version || parseInt(version) < CURRENT_VERSION) {
-    // Future migrations would go here
+    // v2: saved reports carry schema_version; upgrade the ones saved before it
+    if (!version || parseInt(version) < 2) {
+      const history: StoredReport[] = storageService.getReports().map(stored => ({
+        ...stored,
+        report: migrateUsageReport(stored.report) as UsageReport,
+      }));
+      localStorage.setItem(STORAGE_KEYS.USAGE_HISTORY, JSON.stringify(history));
+    }
     localStorage.setItem(STORAGE_KEYS.STORAGE_VERSION, CURRENT_VERSION.toString());
   }
 }
@@ -132,6 +140,14 @@ export const storageService = {
     this.saveSettings(settings);
   },
 
+  /**
+   * The user's custom plans, or none if the stored ones no longer validate
+   */
+  getCustomPlans(): CustomPlan[] {
+    const plans = this.getSettings().customPlans || [];
+    return validatePlans(plans).length === 0 ? plans : [];
+  },
+
   /**
    * Generate a descriptive name for a report
    */
@@ -167,14 +183,15 @@ export const storageService = {
   },
 
   /**
-   * Import data from JSON backup
+   * Import data from JSON backup. Reports are migrated to the current schema;
+   * entries that still fail validation are skipped and listed in `skipped`.
    */
-  importAll(jsonData: string): { success: boolean; imported: number; error?: string } {
+  importAll(jsonData: string): { success: boolean; imported: number; skipped: string[]; error?: string } {
     try {
       const data = JSON.parse(jsonData);
 
       if (!data.history || !Array.isArray(data.history)) {
-        return { success: false, imported: 0, error: 'Invalid backup format' };
+        return { success: false, imported: 0, skipped: [], error: 'Invalid backup format' };
       }
 
       // Merge with existing (avoid duplicates)
@@ -182,12 +199,17 @@ export const storageService = {
       const existingIds = new Set(existing.map(r => r.id));
 
       let imported = 0;
-      for (const report of data.history) {
-        if (!existingIds.has(report.id)) {
-          existing.push(report);
-          imported++;
+      const skipped: string[] = [];
+      data.history.forEach((stored: StoredReport, index: number) => {
+        if (existingIds.has(stored.id)) return;
+        const { valid, errors, report } = validateUsageReport(stored.report);
+        if (!valid) {
+          skipped.push(`${stored.name || `Entry ${index + 1}`}: ${formatSchemaErrors(errors, 1)[0]}`);
+          return;
         }
-      }
+        existing.push({ ...stored, report: report as UsageReport });
+        imported++;
+      });
 
       // Sort by date and trim
       existing.sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
@@ -197,13 +219,17 @@ export const storageService = {
 
       // Import settings if present
       if (data.settings) {
+        if (data.settings.customPlans && validatePlans(data.settings.customPlans).length > 0) {
+          skipped.push(`Custom plans: ${formatSchemaErrors(validatePlans(data.settings.customPlans), 1)[0]}`);
+          delete data.settings.customPlans;
+        }
         const currentSettings = this.getSettings();
         this.saveSettings({ ...currentSettings, ...data.settings });
       }
 
-      return { success: true, imported };
+      return { success: true, imported, skipped };
     } catch (e) {
-      return { success: false, imported: 0, error: 'Failed to parse backup file' };
+      return { success: false, imported: 0, skipped: [], error: 'Failed to parse backup file' };
     }
   },
 
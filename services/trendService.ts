@@ -1,21 +1,5 @@
 import { StoredReport, TrendData, UsageTrend, UsageReport } from '../types';
-import { MODEL_PRICING } from '../constants';
-
-/**
- * Calculate cost for a usage report
- */
-function calculateReportCost(report: UsageReport): number {
-  let totalCost = 0;
-
-  for (const [model, tokens] of Object.entries(report.usage.tokens.by_model)) {
-    const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-    const inputCost = (tokens.input / 1_000_000) * pricing.input;
-    const outputCost = (tokens.output / 1_000_000) * pricing.output;
-    totalCost += inputCost + outputCost;
-  }
-
-  return totalCost;
-}
+import { calculateReportCost, calculateTokenCost, calculateDayCost } from '@llm-usage/core';
 
 /**
  * Group stored reports by month
@@ -129,11 +113,8 @@ export function getDailyBreakdown(reports: StoredReport[]): Array<{
       const existing = dayMap.get(day.date) || { tokens: 0, cost: 0, messages: 0 };
       const dayTokens = day.input + day.output;
 
-      // Estimate cost based on token ratio
-      const report = stored.report;
-      const reportTotalTokens = report.usage.tokens.input + report.usage.tokens.output;
-      const reportCost = calculateReportCost(report);
-      const dayCost = reportTotalTokens > 0 ? (dayTokens / reportTotalTokens) * reportCost : 0;
+      // Estimate cost at the report's blended per-model rates
+      const dayCost = calculateDayCost(day, stored.report);
 
       dayMap.set(day.date, {
         tokens: existing.tokens + dayTokens,
@@ -148,40 +129,53 @@ export function getDailyBreakdown(reports: StoredReport[]): Array<{
     .sort((a, b) => a.date.localeCompare(b.date));
 }
 
+export interface HeatmapCell {
+  weekday: number; // 0 = Monday
+  hour: number;    // 0-23
+  messages: number;
+  tokens: number;
+}
+
 /**
- * Get usage heatmap by day of week
+ * Messages and tokens by weekday and hour of day, from the hourly buckets the
+ * CLI records in each report's time zone. Reports without them are skipped.
  */
-export function getWeekdayHeatmap(reports: StoredReport[]): Array<{
-  day: string;
-  avgTokens: number;
-  avgMessages: number;
-}> {
-  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const dayStats: Record<number, { totalTokens: number; totalMessages: number; count: number }> = {};
-
-  // Initialize
-  for (let i = 0; i < 7; i++) {
-    dayStats[i] = { totalTokens: 0, totalMessages: 0, count: 0 };
+export function getHourlyHeatmap(reports: UsageReport[]): {
+  cells: HeatmapCell[];
+  timezones: string[];
+  maxTokens: number;
+  maxMessages: number;
+} {
+  const cells: HeatmapCell[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      cells.push({ weekday, hour, messages: 0, tokens: 0 });
+    }
   }
 
-  // Aggregate
-  for (const stored of reports) {
-    for (const day of stored.report.usage.messages.by_day) {
-      const date = new Date(day.date);
-      const dayOfWeek = date.getDay();
-
-      dayStats[dayOfWeek].totalTokens += day.input + day.output;
-      dayStats[dayOfWeek].totalMessages += day.count;
-      dayStats[dayOfWeek].count++;
+  const timezones = new Set<string>();
+  for (const report of reports) {
+    const hours = report.usage.messages.by_hour;
+    if (!hours?.length) continue;
+    timezones.add(report.usage.messages.timezone || 'UTC');
+
+    for (const bucket of hours) {
+      const [date, hour] = bucket.hour.split('T');
+      // Keys are already local, so the date is read as UTC to keep its weekday
+      const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+      const cell = cells[weekday * 24 + Number(hour)];
+      if (!cell) continue;
+      cell.messages += bucket.count;
+      cell.tokens += bucket.input + bucket.output;
     }
   }
 
-  // Calculate averages
-  return dayNames.map((name, i) => ({
-    day: name,
-    avgTokens: dayStats[i].count > 0 ? dayStats[i].totalTokens / dayStats[i].count : 0,
-    avgMessages: dayStats[i].count > 0 ? dayStats[i].totalMessages / dayStats[i].count : 0,
-  }));
+  return {
+    cells,
+    timezones: [...timezones],
+    maxTokens: Math.max(0, ...cells.map((c) => c.tokens)),
+    maxMessages: Math.max(0, ...cells.map((c) => c.messages)),
+  };
 }
 
 /**
@@ -193,16 +187,17 @@ export function getModelDistribution(reports: StoredReport[]): Array<{
   cost: number;
   percentage: number;
 }> {
-  const modelStats: Record<string, { input: number; output: number }> = {};
+  const modelStats: Record<string, { input: number; output: number; cost: number }> = {};
   let totalTokens = 0;
 
   for (const stored of reports) {
     for (const [model, tokens] of Object.entries(stored.report.usage.tokens.by_model)) {
       if (!modelStats[model]) {
-        modelStats[model] = { input: 0, output: 0 };
+        modelStats[model] = { input: 0, output: 0, cost: 0 };
       }
       modelStats[model].input += tokens.input;
       modelStats[model].output += tokens.output;
+      modelStats[model].cost += calculateTokenCost(model, tokens, { at: stored.report.period.end });
       totalTokens += tokens.input + tokens.output;
     }
   }
@@ -210,13 +205,11 @@ export function getModelDistribution(reports: StoredReport[]): Array<{
   return Object.entries(modelStats)
     .map(([model, tokens]) => {
       const modelTokens = tokens.input + tokens.output;
-      const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-      const cost = (tokens.input / 1_000_000) * pricing.input + (tokens.output / 1_000_000) * pricing.output;
 
       return {
         model: model.replace('claude-', '').replace('gpt-', ''),
         tokens: modelTokens,
-        cost,
+        cost: tokens.cost,
         percentage: totalTokens > 0 ? (modelTokens / totalTokens) * 100 : 0,
       };
     })
@@ -1,33 +1,25 @@
-export interface TokenUsage {
-  input: number;
-  output: number;
-  cached?: number;
-  by_model: Record<string, { input: number; output: number }>;
-}
+import type { CustomPlan, UsageReport } from '@llm-usage/core';
 
-export interface UsageReport {
-  provider: 'anthropic' | 'openai' | 'google' | 'xai' | 'other';
-  source: 'local_agent' | 'browser_extension' | 'api' | 'manual_upload' | 'demo' | 'manual_entry';
-  period: {
-    start: string; // ISO Date string
-    end: string;   // ISO Date string
-  };
-  plan: {
-    name: string;
-    price_usd: number;
-    type: 'subscription' | 'payg';
-  };
-  usage: {
-    tokens: TokenUsage;
-    messages: {
-      count: number;
-      by_day: Array<{ date: string; count: number; input: number; output: number }>;
-    };
-    sessions: {
-      count: number;
-    };
-  };
-}
+// Report types live in @llm-usage/core so the CLI and extension share them
+export type {
+  EstimatedField,
+  ModelTokens,
+  TokenUsage,
+  MessageTypeCounts,
+  DayUsage,
+  HourUsage,
+  WindowUsage,
+  UsageBreakdown,
+  ProjectUsage,
+  SessionUsage,
+  HostUsage,
+  OriginUsage,
+  ToolUsage,
+  ToolStats,
+  UsageReport,
+  TimelineTurn,
+  SessionTimeline,
+} from '@llm-usage/core';
 
 export interface PlanPricing {
   name: string;
@@ -47,7 +39,7 @@ export interface AnalysisResult {
   savings: number;
   isOverpaying: boolean;
   recommendedPlan: string;
-  modelBreakdown: Array<{ name: string; value: number }>;
+  modelBreakdown: Array<{ name: string; value: number; estimated?: boolean }>;
 }
 
 // Storage types for localStorage persistence
@@ -66,12 +58,13 @@ export interface UserSettings {
   };
   theme?: 'light' | 'dark';
   lastSyncedAt?: string;
+  customPlans?: CustomPlan[]; // Overrides and additions to the built-in plans used by Plan Fit
 }
 
 // Extended plan info with limits (for recommendation engine)
 export interface PlanInfo {
   name: string;
-  provider: 'anthropic' | 'openai' | 'google' | 'xai' | 'other';
+  provider: UsageReport['provider'];
   price_usd: number;
   billing: 'monthly' | 'annual' | 'payg';
   type: 'subscription' | 'payg';
@@ -81,11 +74,6 @@ export interface PlanInfo {
     rate_limit_rpm?: number;
     models_included?: string[];
   };
-  pricing?: {
-    input_per_1m_tokens: number;
-    output_per_1m_tokens: number;
-    by_model?: Record<string, { input: number; output: number }>;
-  };
 }
 
 // Trend analysis types